@@ -1,15 +1,18 @@
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 
-const exampleYCard = `# Example yCard\npeople:\n  - uid: user-001\n    name: Alice\n    surname: Smith\n    title: Engineer\n    org: ExampleCorp\n    email: alice.smith@example.com\n    phone:\n      - number: \"+1-555-1234\"\n        type: work\n    address:\n      street: \"123 Main St\"\n      city: \"Metropolis\"\n      state: \"CA\"\n      postal_code: \"90210\"\n      country: \"USA\"\n`;
+const exampleYCard = `# Example yCard\npeople:\n  - uid: user-001\n    name: Alice\n    surname: Smith\n    title: Engineer\n    org: ExampleCorp\n    email: alice.smith@example.com\n    phone:\n      - number: \"+1-201-555-1234\"\n        type: work\n    address:\n      - type: work\n        street: \"123 Main St\"\n        city: \"Metropolis\"\n        state: \"CA\"\n        postal_code: \"90210\"\n        country: \"US\"\n`;
 import MonacoEditor from '@monaco-editor/react';
-import { validateYCard, ycardFields } from './ycardValidation';
+import { validateYCard, ycardFields, resolvePersonField } from './ycardValidation';
+import { formatAddress } from '../../src/address';
 import yaml from 'js-yaml';
 import './App.css';
 
 // Simple card component for yCard/person
-function YCardPersonCard({ person, darkMode }) {
-  if (!person) return null;
+function YCardPersonCard({ person: raw, darkMode }) {
+  if (!raw) return null;
+  const person = Object.fromEntries(['name', 'surname', 'title', 'org', 'email', 'phone', 'address', 'manager', 'jobs']
+    .map(field => [field, resolvePersonField(raw, field)]));
   return (
     <div style={{
       background: darkMode ? '#23272e' : '#fff',
@@ -22,14 +25,17 @@ function YCardPersonCard({ person, darkMode }) {
       maxWidth: 350,
       fontSize: 16,
     }}>
-      <div style={{ fontWeight: 700, fontSize: 20, marginBottom: 4 }}>{person.name || person.nombre || 'No Name'} {person.surname || person.apellido || ''}</div>
+      <div style={{ fontWeight: 700, fontSize: 20, marginBottom: 4 }}>{person.name || 'No Name'} {person.surname || ''}</div>
       {person.title && <div style={{ fontStyle: 'italic', marginBottom: 4 }}>{person.title}</div>}
       {person.org && <div style={{ marginBottom: 4 }}>Org: {person.org}</div>}
       {person.email && <div style={{ marginBottom: 4 }}>Email: {Array.isArray(person.email) ? person.email.join(', ') : person.email}</div>}
       {person.phone && <div style={{ marginBottom: 4 }}>Phone: {Array.isArray(person.phone) ? person.phone.map(p => typeof p === 'string' ? p : p.number).join(', ') : typeof person.phone === 'string' ? person.phone : person.phone.number}</div>}
-      {person.address && <div style={{ marginBottom: 4 }}>
-        Address: {[person.address.street, person.address.city, person.address.state, person.address.postal_code, person.address.country].filter(Boolean).join(', ')}
-      </div>}
+      {person.address && [].concat(person.address).map((address, i) => (
+        <div key={i} style={{ marginBottom: 4 }}>
+          Address{address.type ? ` (${address.type})` : ''}:
+          <div style={{ whiteSpace: 'pre-line', paddingLeft: 12 }}>{formatAddress(address, { locale: navigator.language }).join('\n')}</div>
+        </div>
+      ))}
       {person.manager && <div style={{ marginBottom: 4 }}>Manager: {person.manager}</div>}
       {person.jobs && Array.isArray(person.jobs) && person.jobs.length > 0 && (
         <div style={{ marginBottom: 4 }}>
@@ -49,6 +55,8 @@ function App() {
   const [cardData, setCardData] = useState(null);
   const prefersDark = typeof window !== 'undefined' && window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
   const [darkMode, setDarkMode] = useState(prefersDark);
+  const editorRef = useRef(null);
+  const monacoRef = useRef(null);
 
   // Real validation handler
   const handleEditorChange = (value) => {
@@ -62,12 +70,23 @@ function App() {
     if (errors.length === 0) {
       setLspOutput('No errors. yCard is valid!');
     } else {
-      setLspOutput(errors.map((e, i) => `Error ${i + 1}: ${e}`).join('\n'));
+      setLspOutput(errors.map((e, i) => `Error ${i + 1} (line ${e.startLineNumber}): ${e.message}`).join('\n'));
+    }
+
+    // Underline the offending fields in the editor
+    const model = editorRef.current?.getModel();
+    if (model && monacoRef.current) {
+      monacoRef.current.editor.setModelMarkers(model, 'ycard', errors.map(e => ({
+        ...e,
+        severity: monacoRef.current.MarkerSeverity.Error,
+      })));
     }
   };
 
   // Register completion provider for yCard fields using Monaco's onMount
   const handleEditorMount = (editor, monacoInstance) => {
+    editorRef.current = editor;
+    monacoRef.current = monacoInstance;
     monacoInstance.languages.registerCompletionItemProvider('yaml', {
       provideCompletionItems: () => {
         const suggestions = ycardFields.map(field => ({
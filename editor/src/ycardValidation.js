@@ -1,14 +1,62 @@
 // Minimal yCard validation and completion logic for Monaco Editor
 // This is a JS port of your TypeScript parser and completion logic
 
-// Core fields and aliases for completion
-export const ycardFields = [
-  'uid', 'name', 'surname', 'title', 'email', 'org', 'org_unit', 'manager', 'phone', 'address', 'jobs', 'i18n',
-  'id', 'nombre', 'apellido', 'puesto', 'correo', 'jefe', '上司', 'displayName', 'lastName', 'role', 'mail', 'organization', 'company', 'department', 'ou', 'boss', 'tel', 'adr', 'sn'
-];
+import { parseDocument, isMap, isSeq, isScalar, LineCounter } from 'yaml';
+import builtinAliases from '../../src/alias-packs/builtin.json';
+
+const personFields = Object.keys(builtinAliases.fields.person);
+const personAliases = field => (builtinAliases.aliases.person[field] || []).map(alias => typeof alias === 'string' ? alias : alias.key);
+
+// Core fields and aliases for completion, from the built-in alias pack shared with the schema and LSP
+export const ycardFields = [...personFields, ...personFields.flatMap(personAliases)];
+
+// Value of a canonical person field, resolved through its aliases (canonical key first)
+export function resolvePersonField(person, field) {
+  const key = [field, ...personAliases(field)].find(candidate => person[candidate] != null && person[candidate] !== '');
+  return key ? person[key] : undefined;
+}
+
+// Find the YAML node for a path (e.g. ['people', 0, 'uid']), falling back to the nearest ancestor.
+// Returns { node, key } where key is the mapping key node when the path ends at a mapping value.
+function findNode(doc, path) {
+  let current = { node: doc.contents, key: null };
+  for (const segment of path) {
+    const { node } = current;
+    if (isMap(node)) {
+      const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === String(segment));
+      if (!pair) break;
+      current = { node: pair.value || pair.key, key: pair.key };
+    } else if (isSeq(node) && node.items[segment]) {
+      current = { node: node.items[segment], key: null };
+    } else {
+      break;
+    }
+  }
+  return current;
+}
+
+// Resolve a path to a Monaco range (1-based lines and columns)
+function locate(doc, lineCounter, path) {
+  const { node, key } = findNode(doc, path);
+  const startOffset = (key || node)?.range?.[0] ?? 0;
+  let endOffset = node?.range?.[1] ?? startOffset;
+  const start = lineCounter.linePos(startOffset);
+  let end = lineCounter.linePos(endOffset);
+  if (end.line !== start.line) {
+    // Keep multi-line nodes (a whole person) to their first line
+    endOffset = (lineCounter.lineStarts[start.line] ?? endOffset + 1) - 1;
+    end = lineCounter.linePos(endOffset);
+  }
+  return { startLineNumber: start.line, startColumn: start.col, endLineNumber: end.line, endColumn: end.col };
+}
 
 // Simple YAML validation (checks for required fields and structure)
+// Each error is { message, startLineNumber, startColumn, endLineNumber, endColumn } for Monaco markers
 export function validateYCard(yamlText, yamlLib) {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yamlText, { lineCounter, uniqueKeys: false });
+  const error = (message, path) => ({ message, ...locate(doc, lineCounter, path) });
+
   try {
     // Parse YAML
     const data = yamlLib.load(yamlText);
@@ -18,9 +66,10 @@ export function validateYCard(yamlText, yamlLib) {
     if (Array.isArray(data.people)) {
       const errors = [];
       data.people.forEach((person, idx) => {
-        if (!person.uid) errors.push(`Person ${idx + 1}: Missing uid.`);
-        if (!person.name && !person.nombre) errors.push(`Person ${idx + 1}: Missing name (or alias).`);
-        if (!person.surname && !person.apellido && !person.sn) errors.push(`Person ${idx + 1}: Missing surname (or alias).`);
+        const path = ['people', idx];
+        if (!person.uid) errors.push(error(`Person ${idx + 1}: Missing uid.`, path));
+        if (!resolvePersonField(person, 'name')) errors.push(error(`Person ${idx + 1}: Missing name (or alias).`, path));
+        if (!resolvePersonField(person, 'surname')) errors.push(error(`Person ${idx + 1}: Missing surname (or alias).`, path));
       });
       return errors;
     }
@@ -28,15 +77,24 @@ export function validateYCard(yamlText, yamlLib) {
     // If it's a single person object (not array)
     if (typeof data === 'object' && (data.uid || data.name || data.surname)) {
       const errors = [];
-      if (!data.uid) errors.push('Missing uid.');
-      if (!data.name && !data.nombre) errors.push('Missing name (or alias).');
-      if (!data.surname && !data.apellido && !data.sn) errors.push('Missing surname (or alias).');
+      if (!data.uid) errors.push(error('Missing uid.', []));
+      if (!resolvePersonField(data, 'name')) errors.push(error('Missing name (or alias).', []));
+      if (!resolvePersonField(data, 'surname')) errors.push(error('Missing surname (or alias).', []));
       return errors;
     }
 
     // Allow empty or other objects as valid
     return [];
   } catch (e) {
-    return [e.message || 'YAML parsing error.'];
+    // js-yaml marks are 0-based
+    const line = (e.mark?.line ?? 0) + 1;
+    const column = (e.mark?.column ?? 0) + 1;
+    return [{
+      message: e.reason || e.message || 'YAML parsing error.',
+      startLineNumber: line,
+      startColumn: column,
+      endLineNumber: line,
+      endColumn: column + 1,
+    }];
   }
 }
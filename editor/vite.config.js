@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // The built-in alias pack is shared with the TypeScript schema in ../src/alias-packs
+    fs: { allow: ['..'] },
+  },
 })
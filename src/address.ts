@@ -0,0 +1,151 @@
+import { countryCodeFor, countryName, isCountryCode } from './countries';
+
+export const ADDRESS_TYPES = ['work', 'home', 'mailing'] as const;
+export type AddressType = typeof ADDRESS_TYPES[number];
+
+export interface Address {
+  type: AddressType;
+  street?: string; // May span several lines
+  city?: string;
+  state?: string; // State, province or prefecture
+  postal_code?: string;
+  country?: string; // ISO 3166-1 alpha-2
+}
+
+// Postal code pattern and an example for countries with a fixed format (others are not checked)
+const POSTAL_CODES: Record<string, [RegExp, string]> = {
+  AR: [/^[A-Z]?\d{4}([A-Z]{3})?$/, 'C1070AAM'],
+  AT: [/^\d{4}$/, '1010'],
+  AU: [/^\d{4}$/, '2060'],
+  BE: [/^\d{4}$/, '1000'],
+  BR: [/^\d{5}-?\d{3}$/, '40301-110'],
+  CA: [/^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/, 'H3Z 2Y7'],
+  CH: [/^\d{4}$/, '8001'],
+  CL: [/^\d{7}$/, '8340457'],
+  CN: [/^\d{6}$/, '100000'],
+  CO: [/^\d{6}$/, '111221'],
+  CZ: [/^\d{3} ?\d{2}$/, '110 00'],
+  DE: [/^\d{5}$/, '10115'],
+  DK: [/^\d{4}$/, '1050'],
+  ES: [/^\d{5}$/, '28013'],
+  FI: [/^\d{5}$/, '00100'],
+  FR: [/^\d{2} ?\d{3}$/, '75008'],
+  GB: [/^([A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}|GIR ?0AA)$/, 'SW1A 1AA'],
+  GR: [/^\d{3} ?\d{2}$/, '105 57'],
+  HU: [/^\d{4}$/, '1051'],
+  ID: [/^\d{5}$/, '10110'],
+  IE: [/^([A-Z]\d{2}|D6W) ?[A-Z\d]{4}$/, 'D02 X285'],
+  IL: [/^\d{5}(\d{2})?$/, '9614303'],
+  IN: [/^\d{3} ?\d{3}$/, '110034'],
+  IT: [/^\d{5}$/, '00144'],
+  JP: [/^\d{3}-?\d{4}$/, '100-8994'],
+  KR: [/^\d{5}$/, '03051'],
+  LU: [/^(L-)?\d{4}$/, '4750'],
+  MX: [/^\d{5}$/, '02860'],
+  MY: [/^\d{5}$/, '43000'],
+  NL: [/^\d{4} ?[A-Z]{2}$/, '1012 JS'],
+  NO: [/^\d{4}$/, '0150'],
+  NZ: [/^\d{4}$/, '6001'],
+  PH: [/^\d{4}$/, '1008'],
+  PL: [/^\d{2}-\d{3}$/, '00-950'],
+  PT: [/^\d{4}-\d{3}$/, '1000-001'],
+  RO: [/^\d{6}$/, '060274'],
+  RU: [/^\d{6}$/, '125075'],
+  SA: [/^\d{5}(-\d{4})?$/, '11564'],
+  SE: [/^\d{3} ?\d{2}$/, '114 55'],
+  SG: [/^\d{6}$/, '238880'],
+  TH: [/^\d{5}$/, '10150'],
+  TR: [/^\d{5}$/, '01960'],
+  TW: [/^\d{3}(\d{2,3})?$/, '104'],
+  UA: [/^\d{5}$/, '15432'],
+  US: [/^\d{5}(-\d{4})?$/, '95014'],
+  VN: [/^\d{6}$/, '119415'],
+  ZA: [/^\d{4}$/, '0083'],
+};
+
+/*
+ * Address layout per country: %A street, %C city, %S state/prefecture, %Z postal code, one line
+ * per \n. Countries not listed use DEFAULT_FORMAT.
+ */
+const DEFAULT_FORMAT = '%A\n%C %S %Z';
+const ADDRESS_FORMATS: Record<string, string> = {
+  AR: '%A\n%Z %C\n%S',
+  AU: '%A\n%C %S %Z',
+  BR: '%A\n%C-%S\n%Z',
+  CA: '%A\n%C %S %Z',
+  CN: '%Z\n%S%C\n%A',
+  ES: '%A\n%Z %C %S',
+  GB: '%A\n%C\n%Z',
+  IE: '%A\n%C\n%S\n%Z',
+  IN: '%A\n%C %Z\n%S',
+  IT: '%A\n%Z %C %S',
+  JP: '〒%Z\n%S%C\n%A',
+  KR: '%S %C\n%A\n%Z',
+  MX: '%A\n%Z %C, %S',
+  RU: '%A\n%C\n%S\n%Z',
+  TW: '%Z\n%S%C\n%A',
+  US: '%A\n%C, %S %Z',
+  ...Object.fromEntries(['AT', 'BE', 'CH', 'CZ', 'DE', 'DK', 'FI', 'FR', 'NL', 'NO', 'PL', 'PT', 'SE'].map(code => [code, '%A\n%Z %C'])),
+};
+
+/**
+ * Validate an address: the country must be an ISO 3166-1 alpha-2 code and the postal code must
+ * match the country's format. Returns the address with the country uppercased, and any problems.
+ */
+export function normalizeAddress(address: Address): { address: Address; issues: { field: keyof Address; message: string }[] } {
+  const issues: { field: keyof Address; message: string }[] = [];
+  const country = address.country?.trim().toUpperCase();
+
+  if (country !== undefined && !isCountryCode(country)) {
+    const suggestion = countryCodeFor(address.country!);
+    issues.push({
+      field: 'country',
+      message: `Unknown country '${address.country}' (expected an ISO 3166-1 alpha-2 code${suggestion ? ` such as ${suggestion}` : ''})`,
+    });
+  } else if (country && address.postal_code !== undefined) {
+    const [pattern, example] = POSTAL_CODES[country] ?? [];
+    if (pattern && !pattern.test(address.postal_code.trim().toUpperCase())) {
+      issues.push({
+        field: 'postal_code',
+        message: `Invalid postal code '${address.postal_code}' for ${country} (e.g. ${example})`,
+      });
+    }
+  }
+
+  return { address: country ? { ...address, country } : address, issues };
+}
+
+/**
+ * Format an address as lines in its country's postal layout, e.g. for JP:
+ * 〒100-8994 / 東京都千代田区 / 丸の内2-7-2. The country line (unless `country` is false) is
+ * the country name in `locale`.
+ */
+export function formatAddress(address: Partial<Address>, options: { locale?: string; country?: boolean } = {}): string[] {
+  const { locale = 'en', country: includeCountry = true } = options;
+  const code = address.country?.toUpperCase();
+  const fields: Record<string, string> = {
+    A: address.street ?? '',
+    C: address.city ?? '',
+    S: address.state ?? '',
+    Z: address.postal_code ?? '',
+  };
+
+  const lines = (code && ADDRESS_FORMATS[code] || DEFAULT_FORMAT)
+    .split('\n')
+    .flatMap(line => line.replace(/%([ACSZ])/g, (_, field) => fields[field]).split('\n'))
+    .map(line => line.replace(/\s+/g, ' ').replace(/^[\s,-]+|[\s,-]+$/g, '').replace(/^〒$/, ''))
+    .filter(Boolean);
+
+  if (includeCountry && code) {
+    lines.push(isCountryCode(code) ? countryName(code, locale) : address.country!);
+  }
+  return lines;
+}
+
+/**
+ * Encode formatted address lines as an LDAP PostalAddress (RFC 4517): lines joined by '$',
+ * with '\' and '$' escaped as \5C and \24
+ */
+export function ldapPostalAddress(lines: string[]): string {
+  return lines.map(line => line.replace(/\\/g, '\\5C').replace(/\$/g, '\\24')).join('$');
+}
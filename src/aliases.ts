@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import * as yaml from 'js-yaml';
+import { readFileSync } from 'fs';
+import builtinPack from './alias-packs/builtin.json';
+
+// Record types whose keys can be aliased
+export const ALIAS_SCOPES = ['person', 'job', 'i18n'] as const;
+export type AliasScope = typeof ALIAS_SCOPES[number];
+
+const AliasDefinitionSchema = z.union([
+  z.string(), // Shorthand: just the alias key
+  z.object({
+    key: z.string().min(1),
+    language: z.string().optional(), // ISO 639-1 code of the alias language
+    source: z.string().optional(), // Naming convention the alias comes from (e.g. ldap)
+    description: z.string().optional(),
+  }),
+]);
+
+const FieldDocSchema = z.object({
+  detail: z.string(),
+  documentation: z.string().optional(),
+});
+
+const scopedRecord = <T extends z.ZodTypeAny>(value: T) =>
+  z.object({
+    person: z.record(value).optional(),
+    job: z.record(value).optional(),
+    i18n: z.record(value).optional(),
+  }).strict();
+
+// Alias pack file format (YAML or JSON)
+export const AliasPackSchema = z.object({
+  name: z.string().min(1),
+  language: z.string().optional(), // Default language for aliases in this pack
+  description: z.string().optional(),
+  fields: scopedRecord(FieldDocSchema).optional(), // Canonical field docs (built-in pack only)
+  aliases: scopedRecord(z.array(AliasDefinitionSchema)),
+});
+
+export type AliasDefinition = z.infer<typeof AliasDefinitionSchema>;
+export type AliasPack = z.infer<typeof AliasPackSchema>;
+export type FieldDoc = z.infer<typeof FieldDocSchema>;
+
+// A registered alias, resolved to its canonical field
+export interface AliasEntry {
+  key: string;
+  field: string;
+  scope: AliasScope;
+  pack: string;
+  language?: string;
+  source?: string;
+  description?: string;
+}
+
+/**
+ * Thrown when an alias pack cannot be registered (unknown field, or an alias that
+ * already maps to a different field)
+ */
+export class AliasConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AliasConflictError';
+  }
+}
+
+/**
+ * Registry of canonical fields and their aliases.
+ *
+ * Precedence: when a record holds several keys for the same field, the canonical key wins,
+ * then aliases in registration order (built-in pack first, then packs in the order they were
+ * registered). An alias key maps to exactly one field per scope: registering it again for the
+ * same field is a no-op, registering it for a different field (or shadowing a canonical key)
+ * throws AliasConflictError.
+ */
+export class AliasRegistry {
+  private fieldDocs = new Map<AliasScope, Map<string, FieldDoc>>();
+  private aliasesByField = new Map<string, AliasEntry[]>();
+  private entriesByKey = new Map<string, AliasEntry>();
+  private packs: string[] = [];
+  private locked = false;
+
+  /**
+   * @param basePack - Pack defining the canonical fields (defaults to the built-in pack)
+   */
+  constructor(basePack: AliasPack = BUILTIN_ALIAS_PACK) {
+    for (const scope of ALIAS_SCOPES) {
+      this.fieldDocs.set(scope, new Map(Object.entries(basePack.fields?.[scope] ?? {})));
+    }
+    this.registerPack(basePack);
+  }
+
+  /**
+   * Register every alias in a pack, in file order
+   */
+  registerPack(pack: AliasPack): this {
+    if (this.locked) {
+      throw new AliasConflictError(`Alias registry is locked; create a new registry to add '${pack.name}'`);
+    }
+    for (const scope of ALIAS_SCOPES) {
+      Object.entries(pack.aliases[scope] ?? {}).forEach(([field, definitions]) => {
+        definitions.forEach(definition => this.register(scope, field, definition, pack));
+      });
+    }
+    this.packs.push(pack.name);
+    return this;
+  }
+
+  /**
+   * Prevent further registration (used for registries that schemas were already built from)
+   */
+  lock(): this {
+    this.locked = true;
+    return this;
+  }
+
+  /**
+   * Names of the registered packs, in precedence order
+   */
+  packNames(): string[] {
+    return [...this.packs];
+  }
+
+  /**
+   * Canonical fields of a scope, in definition order
+   */
+  fields(scope: AliasScope): string[] {
+    return [...this.fieldDocs.get(scope)!.keys()];
+  }
+
+  fieldDoc(scope: AliasScope, field: string): FieldDoc | undefined {
+    return this.fieldDocs.get(scope)!.get(field);
+  }
+
+  /**
+   * Aliases of a canonical field, in precedence order
+   */
+  aliasesFor(scope: AliasScope, field: string): AliasEntry[] {
+    return this.aliasesByField.get(scopedKey(scope, field)) ?? [];
+  }
+
+  /**
+   * Every accepted key for a field: the canonical key followed by its aliases
+   */
+  keysFor(scope: AliasScope, field: string): string[] {
+    return [field, ...this.aliasesFor(scope, field).map(alias => alias.key)];
+  }
+
+  /**
+   * Look up an alias key
+   */
+  entry(scope: AliasScope, key: string): AliasEntry | undefined {
+    return this.entriesByKey.get(scopedKey(scope, key));
+  }
+
+  /**
+   * Canonical field for a key, whether the key is canonical or an alias
+   */
+  canonicalFor(scope: AliasScope, key: string): string | undefined {
+    return this.fieldDocs.get(scope)!.has(key) ? key : this.entry(scope, key)?.field;
+  }
+
+  /**
+   * Resolve a raw record to its canonical fields. The first key (in precedence order) holding a
+   * value other than undefined, null or '' wins; fields with no value are omitted.
+   */
+  resolve(scope: AliasScope, record: Record<string, unknown>): Record<string, unknown> {
+    const resolved: Record<string, unknown> = {};
+    for (const field of this.fields(scope)) {
+      const key = this.keysFor(scope, field).find(candidate => hasValue(record[candidate]));
+      if (key !== undefined) resolved[field] = record[key];
+    }
+    return resolved;
+  }
+
+  private register(scope: AliasScope, field: string, definition: AliasDefinition, pack: AliasPack): void {
+    const { key, ...meta } = typeof definition === 'string' ? { key: definition } : definition;
+
+    if (!this.fieldDocs.get(scope)!.has(field)) {
+      throw new AliasConflictError(`Pack '${pack.name}': unknown ${scope} field '${field}' for alias '${key}'`);
+    }
+    if (this.fieldDocs.get(scope)!.has(key)) {
+      throw new AliasConflictError(`Pack '${pack.name}': alias '${key}' shadows the canonical ${scope} field '${key}'`);
+    }
+
+    const existing = this.entry(scope, key);
+    if (existing) {
+      if (existing.field === field) return; // Earlier registration keeps its precedence
+      throw new AliasConflictError(
+        `Pack '${pack.name}': ${scope} alias '${key}' maps to '${field}' but pack '${existing.pack}' maps it to '${existing.field}'`
+      );
+    }
+
+    const entry: AliasEntry = { key, field, scope, pack: pack.name, language: pack.language, ...meta };
+    this.entriesByKey.set(scopedKey(scope, key), entry);
+    this.aliasesByField.set(scopedKey(scope, field), [...this.aliasesFor(scope, field), entry]);
+  }
+}
+
+/**
+ * Scope of the record holding the last key of a document path, e.g.
+ * ['people', 0, 'nombre'] → person, ['people', 0, 'jobs', 1, 'jefe'] → job, ['people', 0, 'i18n', 'puesto'] → i18n
+ */
+export function aliasScopeForPath(path: (string | number)[]): AliasScope | undefined {
+  if (path[0] !== 'people' || typeof path[1] !== 'number') return undefined;
+  if (path.length === 3) return 'person';
+  if (path.length === 4 && path[2] === 'i18n') return 'i18n';
+  if (path.length === 5 && path[2] === 'jobs' && typeof path[3] === 'number') return 'job';
+  return undefined;
+}
+
+/**
+ * Short human-readable description of an alias, e.g. "Spanish alias for name"
+ */
+export function describeAlias(entry: AliasEntry): string {
+  const origin = entry.language
+    ? languageDisplayNames.of(entry.language)
+    : entry.source?.toUpperCase();
+  return `${origin ? `${origin} alias` : 'Alias'} for ${entry.field}`;
+}
+
+/**
+ * Parse and validate an alias pack from YAML or JSON text
+ */
+export function parseAliasPack(content: string): AliasPack {
+  return AliasPackSchema.parse(yaml.load(content));
+}
+
+/**
+ * Read an alias pack file (YAML or JSON)
+ */
+export function loadAliasPackFile(path: string): AliasPack {
+  try {
+    return parseAliasPack(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid alias pack ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Create a registry holding the built-in aliases followed by the given packs
+ */
+export function createAliasRegistry(packs: AliasPack[] = []): AliasRegistry {
+  const registry = new AliasRegistry();
+  packs.forEach(pack => registry.registerPack(pack));
+  return registry;
+}
+
+export const BUILTIN_ALIAS_PACK: AliasPack = AliasPackSchema.parse(builtinPack);
+
+// Registry used by the default schemas; locked because YCardSchema is built from it at load time
+export const defaultAliasRegistry = createAliasRegistry().lock();
+
+const languageDisplayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * Whether a key counts as holding a value during alias resolution (not undefined, null or '')
+ */
+export function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+function scopedKey(scope: AliasScope, key: string): string {
+  return `${scope}:${key}`;
+}
@@ -0,0 +1,79 @@
+import { defaultAliasRegistry, hasValue, type AliasRegistry, type AliasScope } from './aliases';
+import type { YCardIssue } from './issues';
+import type { YCardPath } from './source-map';
+import { isRecord } from './utils';
+
+// strict: conflicts fail validation; lenient: conflicts are warnings; off: no analysis
+export type AliasConflictMode = 'strict' | 'lenient' | 'off';
+
+export interface AliasConflictIssue extends YCardIssue {
+  code: 'alias-conflict';
+  field: string;
+  // Every key holding a value for the field, in precedence order (the first one wins)
+  values: { key: string; value: unknown }[];
+}
+
+/**
+ * List every field where two or more keys (canonical or alias) hold different values,
+ * e.g. `manager: alice` next to `jefe: bob`. Works on raw (not yet normalized) yCard data.
+ * Each issue points at the key that wins under the registry's precedence rule.
+ */
+export function findAliasConflicts(
+  input: unknown,
+  mode: Exclude<AliasConflictMode, 'off'> = 'lenient',
+  registry: AliasRegistry = defaultAliasRegistry
+): AliasConflictIssue[] {
+  const issues: AliasConflictIssue[] = [];
+  const people = isRecord(input) && Array.isArray(input.people) ? input.people : [];
+
+  const check = (scope: AliasScope, record: Record<string, unknown>, path: YCardPath, language?: string) => {
+    for (const field of registry.fields(scope)) {
+      const values = registry.keysFor(scope, field)
+        .map(key => ({ key, value: language ? (record[key] as Record<string, unknown> | undefined)?.[language] : record[key] }))
+        .filter(({ value }) => hasValue(value));
+      if (new Set(values.map(({ value }) => comparable(value))).size < 2) continue;
+
+      const described = values.map(({ key, value }) => `${key} = ${JSON.stringify(value)}`).join(', ');
+      issues.push({
+        code: 'alias-conflict',
+        message: `Conflicting values for '${field}'${language ? ` (${language})` : ''}: ${described} (using ${values[0].key})`,
+        path: language ? [...path, values[0].key, language] : [...path, values[0].key],
+        severity: mode === 'strict' ? 'error' : 'warning',
+        field,
+        values,
+      });
+    }
+  };
+
+  people.forEach((person: unknown, index: number) => {
+    if (!isRecord(person)) return;
+    check('person', person, ['people', index]);
+
+    if (Array.isArray(person.jobs)) {
+      person.jobs.forEach((job: unknown, jobIndex: number) => {
+        if (isRecord(job)) check('job', job, ['people', index, 'jobs', jobIndex]);
+      });
+    }
+
+    // i18n values are compared per language: `title: {en: X}` and `puesto: {es: Y}` do not conflict
+    if (isRecord(person.i18n)) {
+      const i18n = person.i18n;
+      const languages = new Set(Object.values(i18n).filter(isRecord).flatMap(value => Object.keys(value)));
+      languages.forEach(language => check('i18n', i18n, ['people', index, 'i18n'], language));
+    }
+  });
+
+  return issues;
+}
+
+// Stable representation for equality: sorted object keys, single-item lists equal their item
+function comparable(value: unknown): string {
+  const normalize = (item: unknown): unknown => {
+    if (Array.isArray(item)) return item.length === 1 ? normalize(item[0]) : item.map(normalize);
+    if (isRecord(item)) {
+      return Object.fromEntries(Object.keys(item).sort().map(key => [key, normalize(item[key])]));
+    }
+    return item;
+  };
+  return JSON.stringify(normalize(value));
+}
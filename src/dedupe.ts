@@ -0,0 +1,302 @@
+import type { YCard, Person, Email, Phone, Address, I18n } from './ycard-schema';
+import { asciiEmailAddress } from './email';
+import { transliterate } from './transliterate';
+import { displayName } from './utils';
+
+export type DuplicateEvidence = 'uid' | 'email' | 'phone' | 'name' | 'handle' | 'manager';
+
+// One piece of evidence for (or, with a negative weight, against) a pair being the same person
+export interface DuplicateReason {
+  kind: DuplicateEvidence;
+  weight: number;
+  message: string;
+}
+
+export interface DuplicateCandidate {
+  uids: [string, string];
+  indexes: [number, number]; // Positions in people (uids can be identical)
+  score: number; // Sum of the reason weights, capped at 1
+  reasons: DuplicateReason[];
+}
+
+export interface DedupeOptions {
+  threshold?: number; // Lowest score to report (default 0.5)
+}
+
+// A confirmed duplicate: `drop` is merged into `keep`
+export interface DuplicatePair {
+  keep: string;
+  drop: string;
+}
+
+/**
+ * Thrown when a pair to merge names a person who is not in the document
+ */
+export class DedupeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DedupeError';
+  }
+}
+
+// Evidence weights. A shared email alone is enough; a matching name needs support.
+const WEIGHTS = {
+  uid: 1,
+  email: 0.6,
+  phone: 0.4,
+  name: 0.4, // Scaled by similarity
+  handle: 0.2,
+  manager: 0.1,
+};
+
+// Lowest Jaro-Winkler similarity for names to count as evidence
+const NAME_SIMILARITY = 0.88;
+
+/**
+ * Score every pair of people for being the same human, from:
+ * - the same uid, or a uid that looks like the other's name (alice / asmith for Alice Smith)
+ * - shared email addresses (compared case-insensitively) and phone numbers (E.164)
+ * - similar names across spellings and translations, with kana, Cyrillic and Greek romanized
+ * - the same manager (a different one counts against)
+ *
+ * Candidates are ranked by score, highest first.
+ */
+export function findDuplicates(card: YCard, options: DedupeOptions = {}): DuplicateCandidate[] {
+  const { threshold = 0.5 } = options;
+  const profiles = card.people.map(profile);
+  const candidates: DuplicateCandidate[] = [];
+
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const reasons = compare(profiles[i], profiles[j]);
+      if (!reasons.some(reason => reason.kind !== 'manager')) continue;
+      const score = Math.min(1, Math.round(reasons.reduce((sum, reason) => sum + reason.weight, 0) * 100) / 100);
+      if (score < threshold) continue;
+      candidates.push({ uids: [profiles[i].person.uid, profiles[j].person.uid], indexes: [i, j], score, reasons });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score || a.indexes[0] - b.indexes[0] || a.indexes[1] - b.indexes[1]);
+}
+
+/**
+ * Merge confirmed duplicates. The kept record wins for single-valued fields and gains what only
+ * the dropped one has; emails, phones and addresses are combined and translations merged per
+ * language. References to the dropped uid (managers, dotted lines, unit heads) move to the kept
+ * one. A pair with the same uid twice merges later records with that uid into the first.
+ */
+export function mergeDuplicates(card: YCard, pairs: DuplicatePair[]): YCard {
+  let people = [...card.people];
+  const renamed = new Map<string, string>();
+  const resolve = (uid: string) => {
+    while (renamed.has(uid)) uid = renamed.get(uid)!;
+    return uid;
+  };
+
+  for (const pair of pairs) {
+    const keep = resolve(pair.keep);
+    const drop = resolve(pair.drop);
+    const keepIndex = people.findIndex(person => person.uid === keep);
+    const dropIndex = keep === drop
+      ? people.findIndex((person, index) => index > keepIndex && person.uid === drop)
+      : people.findIndex(person => person.uid === drop);
+    if (keepIndex === -1) throw new DedupeError(`Unknown person '${pair.keep}'`);
+    if (dropIndex === -1) {
+      throw new DedupeError(keep === drop ? `'${pair.keep}' is not duplicated` : `Unknown person '${pair.drop}'`);
+    }
+
+    people[keepIndex] = mergePerson(people[keepIndex], people[dropIndex]);
+    people = people.filter((_, index) => index !== dropIndex);
+    if (keep !== drop) renamed.set(drop, keep);
+  }
+
+  const ref = (uid: string | undefined) => uid === undefined ? undefined : resolve(uid);
+  const result: YCard = {
+    ...card,
+    people: people.map(person => withoutUndefined({
+      ...person,
+      manager: person.manager !== undefined && ref(person.manager) !== person.uid ? ref(person.manager) : undefined,
+      jobs: person.jobs?.map(job => withoutUndefined({
+        ...job,
+        manager: ref(job.manager),
+        dotted: [...new Set(job.dotted.map(resolve))].filter(uid => uid !== person.uid),
+      })),
+    })),
+  };
+  if (card.units) {
+    result.units = card.units.map(unit => withoutUndefined({ ...unit, head: ref(unit.head) }));
+  }
+  return result;
+}
+
+// Comparable forms of a person, computed once
+interface Profile {
+  person: Person;
+  emails: Set<string>;
+  phones: Set<string>;
+  names: string[]; // Transliterated names with their words sorted
+  handles: Set<string>; // Plausible uids for the names, e.g. asmith, alicesmith
+  handle: string; // The uid in the same form
+}
+
+function profile(person: Person): Profile {
+  const spellings = [
+    [person.name, person.surname],
+    ...languages(person.i18n).map(language => [person.i18n?.name?.[language], person.i18n?.surname?.[language]]),
+    ...Object.values(person.i18n?.displayName ?? {}).map(name => [name]),
+  ];
+  const names = spellings
+    .map(parts => words(parts.filter((part): part is string => !!part).join(' ')))
+    .filter(parts => parts.length > 0);
+
+  const handles = new Set<string>();
+  for (const parts of names) {
+    const [first, last] = [parts[0], parts[parts.length - 1]];
+    handles.add(first);
+    if (parts.length > 1) {
+      [`${first}${last}`, `${first[0]}${last}`, `${first}${last[0]}`, `${last}${first}`, `${last}${first[0]}`].forEach(handle => handles.add(handle));
+    }
+  }
+
+  return {
+    person,
+    emails: new Set((person.email ?? []).map(email => asciiEmailAddress(email.address).toLowerCase())),
+    phones: new Set((person.phone ?? []).map(phone => phone.ext ? `${phone.number};ext=${phone.ext}` : phone.number)),
+    names: [...new Set(names.map(parts => [...new Set(parts)].sort().join(' ')))],
+    handles,
+    handle: transliterate(person.uid).replace(/[^\p{L}]+/gu, ''),
+  };
+}
+
+function compare(a: Profile, b: Profile): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  const [uidA, uidB] = [a.person.uid, b.person.uid];
+
+  if (uidA === uidB) {
+    reasons.push({ kind: 'uid', weight: WEIGHTS.uid, message: `same uid '${uidA}'` });
+  }
+  const email = [...a.emails].find(address => b.emails.has(address));
+  if (email) {
+    reasons.push({ kind: 'email', weight: WEIGHTS.email, message: `same email ${email}` });
+  }
+  const phone = [...a.phones].find(number => b.phones.has(number));
+  if (phone) {
+    reasons.push({ kind: 'phone', weight: WEIGHTS.phone, message: `same phone ${phone}` });
+  }
+
+  const similarity = Math.max(0, ...a.names.flatMap(nameA => b.names.map(nameB => nameSimilarity(nameA, nameB))));
+  if (similarity >= NAME_SIMILARITY) {
+    reasons.push({
+      kind: 'name',
+      weight: Math.round(WEIGHTS.name * similarity * 100) / 100,
+      message: similarity === 1 ? `same name (${displayName(a.person)} / ${displayName(b.person)})` : `similar names (${displayName(a.person)} / ${displayName(b.person)})`,
+    });
+  }
+
+  if (uidA !== uidB) {
+    if (b.handles.has(a.handle)) {
+      reasons.push({ kind: 'handle', weight: WEIGHTS.handle, message: `uid '${uidA}' matches the name ${displayName(b.person)}` });
+    } else if (a.handles.has(b.handle)) {
+      reasons.push({ kind: 'handle', weight: WEIGHTS.handle, message: `uid '${uidB}' matches the name ${displayName(a.person)}` });
+    }
+  }
+
+  const [managerA, managerB] = [a.person.manager, b.person.manager];
+  if (managerA && managerB) {
+    reasons.push(managerA === managerB
+      ? { kind: 'manager', weight: WEIGHTS.manager, message: `same manager '${managerA}'` }
+      : { kind: 'manager', weight: -WEIGHTS.manager, message: `different managers ('${managerA}' / '${managerB}')` });
+  }
+  return reasons;
+}
+
+function mergePerson(keep: Person, drop: Person): Person {
+  const merged: Person = { ...drop, ...withoutUndefined(keep) };
+  const emails = unionBy<Email>(keep.email, drop.email, email => asciiEmailAddress(email.address).toLowerCase());
+  const phones = unionBy<Phone>(keep.phone, drop.phone, phone => `${phone.number};${phone.ext ?? ''}`);
+  const addresses = unionBy<Address>(keep.address, drop.address, address => JSON.stringify(address));
+
+  if (emails) {
+    // The kept record's preferred address stays the only preferred one
+    const preferred = emails.findIndex(email => email.pref);
+    merged.email = emails.map((email, index) => ({ ...email, pref: index === (preferred === -1 ? 0 : preferred) }));
+  }
+  if (phones) merged.phone = phones;
+  if (addresses) merged.address = addresses;
+  if (!keep.jobs?.length && drop.jobs?.length) merged.jobs = drop.jobs;
+
+  if (keep.i18n || drop.i18n) {
+    const i18n: I18n = {};
+    const fields = new Set([...Object.keys(drop.i18n ?? {}), ...Object.keys(keep.i18n ?? {})]) as Set<keyof I18n>;
+    fields.forEach(field => {
+      i18n[field] = { ...drop.i18n?.[field], ...keep.i18n?.[field] };
+    });
+    merged.i18n = i18n;
+  }
+  return merged;
+}
+
+function unionBy<T>(first: T[] | undefined, second: T[] | undefined, key: (entry: T) => string): T[] | undefined {
+  if (!first && !second) return undefined;
+  const seen = new Set<string>();
+  return [...(first ?? []), ...(second ?? [])].filter(entry => {
+    const value = key(entry);
+    if (seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+function withoutUndefined<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T;
+}
+
+function languages(i18n: I18n | undefined): string[] {
+  return [...new Set([...Object.keys(i18n?.name ?? {}), ...Object.keys(i18n?.surname ?? {})])];
+}
+
+function words(name: string): string[] {
+  return transliterate(name).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// Best of whole-name and word-by-word similarity (names are sorted words), so a spelling
+// difference in each word (Alice Smith / Alisa Smit) still counts
+function nameSimilarity(a: string, b: string): number {
+  const [wordsA, wordsB] = [a.split(' '), b.split(' ')];
+  const whole = jaroWinkler(a, b);
+  if (wordsA.length !== wordsB.length || wordsA.length === 1) return whole;
+  const byWord = wordsA.reduce((sum, word, index) => sum + jaroWinkler(word, wordsB[index]), 0) / wordsA.length;
+  return Math.max(whole, byWord);
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue;
+      matchedA[i] = matchedB[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
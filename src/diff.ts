@@ -0,0 +1,226 @@
+import type { YCard, Person, Job, I18n } from './ycard-schema';
+import { formatFte } from './fte';
+import { displayName } from './utils';
+
+export type YCardChangeKind =
+  | 'hire'
+  | 'departure'
+  | 'rename'
+  | 'title'
+  | 'manager'
+  | 'transfer' // org or org_unit
+  | 'job-added'
+  | 'job-removed'
+  | 'job-changed' // primary flag or dotted lines
+  | 'fte'
+  | 'i18n';
+
+// One change to a person, matched by uid
+export interface YCardChange {
+  kind: YCardChangeKind;
+  uid: string;
+  field?: string; // Canonical field path, e.g. manager, jobs[Dev].fte or i18n.title.ja
+  before?: unknown;
+  after?: unknown;
+  message: string;
+}
+
+export type DiffFormat = 'text' | 'markdown' | 'json';
+
+// Headings for each kind, in report order
+const CHANGE_HEADINGS: Record<YCardChangeKind, string> = {
+  hire: 'Hires',
+  departure: 'Departures',
+  rename: 'Renames',
+  title: 'Title changes',
+  manager: 'Manager changes',
+  transfer: 'Transfers',
+  'job-added': 'New jobs',
+  'job-removed': 'Ended jobs',
+  'job-changed': 'Job changes',
+  fte: 'FTE changes',
+  i18n: 'Translations',
+};
+
+/**
+ * Compare two parsed documents (aliases already resolved) person by person. People are matched by
+ * uid and jobs by role (then by position for jobs without one). Changes come in document order:
+ * people of `after` first, then departures.
+ */
+export function diffYCard(before: YCard, after: YCard): YCardChange[] {
+  const changes: YCardChange[] = [];
+  const previous = new Map(before.people.map(person => [person.uid, person]));
+  const current = new Set(after.people.map(person => person.uid));
+  const names = new Map([...before.people, ...after.people].map(person => [person.uid, displayName(person)]));
+  const who = (uid: string) => names.get(uid) ?? uid;
+
+  for (const person of after.people) {
+    const old = previous.get(person.uid);
+    if (!old) {
+      changes.push({
+        kind: 'hire',
+        uid: person.uid,
+        after: displayName(person),
+        message: `Hired ${describe(person, who)}`,
+      });
+      continue;
+    }
+    changes.push(...diffPerson(old, person, who));
+  }
+
+  for (const person of before.people) {
+    if (!current.has(person.uid)) {
+      changes.push({ kind: 'departure', uid: person.uid, before: displayName(person), message: `${describe(person, who)} left` });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Render changes as plain text (one line per change), Markdown (a section per kind) or JSON
+ */
+export function formatYCardDiff(changes: YCardChange[], format: DiffFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify({ changes }, null, 2) + '\n';
+  }
+  if (changes.length === 0) {
+    return format === 'markdown' ? '_No organizational changes._\n' : 'No organizational changes\n';
+  }
+  if (format === 'text') {
+    const width = Math.max(...changes.map(change => change.kind.length));
+    return changes.map(change => `${change.kind.padEnd(width)}  ${change.uid}: ${change.message}`).join('\n') + '\n';
+  }
+
+  const sections = (Object.keys(CHANGE_HEADINGS) as YCardChangeKind[])
+    .map(kind => ({ kind, entries: changes.filter(change => change.kind === kind) }))
+    .filter(section => section.entries.length > 0)
+    .map(({ kind, entries }) => [
+      `## ${CHANGE_HEADINGS[kind]} (${entries.length})`,
+      '',
+      ...entries.map(change => `- **${escapeMarkdown(change.uid)}**: ${escapeMarkdown(change.message)}`),
+    ].join('\n'));
+  return ['# Org changes', '', sections.join('\n\n')].join('\n') + '\n';
+}
+
+function diffPerson(old: Person, person: Person, who: (uid: string) => string): YCardChange[] {
+  const changes: YCardChange[] = [];
+  const uid = person.uid;
+  const change = (kind: YCardChangeKind, field: string, before: unknown, after: unknown, message: string) => {
+    changes.push({ kind, uid, field, ...(before !== undefined && { before }), ...(after !== undefined && { after }), message });
+  };
+
+  if (displayName(old) !== displayName(person)) {
+    change('rename', 'name', displayName(old), displayName(person), `Renamed from ${displayName(old)} to ${displayName(person)}`);
+  }
+  if (old.title !== person.title) {
+    change('title', 'title', old.title, person.title, `Title ${fromTo(old.title, person.title)}`);
+  }
+  if (old.manager !== person.manager) {
+    change('manager', 'manager', old.manager, person.manager,
+      `Manager ${fromTo(old.manager && who(old.manager), person.manager && who(person.manager))}`);
+  }
+  for (const field of ['org', 'org_unit'] as const) {
+    if (old[field] !== person[field]) {
+      change('transfer', field, old[field], person[field], `${field === 'org' ? 'Organization' : 'Org unit'} ${fromTo(old[field], person[field])}`);
+    }
+  }
+
+  changes.push(...diffJobs(old.jobs ?? [], person.jobs ?? [], uid, who));
+  changes.push(...diffI18n(old.i18n ?? {}, person.i18n ?? {}, uid));
+  return changes;
+}
+
+function diffJobs(oldJobs: Job[], jobs: Job[], uid: string, who: (uid: string) => string): YCardChange[] {
+  const changes: YCardChange[] = [];
+  const label = (job: Job, index: number) => job.role ?? `#${index}`;
+
+  // Match by role first, then remaining jobs by position
+  const unmatched = new Set(oldJobs.map((_, index) => index));
+  const pairs: [Job | undefined, Job | undefined, string][] = jobs.map((job, index) => {
+    const match = oldJobs.findIndex((candidate, oldIndex) => unmatched.has(oldIndex) && job.role !== undefined && candidate.role === job.role);
+    const oldIndex = match !== -1 ? match : (!job.role && unmatched.has(index) && !oldJobs[index]?.role ? index : -1);
+    if (oldIndex === -1) return [undefined, job, label(job, index)];
+    unmatched.delete(oldIndex);
+    return [oldJobs[oldIndex], job, label(job, index)];
+  });
+  unmatched.forEach(index => pairs.push([oldJobs[index], undefined, label(oldJobs[index], index)]));
+
+  for (const [old, job, role] of pairs) {
+    const field = `jobs[${role}]`;
+    if (!old) {
+      changes.push({ kind: 'job-added', uid, field, after: job, message: `Started ${role} (${formatFte(job!.fte)} FTE)` });
+      continue;
+    }
+    if (!job) {
+      changes.push({ kind: 'job-removed', uid, field, before: old, message: `Ended ${role} (${formatFte(old.fte)} FTE)` });
+      continue;
+    }
+    if (old.fte !== job.fte) {
+      changes.push({ kind: 'fte', uid, field: `${field}.fte`, before: old.fte, after: job.fte, message: `${role} FTE ${formatFte(old.fte)} → ${formatFte(job.fte)}` });
+    }
+    if (old.manager !== job.manager) {
+      changes.push({
+        kind: 'manager', uid, field: `${field}.manager`, before: old.manager, after: job.manager,
+        message: `${role} manager ${fromTo(old.manager && who(old.manager), job.manager && who(job.manager))}`,
+      });
+    }
+    for (const key of ['org', 'org_unit'] as const) {
+      if (old[key] !== job[key]) {
+        changes.push({ kind: 'transfer', uid, field: `${field}.${key}`, before: old[key], after: job[key], message: `${role} ${key === 'org' ? 'organization' : 'org unit'} ${fromTo(old[key], job[key])}` });
+      }
+    }
+    if (old.primary !== job.primary) {
+      changes.push({ kind: 'job-changed', uid, field: `${field}.primary`, before: old.primary, after: job.primary, message: `${role} is ${job.primary ? 'now' : 'no longer'} the primary job` });
+    }
+    const added = job.dotted.filter(manager => !old.dotted.includes(manager));
+    const removed = old.dotted.filter(manager => !job.dotted.includes(manager));
+    if (added.length > 0 || removed.length > 0) {
+      const parts = [
+        ...added.map(manager => `+${who(manager)}`),
+        ...removed.map(manager => `-${who(manager)}`),
+      ];
+      changes.push({ kind: 'job-changed', uid, field: `${field}.dotted`, before: old.dotted, after: job.dotted, message: `${role} dotted lines ${parts.join(', ')}` });
+    }
+  }
+  return changes;
+}
+
+function diffI18n(old: I18n, i18n: I18n, uid: string): YCardChange[] {
+  const changes: YCardChange[] = [];
+  const fields = [...new Set([...Object.keys(old), ...Object.keys(i18n)])] as (keyof I18n)[];
+  for (const field of fields) {
+    const before = old[field] ?? {};
+    const after = i18n[field] ?? {};
+    for (const language of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (before[language] === after[language]) continue;
+      changes.push({
+        kind: 'i18n',
+        uid,
+        field: `i18n.${field}.${language}`,
+        ...(before[language] !== undefined && { before: before[language] }),
+        ...(after[language] !== undefined && { after: after[language] }),
+        message: `${field} (${language}) ${fromTo(before[language], after[language])}`,
+      });
+    }
+  }
+  return changes;
+}
+
+// "Alice Smith (Engineer, reports to Bob)"
+function describe(person: Person, who: (uid: string) => string): string {
+  const details = [
+    person.title ?? person.jobs?.find(job => job.primary)?.role ?? person.jobs?.[0]?.role,
+    person.manager && `reports to ${who(person.manager)}`,
+  ].filter(Boolean);
+  return details.length > 0 ? `${displayName(person)} (${details.join(', ')})` : displayName(person);
+}
+
+function fromTo(before: string | undefined | null, after: string | undefined | null): string {
+  if (!before) return `set to ${after}`;
+  if (!after) return `removed (was ${before})`;
+  return `${before} → ${after}`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+}
@@ -0,0 +1,108 @@
+import { domainToASCII } from 'url';
+
+export const EMAIL_TYPES = ['work', 'home'] as const;
+export type EmailType = typeof EMAIL_TYPES[number];
+
+// A validated, normalized email address
+export interface Email {
+  address: string; // Local part as written, domain lowercased (IDN domains stay in Unicode)
+  type?: EmailType;
+  pref: boolean; // Exactly one address per person is preferred
+}
+
+// Raw email entry: a bare address or an object with type/pref
+export type EmailInput = string | { address: string; type?: EmailType; pref?: boolean };
+
+// RFC 5322 local part: dot-atom (RFC 6532 allows UTF-8 in atext) or quoted string
+const DOT_ATOM = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u0080-\uFFFF-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u0080-\uFFFF-]+)*$/;
+const QUOTED_STRING = /^"([^"\\\r\n]|\\.)*"$/;
+const DOMAIN_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+const DOMAIN_LITERAL = /^\[(\d{1,3}(\.\d{1,3}){3}|IPv6:[0-9A-Fa-f:.]+)\]$/;
+
+/**
+ * Validate an address and normalize its domain. Returns an error message for invalid addresses.
+ */
+export function normalizeEmailAddress(input: string): { address: string } | { message: string } {
+  const text = input.trim();
+  const at = text.lastIndexOf('@');
+  if (at <= 0 || at === text.length - 1) {
+    return { message: `Invalid email address '${input}': expected local-part@domain` };
+  }
+
+  const local = text.slice(0, at);
+  const domain = text.slice(at + 1);
+  if (local.length > 64 || (!DOT_ATOM.test(local) && !QUOTED_STRING.test(local))) {
+    return { message: `Invalid email address '${input}': invalid local part '${local}'` };
+  }
+  if (DOMAIN_LITERAL.test(domain)) {
+    return { address: `${local}@${domain}` };
+  }
+
+  const ascii = asciiDomain(domain);
+  if (!ascii) {
+    return { message: `Invalid email address '${input}': invalid domain '${domain}'` };
+  }
+  const address = `${local}@${domain.normalize('NFC').toLowerCase()}`;
+  if (local.length + 1 + ascii.length > 254) {
+    return { message: `Invalid email address '${input}': longer than 254 characters` };
+  }
+  return { address };
+}
+
+/**
+ * Address with its domain in ASCII (punycode), for systems that do not accept IDNs (e.g. LDAP mail)
+ */
+export function asciiEmailAddress(address: string): string {
+  const at = address.lastIndexOf('@');
+  return `${address.slice(0, at)}@${asciiDomain(address.slice(at + 1)) || address.slice(at + 1)}`;
+}
+
+/**
+ * Normalize a person's email entries: validate and lowercase domains, merge duplicates (keeping
+ * the first entry's position), and mark exactly one address as preferred (the one marked
+ * `pref`, otherwise the first). Problems are reported with the index of the offending entry.
+ */
+export function normalizeEmails(entries: EmailInput[]): { emails: Email[]; issues: { index: number; message: string }[] } {
+  const emails: Email[] = [];
+  const issues: { index: number; message: string }[] = [];
+  const byAddress = new Map<string, Email>();
+  let preferred: { index: number; address: string } | undefined;
+
+  entries.forEach((entry, index) => {
+    const { address: raw, type, pref } = typeof entry === 'string' ? { address: entry, type: undefined, pref: undefined } : entry;
+    const result = normalizeEmailAddress(raw);
+    if ('message' in result) {
+      issues.push({ index, message: result.message });
+      return;
+    }
+
+    if (pref) {
+      if (preferred && preferred.address !== result.address) {
+        issues.push({ index, message: `Only one email can be preferred (entry ${preferred.index} already is)` });
+      }
+      preferred ??= { index, address: result.address };
+    }
+
+    const existing = byAddress.get(result.address);
+    if (existing) {
+      existing.type ??= type;
+      existing.pref ||= !!pref;
+      return;
+    }
+    const email: Email = { address: result.address, ...(type && { type }), pref: !!pref };
+    byAddress.set(result.address, email);
+    emails.push(email);
+  });
+
+  if (emails.length > 0 && !emails.some(email => email.pref)) {
+    emails[0].pref = true;
+  }
+  return { emails, issues };
+}
+
+function asciiDomain(domain: string): string {
+  const ascii = domainToASCII(domain);
+  const labels = ascii.split('.');
+  const valid = labels.length >= 2 && labels.every(label => DOMAIN_LABEL.test(label)) && !/^\d+$/.test(labels[labels.length - 1]);
+  return valid ? ascii : '';
+}
@@ -0,0 +1,232 @@
+import { parseDocument, isMap, isSeq, isScalar, isNode, Scalar, YAMLMap, YAMLSeq, type Document, type Node } from 'yaml';
+import { aliasScopeForPath, defaultAliasRegistry, type AliasRegistry, type AliasScope } from './aliases';
+import { deepEqual, isRecord } from './utils';
+
+export interface FormatOptions {
+  // Alias registry used to recognize alias keys (defaults to the built-in aliases)
+  registry?: AliasRegistry;
+  // canonical: rewrite alias keys to canonical field names; preserve: leave keys as written
+  aliases?: 'canonical' | 'preserve';
+  // Rewrite keys to this language's aliases where one exists (canonical otherwise), e.g. 'es'
+  locale?: string;
+  // Spaces per indentation level (defaults to 2)
+  indent?: number;
+}
+
+/**
+ * Thrown when the input is not well-formed YAML (formatting never rewrites a broken document)
+ */
+export class YCardFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'YCardFormatError';
+  }
+}
+
+/**
+ * Format yCard YAML on the document tree, keeping comments and key order:
+ * - alias keys are renamed to canonical keys (or to the aliases of `locale`)
+ * - indentation is normalized and quotes are dropped wherever a plain scalar reads the same
+ *
+ * A key is only renamed when its target is not already present in the same record, so
+ * conflicting values are never lost (see findAliasConflicts).
+ */
+export function formatYCard(content: string, options: FormatOptions = {}): string {
+  const { registry = defaultAliasRegistry, aliases = 'canonical', locale, indent = 2 } = options;
+  const doc = parseDocument(content, { uniqueKeys: false });
+  if (doc.errors.length > 0) {
+    throw new YCardFormatError(doc.errors.map(error => error.message).join('\n'));
+  }
+
+  if (aliases === 'canonical') {
+    const rename = (scope: AliasScope, record: YAMLMap) => renameKeys(scope, record, registry, locale);
+    const people = isMap(doc.contents) ? doc.contents.get('people') : undefined;
+
+    if (isSeq(people)) {
+      for (const person of people.items) {
+        if (!isMap(person)) continue;
+        rename('person', person);
+
+        const jobs = fieldNode(registry, 'person', person, 'jobs');
+        if (isSeq(jobs)) jobs.items.forEach(job => isMap(job) && rename('job', job));
+
+        const i18n = fieldNode(registry, 'person', person, 'i18n');
+        if (isMap(i18n)) rename('i18n', i18n);
+      }
+    }
+  }
+
+  normalizeQuoting(doc.contents);
+  return doc.toString({ indent, indentSeq: true, lineWidth: 0, flowCollectionPadding: false });
+}
+
+// Options for updateYCard
+export interface UpdateOptions extends Pick<FormatOptions, 'registry' | 'indent'> {
+  // The data the content held (e.g. as parsed): values equal to it are left as written, along
+  // with keys it does not know about
+  previous?: unknown;
+}
+
+/**
+ * Rewrite yCard YAML to hold `data` on the document tree, so that comments, key order and
+ * formatting are kept wherever the data did not change:
+ * - records are updated key by key; a key written as an alias is matched to its field and kept
+ * - list items with a uid or id are matched by it (so inserted or reordered entries leave the
+ *   others in place), other items by position
+ * - changed scalars keep their comments; added nodes use the default style
+ */
+export function updateYCard(content: string, data: unknown, options: UpdateOptions = {}): string {
+  const { registry = defaultAliasRegistry, indent = 2 } = options;
+  const doc = parseDocument(content, { uniqueKeys: false });
+  if (doc.errors.length > 0) {
+    throw new YCardFormatError(doc.errors.map(error => error.message).join('\n'));
+  }
+
+  const context: UpdateContext = { doc, registry, compare: 'previous' in options };
+  doc.contents = updateNode(context, doc.contents, data, options.previous, []) as typeof doc.contents;
+  return doc.toString({ indent, indentSeq: true, lineWidth: 0, flowCollectionPadding: false });
+}
+
+interface UpdateContext {
+  doc: Document;
+  registry: AliasRegistry;
+  compare: boolean; // Whether previous values are known
+}
+
+// The node for `value`: `node` updated in place where it has the same shape, otherwise a new node
+function updateNode(context: UpdateContext, node: unknown, value: unknown, previous: unknown, path: (string | number)[]): Node {
+  if (context.compare && isNode(node) && deepEqual(value, previous)) {
+    return node;
+  }
+  if (isRecord(value) && isMap(node)) {
+    updateMap(context, node, value, previous, path);
+    return node;
+  }
+  if (Array.isArray(value) && isSeq(node)) {
+    updateSeq(context, node, value, previous, path);
+    return node;
+  }
+  if (isScalar(node) && (value === null || typeof value !== 'object')) {
+    if (node.value === value) return node;
+    if (typeof node.value === typeof value) {
+      node.value = value;
+      return node;
+    }
+  }
+
+  const created = context.doc.createNode(value);
+  if (isNode(node)) {
+    created.commentBefore = node.commentBefore;
+    created.comment = node.comment;
+  }
+  return created;
+}
+
+function updateMap(context: UpdateContext, node: YAMLMap, value: Record<string, unknown>, previous: unknown, path: (string | number)[]): void {
+  const keyOf = (pair: YAMLMap['items'][number]) => isScalar(pair.key) ? String(pair.key.value) : undefined;
+  const field = (key: string) => {
+    const scope = aliasScopeForPath([...path, key]);
+    return (scope && context.registry.canonicalFor(scope, key)) ?? key;
+  };
+  const before = isRecord(previous) ? previous : {};
+
+  // Each key's pair: the same key, otherwise an unclaimed key for the same field (an alias)
+  const claimed = new Set<YAMLMap['items'][number]>();
+  const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+  const pairs = new Map(entries.map(([key]) => {
+    const pair = node.items.find(candidate => keyOf(candidate) === key);
+    if (pair) claimed.add(pair);
+    return [key, pair];
+  }));
+  entries.forEach(([key]) => {
+    if (pairs.get(key)) return;
+    const pair = node.items.find(candidate => !claimed.has(candidate) && keyOf(candidate) !== undefined && field(keyOf(candidate)!) === field(key));
+    if (pair) claimed.add(pair);
+    pairs.set(key, pair);
+  });
+
+  // Keys missing from `value` are removed, unless `previous` shows they were never part of the data
+  const known = new Set(Object.keys(before).map(field));
+  node.items = node.items.filter(pair => claimed.has(pair) || (context.compare && !known.has(field(keyOf(pair) ?? ''))));
+
+  // New keys go before the next key of `value` that the record already has
+  entries.forEach(([key, item], index) => {
+    const pair = pairs.get(key);
+    if (pair) {
+      pair.value = updateNode(context, pair.value, item, before[key], [...path, key]);
+      return;
+    }
+    // Unchanged values the text leaves out (defaults filled in on parse) stay out
+    if (context.compare && deepEqual(item, before[key])) return;
+    const next = entries.slice(index + 1).map(([later]) => pairs.get(later)).find(Boolean);
+    const position = next ? node.items.indexOf(next) : node.items.length;
+    const created = context.doc.createPair(key, item);
+    // A comment heading the record stays at the top
+    if (position === 0 && isNode(next?.key)) {
+      created.key.commentBefore = next.key.commentBefore;
+      delete next.key.commentBefore;
+    }
+    node.items.splice(position, 0, created);
+  });
+}
+
+function updateSeq(context: UpdateContext, node: YAMLSeq, value: unknown[], previous: unknown, path: (string | number)[]): void {
+  const identity = (item: unknown): unknown => {
+    if (isMap(item)) return item.get('uid') ?? item.get('id');
+    return isRecord(item) ? item.uid ?? item.id : undefined;
+  };
+  // The entry matching the item at `index` of `value`: same uid or id, otherwise same position
+  const match = <T>(items: T[], index: number): T | undefined => {
+    const id = identity(value[index]);
+    if (id !== undefined) return items.find(candidate => identity(candidate) === id);
+    return identity(items[index]) === undefined ? items[index] : undefined;
+  };
+  const before = Array.isArray(previous) ? previous : [];
+
+  node.items = value.map((item, index) => updateNode(context, match(node.items, index), item, match(before, index), [...path, index]));
+}
+
+// Value node of a field, whichever of its keys (canonical or alias) the record uses
+function fieldNode(registry: AliasRegistry, scope: AliasScope, record: YAMLMap, field: string): unknown {
+  return record.items.find(pair => isScalar(pair.key) && registry.canonicalFor(scope, String(pair.key.value)) === field)?.value;
+}
+
+// Target key for a field: the locale's alias when one exists, otherwise the canonical key
+function targetKey(registry: AliasRegistry, scope: AliasScope, field: string, locale?: string): string {
+  const localized = locale ? registry.aliasesFor(scope, field).find(alias => alias.language === locale) : undefined;
+  return localized?.key ?? field;
+}
+
+function renameKeys(scope: AliasScope, record: YAMLMap, registry: AliasRegistry, locale?: string): void {
+  const present = new Set(record.items.map(pair => isScalar(pair.key) ? String(pair.key.value) : undefined));
+
+  for (const pair of record.items) {
+    if (!isScalar(pair.key)) continue;
+    const key = String(pair.key.value);
+    const field = registry.canonicalFor(scope, key);
+    if (!field) continue;
+
+    const target = targetKey(registry, scope, field, locale);
+    if (target === key || present.has(target)) continue;
+
+    present.delete(key);
+    present.add(target);
+    pair.key.value = target;
+  }
+}
+
+// Let the stringifier pick the quoting style: plain unless the value needs quotes to stay a string
+function normalizeQuoting(node: unknown): void {
+  if (isScalar(node)) {
+    if (node.type !== Scalar.BLOCK_LITERAL && node.type !== Scalar.BLOCK_FOLDED) {
+      delete node.type;
+    }
+  } else if (isMap(node)) {
+    node.items.forEach(pair => {
+      normalizeQuoting(pair.key);
+      normalizeQuoting(pair.value);
+    });
+  } else if (isSeq(node)) {
+    node.items.forEach(normalizeQuoting);
+  }
+}
@@ -0,0 +1,155 @@
+import type { YCard, Person } from './ycard-schema';
+import type { YCardIssue } from './issues';
+import { findOrg, findUnit, localizedName } from './org-units';
+
+export type FteCode = 'fte-over-allocated' | 'multiple-primary-jobs' | 'no-primary-job';
+
+// Rounding slack when adding FTE fractions such as 0.1 + 0.2
+const FTE_EPSILON = 1e-9;
+
+// One share of a person's effort: a job, or the whole person when they have no jobs
+export interface FteAllocation {
+  uid: string;
+  job?: number; // Index in the person's jobs
+  fte: number;
+  org?: string;
+  org_unit?: string;
+  manager?: string;
+}
+
+export interface FteTotals {
+  headcount: number; // Distinct people with any effort in the group
+  fte: number;
+}
+
+// One group of a report, e.g. an org unit. Effort with no value for the grouping has no `key`.
+export interface FteGroup extends FteTotals {
+  key?: string; // Unit, org or manager id as defined (units and orgs resolve to their id)
+  name: string;
+}
+
+export interface FteReport {
+  total: FteTotals;
+  byUnit: FteGroup[];
+  byOrg: FteGroup[];
+  byManager: FteGroup[];
+}
+
+/**
+ * Split each person's effort into allocations: one per job (job org, org_unit and manager fall
+ * back to the person's), or a single 1.0 allocation for people without jobs
+ */
+export function fteAllocations(card: YCard): FteAllocation[] {
+  return card.people.flatMap(person => {
+    const base = { uid: person.uid, org: person.org, org_unit: person.org_unit, manager: person.manager };
+    if (!person.jobs?.length) {
+      return [{ ...base, fte: 1 }];
+    }
+    return person.jobs.map((job, index) => ({
+      uid: person.uid,
+      job: index,
+      fte: job.fte,
+      org: job.org ?? base.org,
+      org_unit: job.org_unit ?? base.org_unit,
+      manager: job.manager ?? base.manager,
+    }));
+  });
+}
+
+/**
+ * Check each person's jobs: FTE adds up to at most 1.0 and exactly one job is primary (a single
+ * job is primary without the flag; several jobs without one are a warning)
+ */
+export function validateFte(card: YCard): (YCardIssue & { code: FteCode })[] {
+  const issues: (YCardIssue & { code: FteCode })[] = [];
+
+  card.people.forEach((person: Person, index) => {
+    const jobs = person.jobs ?? [];
+    const total = jobs.reduce((sum, job) => sum + job.fte, 0);
+    if (total > 1 + FTE_EPSILON) {
+      issues.push({
+        code: 'fte-over-allocated',
+        message: `'${person.uid}' is allocated ${formatFte(total)} FTE across ${jobs.length} jobs (at most 1.0)`,
+        path: ['people', index, 'jobs'],
+        severity: 'error',
+      });
+    }
+
+    const primary = jobs.flatMap((job, jobIndex) => job.primary ? [jobIndex] : []);
+    if (primary.length > 1) {
+      issues.push({
+        code: 'multiple-primary-jobs',
+        message: `'${person.uid}' has ${primary.length} primary jobs (jobs ${primary.join(', ')}); exactly one can be primary`,
+        path: ['people', index, 'jobs', primary[1], 'primary'],
+        severity: 'error',
+      });
+    } else if (primary.length === 0 && jobs.length > 1) {
+      issues.push({
+        code: 'no-primary-job',
+        message: `'${person.uid}' has ${jobs.length} jobs but none is marked primary`,
+        path: ['people', index, 'jobs'],
+        severity: 'warning',
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Headcount and FTE totals per org unit, org and manager. Groups are sorted by name, with
+ * unassigned effort last.
+ */
+export function fteReport(card: YCard): FteReport {
+  const allocations = fteAllocations(card);
+  const personName = (uid: string) => {
+    const person = card.people.find(candidate => candidate.uid === uid);
+    return [person?.name, person?.surname].filter(Boolean).join(' ') || uid;
+  };
+
+  return {
+    total: totals(allocations),
+    byUnit: group(allocations, allocation => allocation.org_unit, ref => {
+      const unit = findUnit(card, ref);
+      return unit ? { key: unit.id, name: localizedName(unit) } : { key: ref, name: ref };
+    }),
+    byOrg: group(allocations, allocation => allocation.org, ref => {
+      const org = findOrg(card, ref);
+      return org ? { key: org.id, name: localizedName(org) } : { key: ref, name: ref };
+    }),
+    byManager: group(allocations, allocation => allocation.manager, uid => ({ key: uid, name: personName(uid) })),
+  };
+}
+
+/**
+ * FTE with at most two decimals, e.g. 1.5 or 0.33
+ */
+export function formatFte(fte: number): string {
+  return String(Math.round(fte * 100) / 100);
+}
+
+function totals(allocations: FteAllocation[]): FteTotals {
+  return {
+    headcount: new Set(allocations.map(allocation => allocation.uid)).size,
+    fte: Math.round(allocations.reduce((sum, allocation) => sum + allocation.fte, 0) * 1000) / 1000,
+  };
+}
+
+function group(
+  allocations: FteAllocation[],
+  refOf: (allocation: FteAllocation) => string | undefined,
+  resolve: (ref: string) => { key: string; name: string }
+): FteGroup[] {
+  const groups = new Map<string | undefined, { name: string; allocations: FteAllocation[] }>();
+  for (const allocation of allocations) {
+    const ref = refOf(allocation);
+    const { key, name } = ref ? resolve(ref) : { key: undefined, name: '(unassigned)' };
+    const entry = groups.get(key) ?? { name, allocations: [] };
+    entry.allocations.push(allocation);
+    groups.set(key, entry);
+  }
+
+  return [...groups.entries()]
+    .map(([key, { name, allocations: members }]) => ({ ...(key !== undefined && { key }), name, ...totals(members) }))
+    .sort((a, b) => (a.key === undefined ? 1 : 0) - (b.key === undefined ? 1 : 0) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,275 @@
+import type { YCard, Person, Job } from './ycard-schema';
+import type { YCardIssue } from './issues';
+import type { YCardPath } from './source-map';
+import { findOrg, findUnit, unitChain } from './org-units';
+import { validateFte, type FteCode } from './fte';
+
+export type IntegrityCode =
+  | 'duplicate-uid'
+  | 'unknown-manager'
+  | 'unknown-dotted-manager'
+  | 'self-management'
+  | 'management-cycle'
+  | 'no-root-path'
+  | 'duplicate-org'
+  | 'duplicate-unit'
+  | 'unknown-org'
+  | 'unknown-org-unit'
+  | 'unknown-parent-unit'
+  | 'unit-cycle'
+  | 'unknown-unit-head'
+  | FteCode;
+
+export interface IntegrityIssue extends YCardIssue {
+  code: IntegrityCode;
+}
+
+// A manager reference held by a person, relative to the person record
+interface ManagerReference {
+  uid: string;
+  path: YCardPath;
+  kind: 'solid' | 'dotted';
+}
+
+/**
+ * Collect every manager UID a person refers to: the person-level manager (already resolved from
+ * jefe/上司/boss by the schema), each job manager, and each dotted-line manager
+ */
+function managerReferences(person: Person): ManagerReference[] {
+  const refs: ManagerReference[] = [];
+  if (person.manager) {
+    refs.push({ uid: person.manager, path: ['manager'], kind: 'solid' });
+  }
+  person.jobs?.forEach((job: Job, jobIndex: number) => {
+    if (job.manager) {
+      refs.push({ uid: job.manager, path: ['jobs', jobIndex, 'manager'], kind: 'solid' });
+    }
+    job.dotted.forEach((uid, dottedIndex) => {
+      refs.push({ uid, path: ['jobs', jobIndex, 'dotted', dottedIndex], kind: 'dotted' });
+    });
+  });
+  return refs;
+}
+
+/**
+ * Cross-record validation that runs after YCardSchema: duplicate UIDs, dangling manager and
+ * dotted-line references, self-management, management cycles, people with no path to a root,
+ * org/unit references (see validateOrgUnits) and job FTE and primary flags (see validateFte)
+ */
+export function validateReferences(data: YCard): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const indexByUid = new Map<string, number>();
+  const flagged = new Set<string>();
+
+  data.people.forEach(({ uid }, index) => {
+    if (indexByUid.has(uid)) {
+      issues.push({
+        code: 'duplicate-uid',
+        message: `Duplicate UID '${uid}' (first defined at people.${indexByUid.get(uid)})`,
+        path: ['people', index, 'uid'],
+        severity: 'error',
+      });
+    } else {
+      indexByUid.set(uid, index);
+    }
+  });
+
+  // Solid-line management edges between known people: uid -> manager uids
+  const managers = new Map<string, Set<string>>();
+  const hasSolidManager = new Set<string>();
+
+  data.people.forEach((person, index) => {
+    const uid = person.uid;
+    const known = managers.get(uid) ?? new Set<string>();
+    managers.set(uid, known);
+
+    for (const ref of managerReferences(person)) {
+      const path = ['people', index, ...ref.path];
+      if (ref.kind === 'solid') hasSolidManager.add(uid);
+
+      if (ref.uid === uid) {
+        flagged.add(uid);
+        issues.push({
+          code: 'self-management',
+          message: `'${uid}' cannot be their own ${ref.kind === 'dotted' ? 'dotted-line manager' : 'manager'}`,
+          path,
+          severity: 'error',
+        });
+      } else if (!indexByUid.has(ref.uid)) {
+        if (ref.kind === 'solid') flagged.add(uid);
+        issues.push({
+          code: ref.kind === 'dotted' ? 'unknown-dotted-manager' : 'unknown-manager',
+          message: `Unknown ${ref.kind === 'dotted' ? 'dotted-line manager' : 'manager'} UID '${ref.uid}'`,
+          path,
+          severity: 'error',
+        });
+      } else if (ref.kind === 'solid') {
+        known.add(ref.uid);
+      }
+    }
+  });
+
+  for (const cycle of findCycles(managers)) {
+    const description = describeCycle(cycle, managers);
+    for (const uid of cycle) {
+      flagged.add(uid);
+      issues.push({
+        code: 'management-cycle',
+        message: `Management cycle: ${description}`,
+        path: ['people', indexByUid.get(uid)!],
+        severity: 'error',
+      });
+    }
+  }
+
+  // Walk down from the roots; anyone not reached has no path to the top of the org
+  const reports = new Map<string, string[]>();
+  managers.forEach((managerUids, uid) => {
+    managerUids.forEach(managerUid => {
+      reports.set(managerUid, [...(reports.get(managerUid) ?? []), uid]);
+    });
+  });
+  const reachable = new Set<string>();
+  const queue = [...indexByUid.keys()].filter(uid => !hasSolidManager.has(uid));
+  while (queue.length > 0) {
+    const uid = queue.shift()!;
+    if (reachable.has(uid)) continue;
+    reachable.add(uid);
+    queue.push(...(reports.get(uid) ?? []));
+  }
+
+  indexByUid.forEach((index, uid) => {
+    if (!reachable.has(uid) && !flagged.has(uid)) {
+      issues.push({
+        code: 'no-root-path',
+        message: `'${uid}' has no management path to a root person`,
+        path: ['people', index],
+        severity: 'warning',
+      });
+    }
+  });
+
+  return [...issues, ...validateOrgUnits(data, indexByUid), ...validateFte(data)];
+}
+
+/**
+ * Check the `orgs` and `units` sections and references to them: duplicate ids, unknown parent
+ * units, unit cycles and unit heads that are not people. Person, job and unit `org` values are
+ * only checked when `orgs` is defined, and `org_unit` values only when `units` is defined.
+ */
+function validateOrgUnits(data: YCard, indexByUid: Map<string, number>): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const error = (code: IntegrityCode, message: string, path: YCardPath) => {
+    issues.push({ code, message, path, severity: 'error' });
+  };
+
+  const checkDuplicates = (section: 'orgs' | 'units', code: IntegrityCode) => {
+    const seen = new Map<string, number>();
+    data[section]?.forEach(({ id }, index) => {
+      if (seen.has(id)) {
+        error(code, `Duplicate ${section === 'orgs' ? 'organization' : 'unit'} id '${id}' (first defined at ${section}.${seen.get(id)})`, [section, index, 'id']);
+      } else {
+        seen.set(id, index);
+      }
+    });
+  };
+  checkDuplicates('orgs', 'duplicate-org');
+  checkDuplicates('units', 'duplicate-unit');
+
+  const checkOrg = (ref: string | undefined, path: YCardPath) => {
+    if (ref && data.orgs && !findOrg(data, ref)) {
+      error('unknown-org', `Unknown organization '${ref}'`, path);
+    }
+  };
+  const checkUnit = (ref: string | undefined, path: YCardPath) => {
+    if (ref && data.units && !findUnit(data, ref)) {
+      error('unknown-org-unit', `Unknown org unit '${ref}'`, path);
+    }
+  };
+
+  const inCycle = new Set<string>();
+  data.units?.forEach((unit, index) => {
+    checkOrg(unit.org, ['units', index, 'org']);
+    if (unit.parent && !findUnit(data, unit.parent)) {
+      error('unknown-parent-unit', `Unknown parent unit '${unit.parent}'`, ['units', index, 'parent']);
+    }
+    if (unit.head && !indexByUid.has(unit.head)) {
+      error('unknown-unit-head', `Unknown unit head UID '${unit.head}'`, ['units', index, 'head']);
+    }
+
+    // The chain stops where it meets itself; a cycle is when that is at this unit
+    const chain = unitChain(data, unit);
+    const last = chain[chain.length - 1];
+    if (last.parent && findUnit(data, last.parent) === unit && !inCycle.has(unit.id)) {
+      chain.forEach(member => inCycle.add(member.id));
+      error('unit-cycle', `Unit cycle: ${[...chain, unit].map(member => member.id).join(' → ')}`, ['units', index, 'parent']);
+    }
+  });
+
+  data.people.forEach((person, index) => {
+    checkOrg(person.org, ['people', index, 'org']);
+    checkUnit(person.org_unit, ['people', index, 'org_unit']);
+    person.jobs?.forEach((job, jobIndex) => {
+      checkOrg(job.org, ['people', index, 'jobs', jobIndex, 'org']);
+      checkUnit(job.org_unit, ['people', index, 'jobs', jobIndex, 'org_unit']);
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Strongly connected components with more than one member (Tarjan's algorithm)
+ */
+function findCycles(edges: Map<string, Set<string>>): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const connect = (uid: string) => {
+    indices.set(uid, indices.size);
+    lowLinks.set(uid, indices.get(uid)!);
+    stack.push(uid);
+    onStack.add(uid);
+
+    for (const next of edges.get(uid) ?? []) {
+      if (!indices.has(next)) {
+        connect(next);
+        lowLinks.set(uid, Math.min(lowLinks.get(uid)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(uid, Math.min(lowLinks.get(uid)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(uid) === indices.get(uid)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== uid);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  for (const uid of edges.keys()) {
+    if (!indices.has(uid)) connect(uid);
+  }
+  return cycles;
+}
+
+// Follow managers inside the component until a UID repeats, e.g. "alice → bob → alice"
+function describeCycle(component: string[], edges: Map<string, Set<string>>): string {
+  const members = new Set(component);
+  const chain = [component[0]];
+  for (;;) {
+    const next = [...edges.get(chain[chain.length - 1])!].find(uid => members.has(uid))!;
+    chain.push(next);
+    if (chain.indexOf(next) < chain.length - 1) {
+      return chain.slice(chain.indexOf(next)).join(' → ');
+    }
+  }
+}
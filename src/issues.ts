@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import type { YCardPath } from './source-map';
+
+export type IssueSeverity = 'error' | 'warning';
+
+// A structured finding from a validation pass that runs on top of the Zod schema
+export interface YCardIssue {
+  code: string;
+  message: string;
+  path: YCardPath;
+  severity: IssueSeverity;
+}
+
+/**
+ * Whether any issue in the list should fail validation
+ */
+export function hasErrors(issues: YCardIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Wrap issues as a ZodError so they can fail a parse alongside schema errors.
+ * The issue code is kept in the params.
+ */
+export function issuesToZodError(issues: YCardIssue[]): z.ZodError {
+  return new z.ZodError(issues.map(issue => ({
+    code: 'custom' as const,
+    message: issue.message,
+    path: issue.path,
+    params: { code: issue.code },
+  })));
+}
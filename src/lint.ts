@@ -0,0 +1,295 @@
+import { readFileSync, existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { z } from 'zod';
+import * as yaml from 'js-yaml';
+import type { YCard } from './ycard-schema';
+import type { YCardIssue } from './issues';
+import { SourceMap, type YCardPath } from './source-map';
+import { defaultAliasRegistry, type AliasRegistry } from './aliases';
+import { OrgGraph } from './org-graph';
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+// Config file looked up from the linted file's directory upwards
+export const LINT_CONFIG_FILE = '.ycardlint';
+
+// One problem found by a rule; the engine adds the rule id and severity
+export interface LintFinding {
+  message: string;
+  path: YCardPath;
+}
+
+/**
+ * A policy rule run over the parsed document. Plugins export these (see defineRule).
+ */
+export interface LintRule<Options extends object = Record<string, unknown>> {
+  id: string; // kebab-case, e.g. require-email (plugins should prefix theirs, e.g. acme/require-badge)
+  description: string;
+  severity: LintSeverity; // Used when the config does not mention the rule
+  options?: Options; // Defaults, overridden key by key by the config
+  optionsSchema?: z.ZodType<Options>;
+  check(card: YCard, options: Options): LintFinding[];
+}
+
+// `error`, `warning` or `off`, optionally with options: [warning, { max: 8 }]
+export type RuleSetting = LintSeverity | [LintSeverity] | [LintSeverity, Record<string, unknown>];
+
+export interface LintConfig {
+  rules?: Record<string, RuleSetting>;
+  plugins?: LintRule<object>[]; // Rules added to the built-in ones
+}
+
+/**
+ * Thrown for an invalid `.ycardlint` file, unknown rule ids, bad rule options or broken plugins
+ */
+export class LintConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LintConfigError';
+  }
+}
+
+/**
+ * Identity helper that types a plugin rule and its options
+ */
+export function defineRule<Options extends object>(rule: LintRule<Options>): LintRule<Options> {
+  return rule;
+}
+
+const MaxSchema = z.object({ max: z.number().int().positive() });
+
+export const BUILTIN_RULES: LintRule<object>[] = [
+  defineRule({
+    id: 'require-email',
+    description: 'Every person has at least one email address',
+    severity: 'off',
+    check: card => card.people.flatMap((person, index) => person.email?.length ? [] : [{
+      message: `'${person.uid}' has no email address`,
+      path: ['people', index, 'email'],
+    }]),
+  }),
+
+  defineRule({
+    id: 'require-org-unit',
+    description: 'Every person (or each of their jobs) has an org_unit',
+    severity: 'off',
+    check: card => card.people.flatMap((person, index) => {
+      if (person.org_unit) return [];
+      const jobs = person.jobs ?? [];
+      if (jobs.length > 0 && jobs.every(job => job.org_unit)) return [];
+      return [{ message: `'${person.uid}' has no org_unit`, path: ['people', index, 'org_unit'] }];
+    }),
+  }),
+
+  defineRule<{ titles: string[] }>({
+    id: 'approved-titles',
+    description: 'Titles and job roles come from an approved list',
+    severity: 'off',
+    options: { titles: [] },
+    optionsSchema: z.object({ titles: z.array(z.string()).min(1, 'approved-titles needs a list of titles') }),
+    check: (card, { titles }) => {
+      const approved = new Set(titles);
+      return card.people.flatMap((person, index) => [
+        ...(person.title !== undefined && !approved.has(person.title)
+          ? [{ message: `Title '${person.title}' is not in the approved list`, path: ['people', index, 'title'] }]
+          : []),
+        ...(person.jobs ?? []).flatMap((job, jobIndex) => job.role !== undefined && !approved.has(job.role)
+          ? [{ message: `Role '${job.role}' is not in the approved list`, path: ['people', index, 'jobs', jobIndex, 'role'] }]
+          : []),
+      ]);
+    },
+  }),
+
+  defineRule<{ max: number }>({
+    id: 'max-direct-reports',
+    description: 'Managers have at most `max` direct (solid-line) reports',
+    severity: 'warning',
+    options: { max: 12 },
+    optionsSchema: MaxSchema,
+    check: (card, { max }) => {
+      const graph = new OrgGraph(card);
+      return card.people.flatMap((person, index) => {
+        const span = graph.spanOfControl(person.uid);
+        return span > max ? [{ message: `'${person.uid}' has ${span} direct reports (at most ${max})`, path: ['people', index] }] : [];
+      });
+    },
+  }),
+
+  defineRule<{ max: number }>({
+    id: 'max-display-name-length',
+    description: 'Display names (name and surname, and each displayName translation) are at most `max` characters',
+    severity: 'warning',
+    options: { max: 64 },
+    optionsSchema: MaxSchema,
+    check: (card, { max }) => card.people.flatMap((person, index) => {
+      const findings: LintFinding[] = [];
+      const name = [person.name, person.surname].filter(Boolean).join(' ');
+      if ([...name].length > max) {
+        findings.push({ message: `Display name '${name}' is ${[...name].length} characters long (at most ${max})`, path: ['people', index, 'name'] });
+      }
+      Object.entries(person.i18n?.displayName ?? {}).forEach(([language, value]) => {
+        if ([...value].length > max) {
+          findings.push({
+            message: `Display name (${language}) is ${[...value].length} characters long (at most ${max})`,
+            path: ['people', index, 'i18n', 'displayName', language],
+          });
+        }
+      });
+      return findings;
+    }),
+  }),
+];
+
+/**
+ * Run the enabled rules over a parsed document. Rule ids become issue codes. When the source
+ * text is given, findings on a line after `# ycard-disable-next-line [rule-id, ...]` (or on a
+ * line ending in `# ycard-disable-line [rule-id, ...]`) are dropped; without ids every rule is
+ * disabled for that line. `registry` finds fields written with alias keys in the text.
+ */
+export function lintYCard(card: YCard, config: LintConfig = {}, text?: string, registry: AliasRegistry = defaultAliasRegistry): YCardIssue[] {
+  const rules = new Map<string, LintRule<object>>();
+  for (const rule of [...BUILTIN_RULES, ...(config.plugins ?? [])]) {
+    if (rules.has(rule.id)) throw new LintConfigError(`Duplicate lint rule '${rule.id}'`);
+    rules.set(rule.id, rule);
+  }
+  const unknown = Object.keys(config.rules ?? {}).filter(id => !rules.has(id));
+  if (unknown.length > 0) {
+    throw new LintConfigError(`Unknown lint rule${unknown.length === 1 ? '' : 's'} ${unknown.map(id => `'${id}'`).join(', ')}`);
+  }
+
+  const issues: YCardIssue[] = [];
+  for (const rule of rules.values()) {
+    const setting = config.rules?.[rule.id] ?? rule.severity;
+    const [severity, configured] = Array.isArray(setting) ? setting : [setting];
+    if (severity === 'off') continue;
+
+    const options = ruleOptions(rule, configured);
+    let findings: LintFinding[];
+    try {
+      findings = rule.check(card, options);
+    } catch (error) {
+      throw new Error(`Lint rule '${rule.id}' failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    issues.push(...findings.map(finding => ({ code: rule.id, message: finding.message, path: finding.path, severity })));
+  }
+
+  if (text === undefined) return issues;
+  const disabled = disabledLines(text);
+  if (disabled.size === 0) return issues;
+  const sourceMap = SourceMap.fromText(text, registry);
+  return issues.filter(issue => {
+    const rulesOff = disabled.get(sourceMap.rangeFor(issue.path).start.line);
+    return !rulesOff || !(rulesOff.has('*') || rulesOff.has(issue.code));
+  });
+}
+
+/**
+ * Parse a `.ycardlint` file (YAML or JSON): `rules` maps rule ids to settings and `plugins` lists
+ * modules (resolved from `baseDir`) exporting rules as `rules`, as the default export, or as the
+ * module itself
+ */
+export function parseLintConfig(content: string, baseDir: string): LintConfig {
+  const parsed = LintConfigSchema.safeParse(yaml.load(content) ?? {});
+  if (!parsed.success) {
+    throw new LintConfigError(parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n'));
+  }
+  return {
+    rules: parsed.data.rules as Record<string, RuleSetting>,
+    plugins: parsed.data.plugins.flatMap(plugin => loadPlugin(plugin, baseDir)),
+  };
+}
+
+/**
+ * Read a `.ycardlint` file; plugin paths are relative to the file
+ */
+export function loadLintConfig(path: string): LintConfig {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new LintConfigError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return parseLintConfig(content, dirname(resolve(path)));
+  } catch (error) {
+    throw new LintConfigError(`Invalid lint config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Nearest `.ycardlint` in a directory or its parents
+ */
+export function findLintConfig(directory: string): string | undefined {
+  let current = resolve(directory);
+  for (;;) {
+    const candidate = join(current, LINT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+const SeveritySchema = z.enum(['error', 'warning', 'off']);
+
+const LintConfigSchema = z.object({
+  plugins: z.array(z.string()).default([]),
+  rules: z.record(z.union([
+    SeveritySchema,
+    z.tuple([SeveritySchema]),
+    z.tuple([SeveritySchema, z.record(z.unknown())]),
+  ])).default({}),
+}).strict();
+
+function ruleOptions(rule: LintRule<object>, configured: Record<string, unknown> | undefined): object {
+  const options = { ...rule.options, ...configured };
+  if (!rule.optionsSchema) return options;
+  const parsed = rule.optionsSchema.safeParse(options);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+    throw new LintConfigError(`Invalid options for lint rule '${rule.id}': ${details.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+function loadPlugin(specifier: string, baseDir: string): LintRule<object>[] {
+  const path = specifier.startsWith('.') ? resolve(baseDir, specifier) : specifier;
+  let exported: unknown;
+  try {
+    exported = require(require.resolve(path, { paths: [baseDir] }));
+  } catch (error) {
+    const hint = /\.tsx?$/.test(path) ? ' (TypeScript plugins need a TypeScript loader such as ts-node, or compile them to JavaScript)' : '';
+    throw new LintConfigError(`Cannot load lint plugin '${specifier}': ${error instanceof Error ? error.message : String(error)}${hint}`);
+  }
+
+  const defaultExport = property(exported, 'default');
+  const rules = [property(exported, 'rules'), property(defaultExport, 'rules'), defaultExport, exported].find(Array.isArray);
+  if (!isRuleList(rules)) {
+    throw new LintConfigError(`Lint plugin '${specifier}' must export a list of rules (each with an id and a check function)`);
+  }
+  return rules;
+}
+
+function property(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+// A plugin's rule list: every entry has an id and a check function
+function isRuleList(value: unknown): value is LintRule<object>[] {
+  return Array.isArray(value) && value.every(rule => typeof property(rule, 'id') === 'string' && typeof property(rule, 'check') === 'function');
+}
+
+// Rule ids disabled per 0-based line ('*' for all rules)
+function disabledLines(text: string): Map<number, Set<string>> {
+  const disabled = new Map<number, Set<string>>();
+  text.split('\n').forEach((line, index) => {
+    const match = /#\s*ycard-disable-(next-line|line)\b([^#]*)/.exec(line);
+    if (!match) return;
+    const target = match[1] === 'next-line' ? index + 1 : index;
+    const ids = match[2].split(/[\s,]+/).filter(Boolean);
+    const entry = disabled.get(target) ?? new Set<string>();
+    (ids.length > 0 ? ids : ['*']).forEach(id => entry.add(id));
+    disabled.set(target, entry);
+  });
+  return disabled;
+}
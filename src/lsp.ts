@@ -10,14 +10,36 @@ import {
   CompletionItemKind,
   TextDocumentPositionParams,
   TextDocumentSyncKind,
-  InitializeResult
+  InitializeResult,
+  Range,
+  Hover,
+  MarkupKind,
+  DocumentFormattingParams,
+  TextEdit
 } from 'vscode-languageserver/node';
 
 import {
   TextDocument
 } from 'vscode-languageserver-textdocument';
+import { dirname } from 'path';
+import { fileURLToPath } from 'url';
 
 import { YCardParser } from './parser';
+import type { YCard } from './ycard-schema';
+import type { YCardIssue } from './issues';
+import { SourceMap, type SourceRange } from './source-map';
+import type { AliasConflictMode } from './conflicts';
+import { formatYCard, type FormatOptions } from './format';
+import { lintYCard, loadLintConfig, findLintConfig, type LintConfig } from './lint';
+import {
+  createAliasRegistry,
+  defaultAliasRegistry,
+  loadAliasPackFile,
+  describeAlias,
+  aliasScopeForPath,
+  type AliasRegistry,
+  type AliasScope
+} from './aliases';
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -56,6 +78,8 @@ connection.onInitialize((params: InitializeParams) => {
       },
       // Tell the client that this server supports hover.
       hoverProvider: true,
+      // Tell the client that this server supports whole-document formatting.
+      documentFormattingProvider: true,
       // Tell the client that this server supports diagnostics.
       diagnosticProvider: {
         interFileDependencies: false,
@@ -80,65 +104,96 @@ connection.onInitialized(() => {
   }
 });
 
+// yCard settings, read from the `ycard` configuration section
+interface YCardSettings {
+  // Alias pack files (YAML or JSON) registered after the built-in aliases, in precedence order
+  aliasPacks: string[];
+  // How to report keys that hold different values for the same field
+  aliasConflicts: AliasConflictMode;
+  // Key style applied by document formatting (`aliases` and `locale` of formatYCard)
+  format: Pick<FormatOptions, 'aliases' | 'locale'>;
+}
+
 // The global settings, used when the `workspace/configuration` request is not supported by the client.
 // Please note that this is not the case when using this server with the client provided in this example
 // but could happen with other clients.
-// const defaultSettings: ExampleSettings = { maxNumberOfProblems: 1000 };
-// let globalSettings: ExampleSettings = defaultSettings;
+const defaultSettings: YCardSettings = { aliasPacks: [], aliasConflicts: 'lenient', format: { aliases: 'canonical' } };
+let globalSettings: YCardSettings = defaultSettings;
 
 // Cache the settings of all open documents
-// const documentSettings: Map<string, Thenable<ExampleSettings>> = new Map();
+const documentSettings: Map<string, Thenable<YCardSettings>> = new Map();
 
-connection.onDidChangeConfiguration(_change => {
+connection.onDidChangeConfiguration(change => {
   if (hasConfigurationCapability) {
     // Reset all cached document settings
-    // documentSettings.clear();
+    documentSettings.clear();
   } else {
-    // globalSettings = <ExampleSettings>(
-    //   (change.settings.languageServerExample || defaultSettings)
-    // );
+    globalSettings = <YCardSettings>(
+      (change.settings.ycard || defaultSettings)
+    );
   }
 
   // Revalidate all open text documents
   documents.all().forEach(validateTextDocument);
 });
-// let globalSettings: ExampleSettings = defaultSettings;
 
-// Cache the settings of all open documents
-// const documentSettings: Map<string, Thenable<ExampleSettings>> = new Map();
+function getDocumentSettings(resource: string): Thenable<YCardSettings> {
+  if (!hasConfigurationCapability) {
+    return Promise.resolve(globalSettings);
+  }
+  let result = documentSettings.get(resource);
+  if (!result) {
+    result = connection.workspace.getConfiguration({
+      scopeUri: resource,
+      section: 'ycard'
+    });
+    documentSettings.set(resource, result);
+  }
+  return result;
+}
 
-connection.onDidChangeConfiguration(_change => {
-  if (hasConfigurationCapability) {
-    // Reset all cached document settings
-    // documentSettings.clear();
-  } else {
-    // globalSettings = <ExampleSettings>(
-    //   (_change.settings.languageServerExample || defaultSettings)
-    // );
+// Alias registries (and the parsers built from them) by alias pack list
+const aliasRegistries: Map<string, AliasRegistry> = new Map();
+
+async function getAliasRegistry(resource: string): Promise<AliasRegistry> {
+  const aliasPacks = (await getDocumentSettings(resource))?.aliasPacks ?? [];
+  const cacheKey = JSON.stringify(aliasPacks);
+  let registry = aliasRegistries.get(cacheKey);
+  if (!registry) {
+    try {
+      registry = createAliasRegistry(aliasPacks.map(loadAliasPackFile)).lock();
+    } catch (error) {
+      connection.console.error(`Failed to load yCard alias packs: ${error instanceof Error ? error.message : String(error)}`);
+      registry = defaultAliasRegistry;
+    }
+    aliasRegistries.set(cacheKey, registry);
   }
+  return registry;
+}
 
-  // Revalidate all open text documents
-  documents.all().forEach(validateTextDocument);
-});
+// Lint configs by directory of the linted document (cleared when watched files change)
+const lintConfigs: Map<string, LintConfig> = new Map();
 
-// function getDocumentSettings(resource: string): Thenable<ExampleSettings> {
-//   if (!hasConfigurationCapability) {
-//     return Promise.resolve(globalSettings);
-//   }
-//   let result = documentSettings.get(resource);
-//   if (!result) {
-//     result = connection.workspace.getConfiguration({
-//       scopeUri: resource,
-//       section: 'languageServerExample'
-//     });
-//     documentSettings.set(resource, result);
-//   }
-//   return result;
-// }
+function getLintConfig(resource: string): LintConfig {
+  if (!resource.startsWith('file:')) return {};
+  const directory = dirname(fileURLToPath(resource));
+  let config = lintConfigs.get(directory);
+  if (!config) {
+    const configFile = findLintConfig(directory);
+    try {
+      config = configFile ? loadLintConfig(configFile) : {};
+    } catch (error) {
+      connection.console.error(error instanceof Error ? error.message : String(error));
+      config = {};
+    }
+    lintConfigs.set(directory, config);
+  }
+  return config;
+}
 
 // Only keep settings for open documents
-documents.onDidClose(_e => {
-  // documentSettings.delete(e.document.uri);
+documents.onDidClose(e => {
+  documentSettings.delete(e.document.uri);
 });
 
 // The content of a text document has changed. This event is emitted
@@ -148,231 +203,176 @@ documents.onDidChangeContent(_change => {
 });
 
 async function validateTextDocument(textDocument: TextDocument): Promise<void> {
-  // In this simple example we get the settings for every validate run.
-  // const settings = await getDocumentSettings(textDocument.uri);
-
-  const parser = new YCardParser();
+  const registry = await getAliasRegistry(textDocument.uri);
+  const settings = await getDocumentSettings(textDocument.uri);
+  const parser = new YCardParser({ registry, aliasConflicts: settings?.aliasConflicts ?? 'lenient' });
   const text = textDocument.getText();
-  const validationResult = parser.parse(text);
+  const validationResult = parser.parseWithSourceMap(text);
 
   const diagnostics: Diagnostic[] = [];
 
-  if (!validationResult.success) {
-    for (const error of validationResult.errors) {
-      for (const issue of error.errors) {
-        const diagnostic: Diagnostic = {
-          severity: DiagnosticSeverity.Error,
-          range: {
-            start: textDocument.positionAt(0),
-            end: textDocument.positionAt(text.length)
+  const located = validationResult.success
+    ? parser.getLocatedIssues(
+      [
+        ...validationResult.warnings,
+        ...parser.validateReferences(validationResult.data),
+        ...lintDocument(validationResult.data, textDocument.uri, text, registry)
+      ],
+      validationResult.sourceMap
+    )
+    : parser.getLocatedErrors(validationResult.errors, validationResult.sourceMap);
+
+  for (const error of located) {
+    const diagnostic: Diagnostic = {
+      severity: error.severity === 'warning' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+      range: toLspRange(error.range),
+      message: error.path.length > 0 ? `${error.path.join('.')}: ${error.message}` : error.message,
+      source: 'yCard',
+      ...(error.code && { code: error.code })
+    };
+    if (hasDiagnosticRelatedInformationCapability) {
+      diagnostic.relatedInformation = [
+        {
+          location: {
+            uri: textDocument.uri,
+            range: Object.assign({}, diagnostic.range)
           },
-          message: issue.message,
-          source: 'yCard'
-        };
-        if (hasDiagnosticRelatedInformationCapability) {
-          diagnostic.relatedInformation = [
-            {
-              location: {
-                uri: textDocument.uri,
-                range: Object.assign({}, diagnostic.range)
-              },
-              message: 'yCard validation error'
-            }
-          ];
+          message: 'yCard validation error'
         }
-        diagnostics.push(diagnostic);
-      }
+      ];
     }
+    diagnostics.push(diagnostic);
   }
 
   // Send the computed diagnostics to VS Code.
   connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
 }
 
+// Policy rules from the nearest .ycardlint; a broken config or plugin is logged, not reported per document
+function lintDocument(data: YCard, resource: string, text: string, registry: AliasRegistry): YCardIssue[] {
+  try {
+    return lintYCard(data, getLintConfig(resource), text, registry);
+  } catch (error) {
+    connection.console.error(error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+function toLspRange(range: SourceRange): Range {
+  return {
+    start: { line: range.start.line, character: range.start.column },
+    end: { line: range.end.line, character: range.end.column }
+  };
+}
+
 connection.onDidChangeWatchedFiles(_change => {
-  // Monitored files have change in VS Code
-  connection.console.log('We received an file change event');
+  // Monitored files (such as .ycardlint) changed: reload lint configs and revalidate
+  lintConfigs.clear();
+  documents.all().forEach(validateTextDocument);
 });
 
+// Completion item data: which key of which record type the item stands for
+interface CompletionData {
+  uri: string;
+  scope: AliasScope;
+  key: string;
+}
+
+// Detail and documentation for a canonical key or alias, from the alias registry
+function describeKey(registry: AliasRegistry, scope: AliasScope, key: string): { detail: string; documentation?: string } | undefined {
+  const fieldDoc = registry.fieldDoc(scope, key);
+  if (fieldDoc) return fieldDoc;
+
+  const alias = registry.entry(scope, key);
+  if (!alias) return undefined;
+  return {
+    detail: `${key} (${describeAlias(alias)})`,
+    documentation: alias.description ?? registry.fieldDoc(scope, alias.field)?.documentation
+  };
+}
+
 // This handler provides the initial list of the completion items.
 connection.onCompletion(
-  (_textDocumentPosition: TextDocumentPositionParams): CompletionItem[] => {
-    // The pass parameter contains the position of the text document in
-    // which code complete got requested. For the example we get the
-    // same completion items everywhere.
-    return [
-      // Core fields
-      { label: 'uid', kind: CompletionItemKind.Field, data: 1 },
-      { label: 'name', kind: CompletionItemKind.Field, data: 2 },
-      { label: 'surname', kind: CompletionItemKind.Field, data: 3 },
-      { label: 'title', kind: CompletionItemKind.Field, data: 4 },
-      { label: 'email', kind: CompletionItemKind.Field, data: 5 },
-      { label: 'org', kind: CompletionItemKind.Field, data: 6 },
-      { label: 'org_unit', kind: CompletionItemKind.Field, data: 7 },
-      { label: 'manager', kind: CompletionItemKind.Field, data: 8 },
-      { label: 'phone', kind: CompletionItemKind.Field, data: 9 },
-      { label: 'address', kind: CompletionItemKind.Field, data: 10 },
-      { label: 'jobs', kind: CompletionItemKind.Field, data: 11 },
-      { label: 'i18n', kind: CompletionItemKind.Field, data: 12 },
-
-      // Aliases
-      { label: 'id', kind: CompletionItemKind.Field, data: 13 },
-      { label: 'nombre', kind: CompletionItemKind.Field, data: 14 },
-      { label: 'apellido', kind: CompletionItemKind.Field, data: 15 },
-      { label: 'puesto', kind: CompletionItemKind.Field, data: 16 },
-      { label: 'correo', kind: CompletionItemKind.Field, data: 17 },
-      { label: 'jefe', kind: CompletionItemKind.Field, data: 18 },
-      { label: '上司', kind: CompletionItemKind.Field, data: 19 },
-      { label: 'displayName', kind: CompletionItemKind.Field, data: 20 },
-      { label: 'lastName', kind: CompletionItemKind.Field, data: 21 },
-      { label: 'role', kind: CompletionItemKind.Field, data: 22 },
-      { label: 'mail', kind: CompletionItemKind.Field, data: 23 },
-      { label: 'organization', kind: CompletionItemKind.Field, data: 24 },
-      { label: 'company', kind: CompletionItemKind.Field, data: 25 },
-      { label: 'department', kind: CompletionItemKind.Field, data: 26 },
-      { label: 'ou', kind: CompletionItemKind.Field, data: 27 },
-      { label: 'boss', kind: CompletionItemKind.Field, data: 28 },
-      { label: 'tel', kind: CompletionItemKind.Field, data: 29 },
-      { label: 'adr', kind: CompletionItemKind.Field, data: 30 },
-      { label: 'sn', kind: CompletionItemKind.Field, data: 31 },
+  async (textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> => {
+    // Person fields and their aliases, canonical fields first
+    const uri = textDocumentPosition.textDocument.uri;
+    const registry = await getAliasRegistry(uri);
+    const fields = registry.fields('person');
+    const keys = [
+      ...fields,
+      ...fields.flatMap(field => registry.aliasesFor('person', field).map(alias => alias.key))
     ];
+    return keys.map(key => ({
+      label: key,
+      kind: CompletionItemKind.Field,
+      data: { uri, scope: 'person', key } satisfies CompletionData
+    }));
   }
 );
 
 // This handler resolves additional information for the item selected in
 // the completion list.
 connection.onCompletionResolve(
-  (item: CompletionItem): CompletionItem => {
-    switch (item.data) {
-      case 1:
-        item.detail = 'Unique identifier';
-        item.documentation = 'A unique identifier for the person';
-        break;
-      case 2:
-        item.detail = 'Full name';
-        item.documentation = 'The full name of the person';
-        break;
-      case 3:
-        item.detail = 'Surname/Family name';
-        item.documentation = 'The person\'s surname or family name';
-        break;
-      case 4:
-        item.detail = 'Job title';
-        item.documentation = 'The person\'s job title or position';
-        break;
-      case 5:
-        item.detail = 'Email address';
-        item.documentation = 'Email address for contact (string or array)';
-        break;
-      case 6:
-        item.detail = 'Organization';
-        item.documentation = 'The organization the person belongs to';
-        break;
-      case 7:
-        item.detail = 'Organizational unit';
-        item.documentation = 'Department or organizational unit';
-        break;
-      case 8:
-        item.detail = 'Manager';
-        item.documentation = 'UID of the person\'s manager';
-        break;
-      case 9:
-        item.detail = 'Phone numbers';
-        item.documentation = 'Array of phone numbers (string or object format)';
-        break;
-      case 10:
-        item.detail = 'Address';
-        item.documentation = 'Physical address information';
-        break;
-      case 11:
-        item.detail = 'Jobs';
-        item.documentation = 'Array of job positions for multi-hat roles';
-        break;
-      case 12:
-        item.detail = 'Internationalization';
-        item.documentation = 'Internationalized versions of fields by language code';
-        break;
-      case 13:
-        item.detail = 'ID (alias for uid)';
-        item.documentation = 'Alternative identifier for the person';
-        break;
-      case 14:
-        item.detail = 'Nombre (Spanish alias for name)';
-        item.documentation = 'Spanish: Full name of the person';
-        break;
-      case 15:
-        item.detail = 'Apellido (Spanish alias for surname)';
-        item.documentation = 'Spanish: Surname or family name';
-        break;
-      case 16:
-        item.detail = 'Puesto (Spanish alias for title)';
-        item.documentation = 'Spanish: Job title or position';
-        break;
-      case 17:
-        item.detail = 'Correo (Spanish alias for email)';
-        item.documentation = 'Spanish: Email address';
-        break;
-      case 18:
-        item.detail = 'Jefe (Spanish alias for manager)';
-        item.documentation = 'Spanish: Manager\'s UID';
-        break;
-      case 19:
-        item.detail = '上司 (Japanese alias for manager)';
-        item.documentation = 'Japanese: Manager\'s UID';
-        break;
-      case 20:
-        item.detail = 'Display name';
-        item.documentation = 'Alternative display name format';
-        break;
-      case 21:
-        item.detail = 'Last name (alias for surname)';
-        item.documentation = 'Alternative for surname';
-        break;
-      case 22:
-        item.detail = 'Role (alias for title)';
-        item.documentation = 'Alternative for job title';
-        break;
-      case 23:
-        item.detail = 'Mail (LDAP alias for email)';
-        item.documentation = 'LDAP-style email field';
-        break;
-      case 24:
-        item.detail = 'Organization (alias for org)';
-        item.documentation = 'Alternative for organization';
-        break;
-      case 25:
-        item.detail = 'Company (alias for org)';
-        item.documentation = 'Alternative for organization';
-        break;
-      case 26:
-        item.detail = 'Department (alias for org_unit)';
-        item.documentation = 'Alternative for organizational unit';
-        break;
-      case 27:
-        item.detail = 'OU (LDAP alias for org_unit)';
-        item.documentation = 'LDAP-style organizational unit';
-        break;
-      case 28:
-        item.detail = 'Boss (alias for manager)';
-        item.documentation = 'Alternative for manager';
-        break;
-      case 29:
-        item.detail = 'Tel (LDAP alias for phone)';
-        item.documentation = 'LDAP-style phone field';
-        break;
-      case 30:
-        item.detail = 'ADR (LDAP alias for address)';
-        item.documentation = 'LDAP-style address field';
-        break;
-      case 31:
-        item.detail = 'SN (LDAP alias for surname)';
-        item.documentation = 'LDAP-style surname field';
-        break;
+  async (item: CompletionItem): Promise<CompletionItem> => {
+    const { uri, scope, key } = item.data as CompletionData;
+    const description = describeKey(await getAliasRegistry(uri), scope, key);
+    if (description) {
+      item.detail = description.detail;
+      item.documentation = description.documentation;
     }
     return item;
   }
 );
 
+// Hover over a key shows its field docs, or which canonical field an alias maps to
+connection.onHover(
+  async (params: TextDocumentPositionParams): Promise<Hover | null> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+
+    const sourceMap = SourceMap.fromText(document.getText());
+    const path = sourceMap.keyPathAt(document.offsetAt(params.position));
+    const scope = path && aliasScopeForPath(path);
+    if (!path || !scope) return null;
+
+    const key = String(path[path.length - 1]);
+    const description = describeKey(await getAliasRegistry(params.textDocument.uri), scope, key);
+    if (!description) return null;
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: [`**${description.detail}**`, description.documentation].filter(Boolean).join('\n\n')
+      },
+      range: toLspRange(sourceMap.get(path)!.key!)
+    };
+  }
+);
+
+// Format the whole document, keeping comments; documents with YAML syntax errors are left alone
+connection.onDocumentFormatting(
+  async (params: DocumentFormattingParams): Promise<TextEdit[]> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    const settings = await getDocumentSettings(params.textDocument.uri);
+    const text = document.getText();
+    let formatted: string;
+    try {
+      formatted = formatYCard(text, {
+        ...settings?.format,
+        registry: await getAliasRegistry(params.textDocument.uri),
+        indent: params.options.tabSize
+      });
+    } catch {
+      return [];
+    }
+
+    if (formatted === text) return [];
+    return [TextEdit.replace({ start: document.positionAt(0), end: document.positionAt(text.length) }, formatted)];
+  }
+);
+
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -0,0 +1,222 @@
+import * as yaml from 'js-yaml';
+import type { YCard, Person, Job, Organization, OrgUnit } from './ycard-schema';
+import { deepEqual, isRecord } from './utils';
+import { updateYCard } from './format';
+import type { AliasRegistry } from './aliases';
+
+export type MergeSection = 'document' | 'orgs' | 'units' | 'people';
+
+// An entry changed differently on both sides. `ours` and `theirs` are the entry with every
+// non-conflicting change merged in; either is missing when that side deleted the entry.
+export interface MergeConflict {
+  section: MergeSection;
+  id: string; // uid, org/unit id, or the field name for document-level fields
+  fields: string[]; // Conflicting field paths, e.g. title or i18n.title.ja (empty for modify/delete)
+  position: number; // Index of the entry in the merged section
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface MergeResult {
+  card: YCard; // Merged document, with our side of every conflict
+  conflicts: MergeConflict[];
+}
+
+// Labels written after the conflict markers
+export interface MergeLabels {
+  ours?: string;
+  base?: string;
+  theirs?: string;
+}
+
+// Our side as written and as parsed, so that a clean merge can keep its text
+export interface MergeSource {
+  text: string;
+  card: YCard;
+  registry?: AliasRegistry; // Alias registry the text was parsed with (defaults to the built-in aliases)
+}
+
+/**
+ * Three-way merge of parsed documents (alias keys already resolved to canonical fields). People
+ * are matched by uid and orgs/units by id; each entry is merged field by field, and i18n down to
+ * single translations. A field changed on one side takes that change; a field changed the same
+ * way on both sides is merged; anything else is a conflict. Entries keep our order, with entries
+ * added on their side placed after their predecessor there.
+ */
+export function mergeYCard(base: YCard, ours: YCard, theirs: YCard): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const card: YCard = { people: [] };
+
+  const versions = [base, ours, theirs].map(doc => doc.ycard_version).filter((version): version is number => version !== undefined);
+  if (versions.length > 0) card.ycard_version = Math.max(...versions);
+
+  const region = mergeValue(base.default_region, ours.default_region, theirs.default_region, '');
+  if (region.conflicts.length > 0) {
+    conflicts.push({ section: 'document', id: 'default_region', fields: ['default_region'], position: 0, base: base.default_region, ours: region.ours, theirs: region.theirs });
+  }
+  if (region.ours !== undefined) card.default_region = region.ours as string;
+
+  const orgs = mergeEntries('orgs', base.orgs, ours.orgs, theirs.orgs, (org: Organization) => org.id);
+  const units = mergeEntries('units', base.units, ours.units, theirs.units, (unit: OrgUnit) => unit.id);
+  const people = mergeEntries('people', base.people, ours.people, theirs.people, (person: Person) => person.uid);
+
+  if (orgs.entries.length > 0 || [base, ours, theirs].some(doc => doc.orgs)) card.orgs = orgs.entries;
+  if (units.entries.length > 0 || [base, ours, theirs].some(doc => doc.units)) card.units = units.entries;
+  card.people = people.entries;
+  conflicts.push(...orgs.conflicts, ...units.conflicts, ...people.conflicts);
+
+  return { card, conflicts };
+}
+
+/**
+ * Write a merge result as YAML. Each conflicting entry is written three times between
+ * `<<<<<<<`, `|||||||`, `=======` and `>>>>>>>` markers (ours, base, theirs), so resolving a
+ * conflict means deleting the markers and the unwanted versions. Conflicting fields are listed
+ * after the first marker.
+ *
+ * Given our side's `source`, a merge without conflicts is written onto that text (see
+ * updateYCard): only the entries and fields the merge changed are rewritten, so comments and
+ * alias keys elsewhere are kept. Otherwise the whole document is written in canonical form.
+ */
+export function stringifyMergeResult(result: MergeResult, labels: MergeLabels = {}, source?: MergeSource): string {
+  const { ours = 'ours', base = 'base', theirs = 'theirs' } = labels;
+  const { card, conflicts } = result;
+  if (source && conflicts.length === 0) {
+    return updateYCard(source.text, compactCard(card), { registry: source.registry, previous: compactCard(source.card) });
+  }
+  const lines: string[] = [];
+  const block = (conflict: MergeConflict, write: (value: unknown) => string[]) => [
+    `<<<<<<< ${ours} (${conflict.fields.length > 0 ? conflict.fields.join(', ') : `deleted in ${conflict.ours === undefined ? ours : theirs}`})`,
+    ...write(conflict.ours),
+    `||||||| ${base}`,
+    ...write(conflict.base),
+    '=======',
+    ...write(conflict.theirs),
+    `>>>>>>> ${theirs}`,
+  ];
+
+  if (card.ycard_version !== undefined) lines.push(`ycard_version: ${card.ycard_version}`);
+  const region = conflicts.find(conflict => conflict.section === 'document');
+  if (region) {
+    lines.push(...block(region, value => value === undefined ? [] : dumpLines({ default_region: value })));
+  } else if (card.default_region !== undefined) {
+    lines.push(...dumpLines({ default_region: card.default_region }));
+  }
+
+  for (const section of ['orgs', 'units', 'people'] as const) {
+    const entries: unknown[] | undefined = card[section];
+    const sectionConflicts = conflicts.filter(conflict => conflict.section === section);
+    if (!entries && sectionConflicts.length === 0) continue;
+    if (!entries?.length && sectionConflicts.length === 0) {
+      lines.push(`${section}: []`);
+      continue;
+    }
+
+    lines.push(`${section}:`);
+    const list = entries ?? [];
+    for (let index = 0; index <= list.length; index++) {
+      for (const conflict of sectionConflicts.filter(candidate => candidate.position === index)) {
+        lines.push(...block(conflict, value => value === undefined ? [] : entryLines(value)));
+      }
+      const replaced = sectionConflicts.some(conflict => conflict.position === index && conflict.ours !== undefined);
+      if (index < list.length && !replaced) lines.push(...entryLines(list[index]));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+interface MergedValue {
+  ours: unknown;
+  theirs: unknown;
+  conflicts: string[]; // Field paths ('' when the values themselves conflict)
+}
+
+function mergeEntries<T>(
+  section: MergeSection,
+  base: T[] = [],
+  ours: T[] = [],
+  theirs: T[] = [],
+  idOf: (entry: T) => string
+): { entries: T[]; conflicts: MergeConflict[] } {
+  const byId = (entries: T[]) => {
+    const map = new Map<string, T>();
+    entries.forEach(entry => { if (!map.has(idOf(entry))) map.set(idOf(entry), entry); });
+    return map;
+  };
+  const [baseById, oursById, theirsById] = [byId(base), byId(ours), byId(theirs)];
+
+  // Our order, with their additions after the nearest entry preceding them on their side
+  const order = [...oursById.keys()];
+  const theirIds = [...theirsById.keys()];
+  theirIds.forEach((id, index) => {
+    if (order.includes(id)) return;
+    const previous = theirIds.slice(0, index).reverse().find(candidate => order.includes(candidate));
+    order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, id);
+  });
+
+  const entries: T[] = [];
+  const conflicts: MergeConflict[] = [];
+  for (const id of order) {
+    const merged = mergeValue(baseById.get(id), oursById.get(id), theirsById.get(id), '');
+    if (merged.conflicts.length > 0) {
+      conflicts.push({
+        section,
+        id,
+        fields: merged.conflicts.filter(Boolean),
+        position: entries.length,
+        ...(baseById.has(id) && { base: baseById.get(id) }),
+        ...(merged.ours !== undefined && { ours: merged.ours }),
+        ...(merged.theirs !== undefined && { theirs: merged.theirs }),
+      });
+    }
+    if (merged.ours !== undefined) entries.push(merged.ours as T);
+  }
+  return { entries, conflicts };
+}
+
+function mergeValue(base: unknown, ours: unknown, theirs: unknown, path: string): MergedValue {
+  if (deepEqual(ours, theirs)) return { ours, theirs: ours, conflicts: [] };
+  if (deepEqual(base, ours)) return { ours: theirs, theirs, conflicts: [] };
+  if (deepEqual(base, theirs)) return { ours, theirs: ours, conflicts: [] };
+
+  // Records changed on both sides merge key by key; lists and scalars conflict as a whole
+  if (isRecord(ours) && isRecord(theirs) && (base === undefined || isRecord(base))) {
+    const keys = [...new Set([...Object.keys(ours), ...Object.keys(theirs)])];
+    const merged: MergedValue = { ours: {}, theirs: {}, conflicts: [] };
+    for (const key of keys) {
+      const field = mergeValue(base?.[key], ours[key], theirs[key], path ? `${path}.${key}` : key);
+      if (field.ours !== undefined) (merged.ours as Record<string, unknown>)[key] = field.ours;
+      if (field.theirs !== undefined) (merged.theirs as Record<string, unknown>)[key] = field.theirs;
+      merged.conflicts.push(...field.conflicts);
+    }
+    return merged;
+  }
+  return { ours, theirs, conflicts: [path] };
+}
+
+// One list entry, indented under its section key
+function entryLines(entry: unknown): string[] {
+  return dumpLines([compact(entry)]).map(line => `  ${line}`);
+}
+
+function dumpLines(value: unknown): string[] {
+  return yaml.dump(value, { indent: 2, lineWidth: -1, noRefs: true }).trimEnd().split('\n');
+}
+
+function compactCard(card: YCard): unknown {
+  return { ...card, people: card.people.map(compact) };
+}
+
+// Leave out job defaults (no dotted lines, not primary) and put the role first
+function compact(entry: unknown): unknown {
+  if (!isRecord(entry) || !Array.isArray(entry.jobs)) return entry;
+  const jobs = (entry.jobs as Job[]).map(({ role, dotted, primary, ...job }) => ({
+    ...(role !== undefined && { role }),
+    ...job,
+    ...(dotted.length > 0 && { dotted }),
+    ...(primary && { primary }),
+  }));
+  return { ...entry, jobs };
+}
@@ -0,0 +1,223 @@
+import type { YCardPath } from './source-map';
+import { defaultAliasRegistry } from './aliases';
+import { resolvePhoneType } from './phone';
+import { countryCodeFor, isCountryCode } from './countries';
+
+// Format version written by this release; documents without `ycard_version` are version 1
+//   2: phone types restricted to work, mobile, home, fax and pager (plus aliases)
+//   3: address countries are ISO 3166-1 alpha-2 codes
+//   4: email entries are { address, type, pref } objects (Person.email is Email[])
+export const CURRENT_YCARD_VERSION = 4;
+
+// A raw (not yet validated) yCard document
+export type YCardDocument = Record<string, unknown>;
+
+// One change made by a migration step, e.g. a renamed or converted field
+export interface MigrationChange {
+  path: YCardPath;
+  message: string;
+}
+
+/**
+ * Upgrade from `from` to `from + 1`. `migrate` must be pure: it returns a new document
+ * (sharing unchanged subtrees is fine) and never mutates its input.
+ */
+export interface MigrationStep {
+  from: number;
+  description: string;
+  migrate(document: YCardDocument): { document: YCardDocument; changes: MigrationChange[] };
+}
+
+// Report for one applied step
+export interface AppliedMigration {
+  from: number;
+  to: number;
+  description: string;
+  changes: MigrationChange[];
+}
+
+export interface MigrationResult {
+  document: YCardDocument;
+  fromVersion: number;
+  toVersion: number;
+  steps: AppliedMigration[];
+}
+
+/**
+ * Thrown when a document cannot be migrated (invalid or unsupported version, missing step)
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Version of a raw document: its `ycard_version`, or 1 when absent
+ */
+export function documentVersion(input: unknown): number {
+  const version = isDocument(input) ? input.ycard_version : undefined;
+  if (version === undefined) return 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new MigrationError(`Invalid ycard_version ${JSON.stringify(version)} (expected a positive integer)`);
+  }
+  return version;
+}
+
+/**
+ * Ordered set of migration steps, one per version, up to `currentVersion`
+ */
+export class MigrationRegistry {
+  private steps = new Map<number, MigrationStep>();
+
+  constructor(readonly currentVersion: number = CURRENT_YCARD_VERSION) {}
+
+  register(step: MigrationStep): this {
+    if (step.from < 1 || step.from >= this.currentVersion) {
+      throw new MigrationError(`Migration from version ${step.from} is outside 1..${this.currentVersion - 1}`);
+    }
+    if (this.steps.has(step.from)) {
+      throw new MigrationError(`A migration from version ${step.from} is already registered`);
+    }
+    this.steps.set(step.from, step);
+    return this;
+  }
+
+  /**
+   * Upgrade a raw document step by step to `targetVersion` (defaults to the current version).
+   * Documents already at the target are returned unchanged; upgraded documents get `ycard_version`.
+   */
+  migrate(input: unknown, targetVersion: number = this.currentVersion): MigrationResult {
+    if (!isDocument(input)) {
+      throw new MigrationError('A yCard document must be a mapping');
+    }
+    const fromVersion = documentVersion(input);
+    if (fromVersion > this.currentVersion) {
+      throw new MigrationError(
+        `Document is yCard version ${fromVersion}; this release supports up to version ${this.currentVersion}`
+      );
+    }
+    if (targetVersion < fromVersion || targetVersion > this.currentVersion) {
+      throw new MigrationError(`Cannot migrate from version ${fromVersion} to version ${targetVersion}`);
+    }
+
+    let document = input;
+    const steps: AppliedMigration[] = [];
+    for (let version = fromVersion; version < targetVersion; version++) {
+      const step = this.steps.get(version);
+      if (!step) {
+        throw new MigrationError(`No migration registered from version ${version}`);
+      }
+      const result = step.migrate(document);
+      document = result.document;
+      steps.push({ from: version, to: version + 1, description: step.description, changes: result.changes });
+    }
+
+    if (steps.length > 0) {
+      const rest = { ...document };
+      delete rest.ycard_version;
+      document = { ycard_version: targetVersion, ...rest };
+    }
+    return { document, fromVersion, toVersion: targetVersion, steps };
+  }
+}
+
+// v1 → v2: free-form phone types become `work` (types and their aliases are kept)
+const restrictPhoneTypes: MigrationStep = {
+  from: 1,
+  description: 'Restrict phone types to work, mobile, home, fax and pager',
+  migrate: document => {
+    const changes: MigrationChange[] = [];
+    const phoneKeys = defaultAliasRegistry.keysFor('person', 'phone');
+
+    const people = mapPeople(document, (person, index) => {
+      const updated = { ...person };
+      for (const key of phoneKeys) {
+        const phones = person[key];
+        if (!Array.isArray(phones)) continue;
+        updated[key] = phones.map((phone: unknown, phoneIndex: number) => {
+          if (!isDocument(phone) || typeof phone.type !== 'string' || resolvePhoneType(phone.type)) return phone;
+          changes.push({ path: ['people', index, key, phoneIndex, 'type'], message: `unknown phone type '${phone.type}' replaced by work` });
+          return { ...phone, type: 'work' };
+        });
+      }
+      return updated;
+    });
+
+    return { document: { ...document, people }, changes };
+  },
+};
+
+// v2 → v3: address countries written as alpha-3 codes or English names become alpha-2 codes
+const isoCountryCodes: MigrationStep = {
+  from: 2,
+  description: 'Convert address countries to ISO 3166-1 alpha-2 codes',
+  migrate: document => {
+    const changes: MigrationChange[] = [];
+    const addressKeys = defaultAliasRegistry.keysFor('person', 'address');
+
+    const people = mapPeople(document, (person, index) => {
+      const updated = { ...person };
+      for (const key of addressKeys) {
+        const value = person[key];
+        const convert = (address: unknown, path: YCardPath): unknown => {
+          if (!isDocument(address) || typeof address.country !== 'string' || isCountryCode(address.country)) return address;
+          const code = countryCodeFor(address.country);
+          if (!code) return address;
+          changes.push({ path: [...path, 'country'], message: `country '${address.country}' replaced by ${code}` });
+          return { ...address, country: code };
+        };
+        if (Array.isArray(value)) {
+          updated[key] = value.map((address, addressIndex) => convert(address, ['people', index, key, addressIndex]));
+        } else if (value !== undefined) {
+          updated[key] = convert(value, ['people', index, key]);
+        }
+      }
+      return updated;
+    });
+
+    return { document: { ...document, people }, changes };
+  },
+};
+
+// v3 → v4: bare email addresses become { address } objects in a list (type and pref are optional;
+// the first address stays the preferred one)
+const emailObjects: MigrationStep = {
+  from: 3,
+  description: 'Write email addresses as objects with address, type and pref',
+  migrate: document => {
+    const changes: MigrationChange[] = [];
+    const emailKeys = defaultAliasRegistry.keysFor('person', 'email');
+
+    const people = mapPeople(document, (person, index) => {
+      const updated = { ...person };
+      for (const key of emailKeys) {
+        const value = person[key];
+        if (value === undefined || (Array.isArray(value) && !value.some(entry => typeof entry === 'string'))) continue;
+        updated[key] = (Array.isArray(value) ? value : [value]).map((entry: unknown) => typeof entry === 'string' ? { address: entry } : entry);
+        changes.push({ path: ['people', index, key], message: 'email addresses written as a list of { address } objects' });
+      }
+      return updated;
+    });
+
+    return { document: { ...document, people }, changes };
+  },
+};
+
+// Migrations shipped with this release
+export const defaultMigrations = new MigrationRegistry()
+  .register(restrictPhoneTypes)
+  .register(isoCountryCodes)
+  .register(emailObjects);
+
+// Map each person mapping in `people`, leaving anything else as it is
+function mapPeople(document: YCardDocument, update: (person: YCardDocument, index: number) => YCardDocument): unknown {
+  return Array.isArray(document.people)
+    ? document.people.map((person: unknown, index: number) => isDocument(person) ? update(person, index) : person)
+    : document.people;
+}
+
+function isDocument(value: unknown): value is YCardDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,14 +1,33 @@
 #!/usr/bin/env node
 
 import { readFileSync, writeFileSync } from 'fs';
-import { parseYCard, stringifyYCard, yCardToVCard, stringifyVCard, vCardToYCard, parseVCard } from './index';
+import { dirname } from 'path';
+import * as yaml from 'js-yaml';
+import { parseYCard, stringifyYCard, yCardToVCard, stringifyVCard, vCardToYCard, parseVCard, VCARD_VERSIONS, parseJCard, stringifyJCard, parseXCard, stringifyXCard, parseLDIF, ldifToYCard, yCardToLDIF, YCardParseError, formatLocatedError, createAliasRegistry, loadAliasPackFile, formatYCard, updateYCard, defaultMigrations, CURRENT_YCARD_VERSION, orgChartToDot, orgChartToMermaid, orgChartToSvg, fteReport, validateFte, formatFte, diffYCard, formatYCardDiff, mergeYCard, stringifyMergeResult, queryYCard, QueryError, findDuplicates, mergeDuplicates, lintYCard, loadLintConfig, findLintConfig, type AliasConflictMode, type VCardVersion, type VCardExportOptions, type LdifExportOptions, type DiffFormat, type FteGroup, type OrgChartOptions } from './index';
+import { YCardParser } from '../parser';
+import { phoneRegion } from '../phone';
 
 const args = process.argv.slice(2);
 
 if (args.length < 2) {
   console.error('Usage:');
-  console.error('  ycard export --input <file> --format <vcard|csv|ldif> [--output <file>]');
-  console.error('  ycard import --input <file> --format <vcard> [--output <file>]');
+  console.error('  ycard export --input <file> --format <vcard|jcard|xcard|csv> [--vcard-version <2.1|3.0|4.0>] [--vcard-jobs <cards|altid>] [--output <file>]');
+  console.error('  ycard export --input <file> --format ldif [--base-dn <dn>] [--object-class <class[,class...]>] [--attribute-map <attribute=attribute[,...]>] [--dn-by-ou] [--output <file>]');
+  console.error('  ycard export --input <file> --format <dot|mermaid|svg> [--root <uid>] [--depth <n>] [--group-by org_unit] [--lang <code>] [--output <file>]');
+  console.error('  ycard import --input <file> --format <vcard|jcard|xcard|ldif> [--default-region <code>] [--output <file>]');
+  console.error('  ycard validate --input <file>');
+  console.error('  ycard lint --input <file> [--config <.ycardlint>]');
+  console.error('  ycard fmt --input <file> [--check | --write | --output <file>] [--locale <lang>] [--keep-aliases]');
+  console.error('  ycard migrate --input <file> [--to <version>] [--write | --output <file>]');
+  console.error('  ycard report fte --input <file> [--format <text|csv|json>] [--output <file>]');
+  console.error('  ycard diff <before.yaml> <after.yaml> [--format <text|markdown|json>] [--exit-code] [--output <file>]');
+  console.error('  ycard merge <base.yaml> <ours.yaml> <theirs.yaml> [--output <file>]');
+  console.error('  ycard query \'<expression>\' --input <file> [--format <table|yaml|json|csv>] [--output <file>]');
+  console.error('  ycard dedupe --input <file> [--threshold <0-1>] [--format <text|json>]');
+  console.error('  ycard dedupe --input <file> --merge <keep:drop[,keep:drop...]> [--write | --output <file>]');
+  console.error('Options:');
+  console.error('  --aliases <file[,file...]>  Alias packs to accept in addition to the built-in aliases');
+  console.error('  --alias-conflicts <strict|lenient|off>  How to treat keys holding different values for one field (default: lenient)');
   process.exit(1);
 }
 
@@ -16,43 +35,116 @@ const command = args[0];
 const inputIndex = args.indexOf('--input');
 const formatIndex = args.indexOf('--format');
 const outputIndex = args.indexOf('--output');
+const aliasesIndex = args.indexOf('--aliases');
+const aliasConflictsIndex = args.indexOf('--alias-conflicts');
 
-if (inputIndex === -1 || formatIndex === -1) {
+if (!['diff', 'merge'].includes(command) && (inputIndex === -1 || (formatIndex === -1 && !['validate', 'lint', 'fmt', 'migrate', 'report', 'query', 'dedupe'].includes(command)))) {
   console.error('Missing required --input or --format arguments');
   process.exit(1);
 }
 
 const inputFile = args[inputIndex + 1];
-const format = args[formatIndex + 1];
+let sourceFile = inputFile; // File named in parse errors
+const format = formatIndex !== -1 ? args[formatIndex + 1] : '';
 const outputFile = outputIndex !== -1 ? args[outputIndex + 1] : null;
+const aliasPackFiles = aliasesIndex !== -1 ? args[aliasesIndex + 1].split(',') : [];
+const aliasConflicts = (aliasConflictsIndex !== -1 ? args[aliasConflictsIndex + 1] : 'lenient') as AliasConflictMode;
+
+if (!['strict', 'lenient', 'off'].includes(aliasConflicts)) {
+  console.error(`Invalid --alias-conflicts mode: ${aliasConflicts} (expected strict, lenient or off)`);
+  process.exit(1);
+}
+
+// Org chart options: --root <uid>, --depth <n>, --group-by org_unit, --lang <code>
+function orgChartOptions(): OrgChartOptions {
+  const value = (flag: string) => args.indexOf(flag) !== -1 ? args[args.indexOf(flag) + 1] : undefined;
+  const depth = value('--depth');
+  const groupBy = value('--group-by');
+  if (depth !== undefined && !/^\d+$/.test(depth)) {
+    throw new Error(`Invalid --depth: ${depth} (expected a non-negative integer)`);
+  }
+  if (groupBy !== undefined && groupBy !== 'org_unit') {
+    throw new Error(`Invalid --group-by: ${groupBy} (expected org_unit)`);
+  }
+  return {
+    root: value('--root'),
+    depth: depth !== undefined ? Number(depth) : undefined,
+    groupBy,
+    language: value('--lang'),
+  };
+}
+
+// --vcard-jobs for vCard, jCard and xCard exports
+function vCardExportOptions(): VCardExportOptions {
+  const jobs = args.indexOf('--vcard-jobs') !== -1 ? args[args.indexOf('--vcard-jobs') + 1] : 'cards';
+  if (jobs !== 'cards' && jobs !== 'altid') {
+    throw new Error(`Invalid --vcard-jobs: ${jobs} (expected cards or altid)`);
+  }
+  return { jobs };
+}
+
+// --object-class, --attribute-map and --dn-by-ou for LDIF exports
+function ldifExportOptions(): LdifExportOptions {
+  const value = (flag: string) => args.indexOf(flag) !== -1 ? args[args.indexOf(flag) + 1] : undefined;
+  const objectClasses = value('--object-class')?.split(',').map(objectClass => objectClass.trim()).filter(Boolean);
+  const attributes: Record<string, string> = {};
+  value('--attribute-map')?.split(',').forEach(pair => {
+    const match = /^\s*([\w-]+)\s*=\s*([\w-]*)\s*$/.exec(pair);
+    if (!match) throw new Error(`Invalid --attribute-map entry: ${pair} (expected attribute=attribute, e.g. uid=sAMAccountName)`);
+    attributes[match[1]] = match[2];
+  });
+  return { objectClasses, attributes, dnByUnit: args.includes('--dn-by-ou') };
+}
 
 try {
+  const registry = aliasPackFiles.length > 0
+    ? createAliasRegistry(aliasPackFiles.map(loadAliasPackFile))
+    : undefined;
+
   if (command === 'export') {
     // Read yCard file
     const yamlContent = readFileSync(inputFile, 'utf8');
-    const org = parseYCard(yamlContent);
+    const org = parseYCard(yamlContent, { registry, aliasConflicts });
 
     let output: string;
 
     switch (format.toLowerCase()) {
       case 'vcard': {
-        const cards = yCardToVCard(org);
-        output = stringifyVCard(cards);
+        const versionIndex = args.indexOf('--vcard-version');
+        const version = versionIndex !== -1 ? args[versionIndex + 1] : '4.0';
+        if (!(VCARD_VERSIONS as readonly string[]).includes(version)) {
+          console.error(`Invalid --vcard-version: ${version} (expected ${VCARD_VERSIONS.join(', ')})`);
+          process.exit(1);
+        }
+        output = stringifyVCard(yCardToVCard(org, vCardExportOptions()), { version: version as VCardVersion });
         break;
       }
+      case 'jcard':
+        output = stringifyJCard(yCardToVCard(org, vCardExportOptions()));
+        break;
+      case 'xcard':
+        output = stringifyXCard(yCardToVCard(org, vCardExportOptions()));
+        break;
       case 'csv': {
         const { yCardToCSV } = require('./utils');
         output = yCardToCSV(org);
         break;
       }
       case 'ldif': {
-        const { yCardToLDIF } = require('./utils');
-        output = yCardToLDIF(org, 'dc=example,dc=com');
+        const baseDnIndex = args.indexOf('--base-dn');
+        output = yCardToLDIF(org, baseDnIndex !== -1 ? args[baseDnIndex + 1] : 'dc=example,dc=com', ldifExportOptions());
+        break;
+      }
+      case 'dot':
+      case 'mermaid':
+      case 'svg': {
+        const render = { dot: orgChartToDot, mermaid: orgChartToMermaid, svg: orgChartToSvg }[format.toLowerCase() as 'dot' | 'mermaid' | 'svg'];
+        output = render(org, orgChartOptions());
         break;
       }
       default:
         console.error(`Unsupported export format: ${format}`);
-        console.error('Supported formats: vcard, csv, ldif');
+        console.error('Supported formats: vcard, jcard, xcard, csv, ldif, dot, mermaid, svg');
         process.exit(1);
     }
 
@@ -64,15 +156,33 @@ try {
     }
 
   } else if (command === 'import') {
-    if (format.toLowerCase() !== 'vcard') {
-      console.error('Import only supports vcard format');
+    const importers = {
+      vcard: (content: string) => vCardToYCard(parseVCard(content)),
+      jcard: (content: string) => vCardToYCard(parseJCard(content)),
+      xcard: (content: string) => vCardToYCard(parseXCard(content)),
+      ldif: (content: string) => ldifToYCard(parseLDIF(content)),
+    };
+    const importer = importers[format.toLowerCase() as keyof typeof importers];
+    if (!importer) {
+      console.error(`Unsupported import format: ${format}`);
+      console.error('Supported formats: vcard, jcard, xcard, ldif');
       process.exit(1);
     }
 
-    // Read vCard file
-    const vcfContent = readFileSync(inputFile, 'utf8');
-    const cards = parseVCard(vcfContent);
-    const org = vCardToYCard(cards);
+    // Read vCard, jCard, xCard or LDIF file; --default-region is written as default_region for
+    // phone numbers without a country code (and without an address country)
+    const org = importer(readFileSync(inputFile, 'utf8'));
+    const regionIndex = args.indexOf('--default-region');
+    if (regionIndex !== -1) {
+      const region = args[regionIndex + 1] ?? '';
+      if (!phoneRegion(region)) {
+        console.error(`Invalid --default-region: ${region} (expected an ISO 3166-1 alpha-2 code such as US)`);
+        process.exit(1);
+      }
+      org.default_region = region.toUpperCase();
+    } else if (org.people.some(person => person.phone?.some(phone => !phone.number.startsWith('+')))) {
+      console.error('Some phone numbers could not be normalized to +<country code> form: pass --default-region <code> for national numbers');
+    }
     const output = stringifyYCard(org);
 
     if (outputFile) {
@@ -82,13 +192,319 @@ try {
       console.log(output);
     }
 
+  } else if (command === 'validate') {
+    // Schema validation and alias conflict analysis, followed by cross-record reference checks
+    const yamlContent = readFileSync(inputFile, 'utf8');
+    const parser = new YCardParser({ registry, aliasConflicts });
+    const result = parser.parseWithSourceMap(yamlContent);
+    if (!result.success) {
+      throw new YCardParseError(parser.getLocatedErrors(result.errors, result.sourceMap));
+    }
+    const org = result.data;
+    const issues = parser.getLocatedIssues([...result.warnings, ...parser.validateReferences(org)], result.sourceMap);
+
+    issues.forEach(issue => console.error(`${inputFile}:${formatLocatedError(issue)} [${issue.severity} ${issue.code}]`));
+    if (issues.some(issue => issue.severity === 'error')) {
+      process.exit(1);
+    }
+    console.log(`${inputFile}: valid (${org.people.length} people)`);
+
+  } else if (command === 'lint') {
+    // Policy rules from the nearest .ycardlint (or --config) on top of schema validation
+    const yamlContent = readFileSync(inputFile, 'utf8');
+    const parser = new YCardParser({ registry, aliasConflicts });
+    const result = parser.parseWithSourceMap(yamlContent);
+    if (!result.success) {
+      throw new YCardParseError(parser.getLocatedErrors(result.errors, result.sourceMap));
+    }
+    const configIndex = args.indexOf('--config');
+    const configFile = configIndex !== -1 ? args[configIndex + 1] : findLintConfig(dirname(inputFile));
+    const config = configFile ? loadLintConfig(configFile) : {};
+    const issues = parser.getLocatedIssues(lintYCard(result.data, config, yamlContent, registry), result.sourceMap)
+      .sort((a, b) => a.range.start.offset - b.range.start.offset);
+
+    issues.forEach(issue => console.error(`${inputFile}:${formatLocatedError(issue)} [${issue.severity} ${issue.code}]`));
+    if (issues.some(issue => issue.severity === 'error')) {
+      process.exit(1);
+    }
+    console.log(`${inputFile}: ${issues.length === 0 ? 'no lint problems' : `${issues.length} warning${issues.length === 1 ? '' : 's'}`}`);
+
+  } else if (command === 'fmt') {
+    // Comment-preserving formatting; --check exits 1 when the file is not formatted
+    const yamlContent = readFileSync(inputFile, 'utf8');
+    const localeIndex = args.indexOf('--locale');
+    const formatted = formatYCard(yamlContent, {
+      registry,
+      aliases: args.includes('--keep-aliases') ? 'preserve' : 'canonical',
+      locale: localeIndex !== -1 ? args[localeIndex + 1] : undefined
+    });
+
+    if (args.includes('--check')) {
+      if (formatted !== yamlContent) {
+        console.error(`${inputFile}: not formatted (run ycard fmt --input ${inputFile} --write)`);
+        process.exit(1);
+      }
+      console.log(`${inputFile}: formatted`);
+    } else if (args.includes('--write') || outputFile) {
+      writeFileSync(outputFile ?? inputFile, formatted, 'utf8');
+      console.log(`Formatted ${outputFile ?? inputFile}`);
+    } else {
+      process.stdout.write(formatted);
+    }
+
+  } else if (command === 'migrate') {
+    // Upgrade an older document step by step; the change report goes to stderr
+    const toIndex = args.indexOf('--to');
+    const to = toIndex !== -1 ? args[toIndex + 1] ?? '' : undefined;
+    if (to !== undefined && (!/^\d+$/.test(to) || Number(to) < 1 || Number(to) > CURRENT_YCARD_VERSION)) {
+      console.error(`Invalid --to version: ${to} (expected an integer from 1 to ${CURRENT_YCARD_VERSION})`);
+      process.exit(1);
+    }
+    const yamlContent = readFileSync(inputFile, 'utf8');
+    const result = defaultMigrations.migrate(yaml.load(yamlContent), to !== undefined ? Number(to) : undefined);
+
+    if (result.steps.length === 0) {
+      console.error(`${inputFile}: already at yCard version ${result.toVersion}`);
+      process.exit(0);
+    }
+    result.steps.forEach(step => {
+      console.error(`v${step.from} → v${step.to}: ${step.description}`);
+      step.changes.forEach(change => console.error(`  ${change.path.join('.')}: ${change.message}`));
+    });
+
+    // Only the migrated values change; comments and the rest of the layout are kept
+    const output = updateYCard(yamlContent, result.document, { registry });
+    if (args.includes('--write') || outputFile) {
+      writeFileSync(outputFile ?? inputFile, output, 'utf8');
+      console.error(`Migrated ${outputFile ?? inputFile} to yCard version ${result.toVersion}`);
+    } else {
+      process.stdout.write(output);
+    }
+
+  } else if (command === 'report') {
+    // Headcount and FTE per org unit, org and manager; allocation problems are reported on stderr
+    if (args[1] !== 'fte') {
+      console.error(`Unknown report: ${args[1]} (supported reports: fte)`);
+      process.exit(1);
+    }
+    const org = parseYCard(readFileSync(inputFile, 'utf8'), { registry, aliasConflicts });
+    validateFte(org).forEach(issue => console.error(`${inputFile}: ${issue.path.join('.')}: ${issue.message} [${issue.severity} ${issue.code}]`));
+    const report = fteReport(org);
+
+    let output: string;
+    switch ((format || 'text').toLowerCase()) {
+      case 'text': {
+        const section = (title: string, groups: FteGroup[]) => [
+          title,
+          ...groups.map(group => `  ${group.name.padEnd(32)} ${String(group.headcount).padStart(5)} ${formatFte(group.fte).padStart(7)}`),
+        ];
+        output = [
+          `${''.padEnd(34)} ${'Heads'.padStart(5)} ${'FTE'.padStart(7)}`,
+          ...section('By org unit', report.byUnit),
+          ...section('By org', report.byOrg),
+          ...section('By manager', report.byManager),
+          `${'Total'.padEnd(34)} ${String(report.total.headcount).padStart(5)} ${formatFte(report.total.fte).padStart(7)}`,
+        ].join('\n') + '\n';
+        break;
+      }
+      case 'csv': {
+        const rows = [['Group', 'Key', 'Name', 'Headcount', 'FTE']];
+        const groups: [string, FteGroup[]][] = [['org_unit', report.byUnit], ['org', report.byOrg], ['manager', report.byManager]];
+        groups.forEach(([kind, entries]) => entries.forEach(group => {
+          rows.push([kind, group.key ?? '', group.name, String(group.headcount), formatFte(group.fte)]);
+        }));
+        rows.push(['total', '', '', String(report.total.headcount), formatFte(report.total.fte)]);
+        output = rows.map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(',')).join('\n') + '\n';
+        break;
+      }
+      case 'json':
+        output = JSON.stringify(report, null, 2) + '\n';
+        break;
+      default:
+        console.error(`Unsupported report format: ${format}`);
+        console.error('Supported formats: text, csv, json');
+        process.exit(1);
+    }
+
+    if (outputFile) {
+      writeFileSync(outputFile, output, 'utf8');
+      console.error(`Report written to ${outputFile}`);
+    } else {
+      process.stdout.write(output);
+    }
+
+  } else if (command === 'diff') {
+    // Org changes between two versions of a document; --exit-code exits 1 when there are any
+    const [beforeFile, afterFile] = [args[1], args[2]];
+    if (!afterFile || afterFile.startsWith('--')) {
+      console.error('Usage: ycard diff <before.yaml> <after.yaml> [--format <text|markdown|json>]');
+      process.exit(1);
+    }
+    const diffFormat = (format || 'text').toLowerCase();
+    if (!['text', 'markdown', 'json'].includes(diffFormat)) {
+      console.error(`Unsupported diff format: ${format}`);
+      console.error('Supported formats: text, markdown, json');
+      process.exit(1);
+    }
+    const load = (file: string) => {
+      sourceFile = file;
+      return parseYCard(readFileSync(file, 'utf8'), { registry, aliasConflicts });
+    };
+    const changes = diffYCard(load(beforeFile), load(afterFile));
+    const output = formatYCardDiff(changes, diffFormat as DiffFormat);
+
+    if (outputFile) {
+      writeFileSync(outputFile, output, 'utf8');
+      console.error(`Diff written to ${outputFile}`);
+    } else {
+      process.stdout.write(output);
+    }
+    if (args.includes('--exit-code') && changes.length > 0) {
+      process.exit(1);
+    }
+
+  } else if (command === 'merge') {
+    // Three-way merge by uid and field; usable as a git merge driver (`ycard merge %O %A %B --output %A`)
+    const [baseFile, oursFile, theirsFile] = [args[1], args[2], args[3]];
+    if (!theirsFile || theirsFile.startsWith('--')) {
+      console.error('Usage: ycard merge <base.yaml> <ours.yaml> <theirs.yaml> [--output <file>]');
+      process.exit(1);
+    }
+    const load = (file: string) => {
+      sourceFile = file;
+      const content = readFileSync(file, 'utf8');
+      // git passes an empty base when both sides added the file
+      return content.trim() === '' ? { people: [] } : parseYCard(content, { registry, aliasConflicts });
+    };
+    const ours = load(oursFile);
+    const result = mergeYCard(load(baseFile), ours, load(theirsFile));
+    // A clean merge keeps our file's comments and alias keys outside the merged changes
+    const output = stringifyMergeResult(result, {}, { text: readFileSync(oursFile, 'utf8'), card: ours, registry });
+
+    if (outputFile) {
+      writeFileSync(outputFile, output, 'utf8');
+    } else {
+      process.stdout.write(output);
+    }
+    result.conflicts.forEach(conflict => console.error(
+      `${oursFile}: conflict in ${conflict.section === 'document' ? conflict.id : `${conflict.section} ${conflict.id}`}: ` +
+      (conflict.fields.length > 0 ? conflict.fields.join(', ') : 'deleted on one side, changed on the other')
+    ));
+    if (result.conflicts.length > 0) {
+      process.exit(1);
+    }
+
+  } else if (command === 'query') {
+    // People matching an expression, e.g. ycard query 'org_unit == "Engineering" and fte < 1'
+    if (args[1].startsWith('--')) {
+      console.error('Usage: ycard query \'<expression>\' --input <file> [--format <table|yaml|json|csv>]');
+      process.exit(1);
+    }
+    const org = parseYCard(readFileSync(inputFile, 'utf8'), { registry, aliasConflicts });
+    const people = queryYCard(org, args[1]);
+
+    let output: string;
+    switch ((format || 'table').toLowerCase()) {
+      case 'table': {
+        const rows = [['UID', 'Name', 'Title', 'Org unit', 'Manager'], ...people.map(person => [
+          person.uid,
+          [person.name, person.surname].filter(Boolean).join(' '),
+          person.title ?? '',
+          person.org_unit ?? '',
+          person.manager ?? '',
+        ])];
+        const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+        output = rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n') + '\n';
+        break;
+      }
+      case 'yaml':
+        output = yaml.dump({ people }, { indent: 2, lineWidth: -1, noRefs: true });
+        break;
+      case 'json':
+        output = JSON.stringify(people, null, 2) + '\n';
+        break;
+      case 'csv': {
+        const { yCardToCSV } = require('./utils');
+        output = yCardToCSV({ people }) + '\n';
+        break;
+      }
+      default:
+        console.error(`Unsupported query format: ${format}`);
+        console.error('Supported formats: table, yaml, json, csv');
+        process.exit(1);
+    }
+
+    if (outputFile) {
+      writeFileSync(outputFile, output, 'utf8');
+      console.error(`${people.length} people written to ${outputFile}`);
+    } else {
+      process.stdout.write(output);
+    }
+
+  } else if (command === 'dedupe') {
+    // List likely duplicate people, or merge pairs confirmed with --merge keep:drop
+    const yamlContent = readFileSync(inputFile, 'utf8');
+    const org = parseYCard(yamlContent, { registry, aliasConflicts });
+    const mergeIndex = args.indexOf('--merge');
+
+    if (mergeIndex !== -1) {
+      const pairs = args[mergeIndex + 1].split(',').map(pair => {
+        const [keep, drop] = pair.split(':');
+        if (!keep || !drop) throw new Error(`Invalid --merge pair: ${pair} (expected keep:drop)`);
+        return { keep, drop };
+      });
+      const output = stringifyMergeResult({ card: mergeDuplicates(org, pairs), conflicts: [] }, {}, { text: yamlContent, card: org, registry });
+      if (args.includes('--write') || outputFile) {
+        writeFileSync(outputFile ?? inputFile, output, 'utf8');
+        console.error(`Merged ${pairs.length} duplicate${pairs.length === 1 ? '' : 's'} into ${outputFile ?? inputFile}`);
+      } else {
+        process.stdout.write(output);
+      }
+      process.exit(0);
+    }
+
+    const thresholdIndex = args.indexOf('--threshold');
+    const threshold = thresholdIndex !== -1 ? Number(args[thresholdIndex + 1]) : undefined;
+    if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+      throw new Error(`Invalid --threshold: ${args[thresholdIndex + 1]} (expected a number from 0 to 1)`);
+    }
+    const candidates = findDuplicates(org, { threshold });
+
+    if ((format || 'text').toLowerCase() === 'json') {
+      process.stdout.write(JSON.stringify(candidates, null, 2) + '\n');
+    } else if ((format || 'text').toLowerCase() === 'text') {
+      candidates.forEach(candidate => {
+        console.log(`${candidate.score.toFixed(2)}  ${candidate.uids[0]} / ${candidate.uids[1]}`);
+        candidate.reasons.forEach(reason => console.log(`  ${reason.weight < 0 ? '-' : '+'} ${reason.message}`));
+      });
+      if (candidates.length > 0) {
+        console.error(`Merge confirmed pairs with: ycard dedupe --input ${inputFile} --merge keep:drop --write`);
+      }
+    } else {
+      console.error(`Unsupported dedupe format: ${format}`);
+      console.error('Supported formats: text, json');
+      process.exit(1);
+    }
+
   } else {
     console.error(`Unknown command: ${command}`);
-    console.error('Supported commands: export, import');
+    console.error('Supported commands: export, import, validate, lint, fmt, migrate, report, diff, merge, query, dedupe');
     process.exit(1);
   }
 
 } catch (error) {
+  if (error instanceof YCardParseError) {
+    // Report each issue as file:line:column so editors and terminals can jump to it
+    error.issues.forEach(issue => console.error(`${sourceFile}:${formatLocatedError(issue)}`));
+    process.exit(1);
+  }
+  if (error instanceof QueryError) {
+    // Point at the offending part of the expression
+    console.error(`Invalid query: ${error.message}`);
+    console.error(`  ${args[1]}`);
+    console.error(`  ${' '.repeat(error.position)}^`);
+    process.exit(1);
+  }
   console.error('Error:', error instanceof Error ? error.message : String(error));
   process.exit(1);
 }
@@ -1,5 +1,26 @@
-import { Person, YCard, Job } from './types';
-import { VCard } from './parsers/vcard';
+import { Person, YCard, Job, Phone } from './types';
+import { VCard, VCardProperty, addVCardProperty, escapeVCardValue } from './parsers/vcard';
+import { resolvePhoneType, normalizePhoneNumber, phoneRegion, phoneTelUri, type PhoneType } from '../phone';
+import { EMAIL_TYPES, type Email, type EmailType } from '../email';
+import { formatAddress, type Address, type AddressType } from '../address';
+import { countryCodeFor } from '../countries';
+import { findOrg, findUnit, localizedName } from '../org-units';
+
+// vCard TYPE for each phone type (RFC 6350 calls mobile phones `cell`)
+const VCARD_PHONE_TYPES: Record<PhoneType, string> = {
+  work: 'work',
+  mobile: 'cell',
+  home: 'home',
+  fax: 'fax',
+  pager: 'pager'
+};
+
+// vCard TYPE for each address type (mailing addresses are `postal` in vCard 3.0 and common exports)
+const VCARD_ADDRESS_TYPES: Record<AddressType, string> = {
+  work: 'work',
+  home: 'home',
+  mailing: 'postal'
+};
 
 /**
  * Convert a YCardPerson to a VCard
@@ -48,85 +69,137 @@ export function yCardPersonToVCard(person: Person, orgName?: string): VCard {
     }
   }
 
-  // Email addresses
+  // Email addresses: the preferred one gets PREF=1
   if (person.email) {
-    card.email = [];
-    const emails = Array.isArray(person.email) ? person.email : [person.email];
-    emails.forEach((email: string, index: number) => {
-      card.email!.push({
-        value: email,
-        type: index === 0 ? 'work' : undefined
-      });
-    });
+    card.email = person.email.map((email: Email) => ({
+      value: email.address,
+      type: email.type,
+      pref: email.pref ? 1 : undefined
+    }));
   }
 
-  // Phone numbers
+  // Phone numbers: E.164 numbers as tel: URIs, anything else as text; preferred ones get PREF=1
   if (person.phone) {
-    card.tel = [];
-    person.phone.forEach((phone: any) => {
-      const phoneObj = typeof phone === 'string' ? { number: phone, type: 'work' } : phone;
-      card.tel!.push({
-        value: phoneObj.number,
-        type: phoneObj.type
-      });
-    });
+    card.tel = person.phone.map((phone: Phone) => ({
+      ...(/^\+\d+$/.test(phone.number)
+        ? { value: phoneTelUri(phone), type: VCARD_PHONE_TYPES[phone.type], valueType: 'uri' }
+        : { value: phone.number, type: VCARD_PHONE_TYPES[phone.type] }),
+      ...(phone.pref && { pref: 1 })
+    }));
   }
 
-  // Address
+  // Addresses, with the formatted address in LABEL
   if (person.address) {
-    card.adr = [{
-      value: [
-        '', // Post office box
-        '', // Extended address
-        person.address.street || '',
-        person.address.city || '',
-        person.address.state || '',
-        person.address.postal_code || '',
-        person.address.country || ''
-      ],
-      type: 'work'
-    }];
+    card.adr = person.address.map(address => ({
+      value: adrComponents(address),
+      type: VCARD_ADDRESS_TYPES[address.type],
+      label: formatAddress(address).join('\n')
+    }));
   }
 
+  // vCard properties without a yCard field; anchors give EMAIL, TEL and ADR properties their group
+  // and parameters back
+  person.extensions?.vcard?.forEach(extension => {
+    switch (extension.name.toUpperCase()) {
+      case 'EMAIL': {
+        const email = card.email?.find(e => e.value.toLowerCase() === extension.value.toLowerCase());
+        if (email) restoreAnchor(email, extension);
+        break;
+      }
+      case 'TEL': {
+        const index = person.phone?.findIndex(phone => phone.number === extension.value) ?? -1;
+        if (index !== -1 && card.tel) restoreAnchor(card.tel[index], extension);
+        break;
+      }
+      case 'ADR': {
+        const adr = card.adr?.find(a => a.value.map(component => escapeVCardValue(component)).join(';') === extension.value);
+        if (adr) restoreAnchor(adr, extension);
+        break;
+      }
+      default:
+        addVCardProperty(card, extension);
+    }
+  });
+
   return card;
 }
 
+// Drops trailing empty components
+function trimEnd(components: string[]): string[] {
+  const last = components.reduce((end, component, index) => (component ? index + 1 : end), 0);
+  return components.slice(0, last);
+}
+
+// Puts the group, TYPE list, PREF and other parameters an anchor recorded back on its property
+function restoreAnchor(
+  entry: { type?: string; pref?: number; group?: string; parameters?: Record<string, string[]> },
+  anchor: VCardProperty
+): void {
+  const { TYPE, PREF, ...others } = anchor.parameters ?? {};
+  entry.group = anchor.group;
+  if (TYPE) entry.type = TYPE.join(',');
+  if (PREF) entry.pref = Number(PREF[0]);
+  if (Object.keys(others).length > 0) entry.parameters = others;
+}
+
+// Marks the card of one job: the value is the person's uid, the parameters hold the job fields
+// (INDEX on split job cards, ALTID on single-card exports; FTE, PRIMARY, MANAGER and DOTTED)
+const JOB_MARKER = 'X-YCARD-JOB';
+
+export interface VCardExportOptions {
+  // cards (default): one card per person plus one per job, with UID <uid>-job-N;
+  // altid: one card per person, each job as TITLE and ORG properties sharing an ALTID
+  jobs?: 'cards' | 'altid';
+}
+
 /**
  * Convert a complete YCard organization to an array of VCards
  * @param org - The yCard organization to convert
+ * @param options - jobs: how multi-hat jobs are written (separate cards or ALTID properties)
  * @returns Array of VCard objects
  */
-export function yCardToVCard(org: YCard): VCard[] {
+export function yCardToVCard(org: YCard, options: VCardExportOptions = {}): VCard[] {
   const cards: VCard[] = [];
-  const orgName = org.people.find(p => p.org)?.org;
+  // People without an org belong to the document's organization when it defines exactly one
+  const orgName = org.orgs?.length === 1 ? localizedName(org.orgs[0]) : undefined;
+
+  // ORG uses the display names of defined organizations and units
+  const displayNames = (person: Person): Person => {
+    const definedOrg = person.org ? findOrg(org, person.org) : undefined;
+    const definedUnit = person.org_unit ? findUnit(org, person.org_unit) : undefined;
+    return {
+      ...person,
+      org: definedOrg ? localizedName(definedOrg) : person.org ?? orgName,
+      org_unit: definedUnit ? localizedName(definedUnit) : person.org_unit,
+    };
+  };
 
   org.people.forEach(person => {
     // Primary card for the person
-    const primaryCard = yCardPersonToVCard(person, orgName);
+    const primaryCard = yCardPersonToVCard(displayNames(person));
     cards.push(primaryCard);
 
-    // Additional cards for multi-hat jobs
-    if (person.jobs) {
-      for (let index = 0; index < person.jobs.length; index++) {
-        const job: Job = person.jobs[index];
-        if (index === 0 && !person.title) continue; // Skip if already covered by primary
-
-        const jobCard = yCardPersonToVCard({
-          ...person,
-          title: job.role || job.title,
-          org: job.org || person.org,
-          org_unit: job.org_unit || person.org_unit,
-          manager: job.manager || person.manager
-        }, orgName);
-
-        // Add job-specific UID suffix
-        if (jobCard.uid) {
-          jobCard.uid = `${jobCard.uid}-job-${index}`;
-        }
-
-        cards.push(jobCard);
+    // Multi-hat jobs: TITLE and ORG of the job, with the other job fields in the marker
+    (person.jobs ?? []).forEach((job: Job, index) => {
+      const jobCard = yCardPersonToVCard(displayNames({
+        ...person,
+        title: job.role,
+        org: job.org || person.org,
+        org_unit: job.org_unit || person.org_unit,
+        extensions: undefined
+      }));
+
+      if (options.jobs === 'altid') {
+        const altId = `job-${index}`;
+        (primaryCard.jobs ??= []).push({ altId, title: jobCard.title, org: jobCard.org });
+        (primaryCard.extensions ??= []).push(jobMarker(person.uid, job, { ALTID: [altId] }));
+        return;
       }
-    }
+
+      jobCard.uid = `${person.uid}-job-${index}`;
+      jobCard.extensions = [jobMarker(person.uid, job, { INDEX: [String(index)] })];
+      cards.push(jobCard);
+    });
   });
 
   return cards;
@@ -171,49 +244,198 @@ export function vCardToYCardPerson(card: VCard): Person {
     }
   }
 
-  // Email addresses
-  if (card.email && card.email.length > 0) {
-    if (card.email.length === 1) {
-      person.email = card.email[0].value;
-    } else {
-      person.email = card.email.map(e => e.value);
-    }
+  // Jobs written as ALTID properties, with the fields from the marker of the same ALTID
+  const markers = (card.extensions ?? []).filter(extension => extension.name.toUpperCase() === JOB_MARKER);
+  const altIdMarkers = new Set<VCardProperty>();
+  if (card.jobs && card.jobs.length > 0) {
+    person.jobs = card.jobs.map(job => {
+      const marker = markers.find(candidate => candidate.parameters?.ALTID?.[0] === job.altId);
+      if (marker) altIdMarkers.add(marker);
+      return vCardJob(person, job.title ?? job.role, job.org, marker);
+    });
   }
 
-  // Phone numbers
-  if (card.tel && card.tel.length > 0) {
-    person.phone = card.tel.map(t => ({
-      type: t.type || 'work',
-      number: t.value
-    }));
+  // Email addresses: the lowest PREF (or the first address) is preferred
+  if (card.email && card.email.length > 0) {
+    const prefs = card.email.map(e => e.pref ?? Infinity);
+    const preferred = prefs.indexOf(Math.min(...prefs));
+    person.email = card.email.map((e, index): Email => {
+      const type = (e.type ?? '').toLowerCase().split(',').find(t => (EMAIL_TYPES as readonly string[]).includes(t));
+      return { address: e.value, ...(type && { type: type as EmailType }), pref: index === preferred };
+    });
   }
 
-  // Address
-  if (card.adr && card.adr.length > 0) {
-    const adr = card.adr[0];
-    if (adr.value && adr.value.length >= 7) {
-      person.address = {
+  // Addresses (country names are converted to ISO codes where known)
+  const addresses = (card.adr ?? [])
+    .filter(adr => adr.value && adr.value.length >= 7)
+    .map(adr => ({
+      adr,
+      address: {
+        type: vCardAddressType(adr.type),
         street: adr.value[2] || undefined,
         city: adr.value[3] || undefined,
         state: adr.value[4] || undefined,
         postal_code: adr.value[5] || undefined,
-        country: adr.value[6] || undefined
-      };
-    }
+        country: adr.value[6] ? countryCodeFor(adr.value[6]) ?? adr.value[6] : undefined
+      } as Address
+    }));
+  if (addresses.length > 0) {
+    person.address = addresses.map(({ address }) => address);
+  }
+
+  // Phone numbers: TYPE may list several values (e.g. work,fax,voice); a specific kind (fax, pager,
+  // mobile) wins over work or home. The lowest PREF is the preferred number. Numbers without a
+  // country code use the address country (as the schema does).
+  if (card.tel && card.tel.length > 0) {
+    const prefs = card.tel.map(t => t.pref ?? Infinity);
+    const preferred = prefs.some(Number.isFinite) ? prefs.indexOf(Math.min(...prefs)) : -1;
+    const region = phoneRegion(addresses.find(({ address }) => address.country)?.address.country);
+    person.phone = card.tel.map((t, index): Phone => {
+      const types = (t.type ?? '').split(',').map(resolvePhoneType).filter((type): type is PhoneType => type !== undefined);
+      const type = types.find(candidate => candidate !== 'work' && candidate !== 'home') ?? types[0] ?? 'work';
+      const pref = index === preferred ? { pref: true } : {};
+      const value = t.value.replace(/^tel:/i, '');
+      const normalized = normalizePhoneNumber(value, region);
+      return normalized.valid
+        ? { type, number: normalized.number, display: normalized.display, ...(normalized.ext && { ext: normalized.ext }), ...pref }
+        : { type, number: value, ...pref };
+    });
+  }
+
+  // vCard data without a yCard field, plus anchors for EMAIL, TEL and ADR properties that share their
+  // group with kept properties (such as Apple's item1.X-ABLabel) or have parameters the yCard entry
+  // does not hold: a TYPE list beyond the one type written back (in lower case, as vCard 2.1 export
+  // writes it in upper case), ADR PREF and any others (e.g. LANGUAGE)
+  const groups = new Set((card.extensions ?? []).map(extension => extension.group).filter(Boolean));
+  const anchor = (
+    entry: { type?: string; group?: string; parameters?: Record<string, string[]> },
+    name: string,
+    value: string,
+    type: string | undefined,
+    pref?: number
+  ): VCardProperty[] => {
+    const types = (entry.type ?? '').toLowerCase().split(',').filter(Boolean);
+    const parameters = {
+      ...(types.length > 0 && (types.length > 1 || types[0] !== type) && { TYPE: types }),
+      ...(pref !== undefined && { PREF: [String(pref)] }),
+      ...entry.parameters
+    };
+    const group = entry.group && groups.has(entry.group) ? { group: entry.group } : {};
+    const kept = Object.keys(parameters).length > 0 ? { parameters } : {};
+    return Object.keys(group).length > 0 || Object.keys(kept).length > 0 ? [{ ...group, name, value, ...kept }] : [];
+  };
+  // FN, N, NOTE and CATEGORIES keep their parameters (e.g. N;LANGUAGE=de)
+  const parameters = (name: string) => (card.parameters?.[name] ? { parameters: card.parameters[name] } : {});
+  const extensions: VCardProperty[] = [
+    // FN and N when they hold more than name and surname (e.g. Dr. John Q. Appleseed Jr.) or have parameters
+    ...(card.fn && (card.fn !== [person.name, person.surname].filter(Boolean).join(' ') || card.parameters?.FN)
+      ? [{ name: 'FN', value: escapeVCardValue(card.fn), ...parameters('FN') }]
+      : []),
+    // (N without trailing empty components, which xCard always writes)
+    ...(card.n && (card.n.slice(2).some(Boolean) || card.parameters?.N)
+      ? [{ name: 'N', value: trimEnd(card.n).map(component => escapeVCardValue(component)).join(';'), ...parameters('N') }]
+      : []),
+    ...(card.url ?? []).map(value => ({ name: 'URL', value })),
+    ...(card.note ? [{ name: 'NOTE', value: escapeVCardValue(card.note), ...parameters('NOTE') }] : []),
+    ...(card.categories?.length
+      ? [{ name: 'CATEGORIES', value: card.categories.map(category => escapeVCardValue(category)).join(','), ...parameters('CATEGORIES') }]
+      : []),
+    ...(card.photo ? [{
+      name: 'PHOTO',
+      value: card.photo.value,
+      ...(card.photo.mediaType && !card.photo.value.startsWith('data:') && { parameters: { MEDIATYPE: [card.photo.mediaType] } })
+    }] : []),
+    ...(card.email ?? []).flatMap((e, index) => anchor(e, 'EMAIL', e.value, person.email[index].type)),
+    ...(card.tel ?? []).flatMap((t, index) => {
+      const phone: Phone = person.phone[index];
+      return anchor(t, 'TEL', phone.number, VCARD_PHONE_TYPES[phone.type]);
+    }),
+    ...addresses.flatMap(({ adr, address }) => anchor(
+      adr, 'ADR', adrComponents(address).map(component => escapeVCardValue(component)).join(';'), VCARD_ADDRESS_TYPES[address.type], adr.pref
+    )),
+    ...(card.extensions ?? []).filter(extension => !altIdMarkers.has(extension))
+  ];
+  if (extensions.length > 0) {
+    person.extensions = { vcard: extensions };
   }
 
   return person;
 }
 
 /**
- * Convert multiple VCards to a YCardOrg
+ * Convert multiple VCards to a YCardOrg. Job cards written by yCardToVCard (marked with
+ * X-YCARD-JOB, or with a UID `<uid>-job-N` next to a card with UID `<uid>`) become jobs of
+ * their person instead of people of their own.
  * @param cards - Array of VCard objects to convert
  * @returns YCardOrg object
  */
 export function vCardToYCard(cards: VCard[]): YCard {
-  const people: Person[] = cards.map(card => vCardToYCardPerson(card));
+  const uids = new Set(cards.map(card => card.uid));
+  const jobCards = new Map<VCard, { parent: string; index: number; marker?: VCardProperty }>();
+  cards.forEach(card => {
+    const marker = card.extensions?.find(extension => extension.name.toUpperCase() === JOB_MARKER && !extension.parameters?.ALTID);
+    const suffix = /^(.+)-job-(\d+)$/.exec(card.uid ?? '');
+    const parent = marker?.value ?? suffix?.[1];
+    if (parent && parent !== card.uid && uids.has(parent)) {
+      const index = Number(marker?.parameters?.INDEX?.[0] ?? (suffix?.[1] === parent ? suffix[2] : NaN));
+      jobCards.set(card, { parent, index: Number.isNaN(index) ? Infinity : index, marker });
+    }
+  });
+
+  const people: Person[] = cards.filter(card => !jobCards.has(card)).map(card => vCardToYCardPerson(card));
+
+  // Jobs in their original order (after jobs written on the person's own card)
+  const sorted = [...jobCards.entries()].sort(([, a], [, b]) => a.index - b.index);
+  sorted.forEach(([card, { parent, marker }]) => {
+    const person = people.find(candidate => candidate.uid === parent);
+    if (person) (person.jobs ??= []).push(vCardJob(person, card.title, card.org, marker));
+  });
 
   return {
     people
   };
 }
+
+// A job from its title, ORG (org and org_unit are kept when they differ from the person's) and marker
+function vCardJob(person: Person, role: string | undefined, org: string[] | undefined, marker?: VCardProperty): Job {
+  const parameter = (name: string) => marker?.parameters?.[name];
+  // FTE=0 (e.g. an advisory role) is kept; a missing or non-numeric FTE means a full-time job
+  const fte = parameter('FTE')?.[0]?.trim() ? Number(parameter('FTE')![0]) : NaN;
+  return {
+    ...(role && { role }),
+    fte: Number.isFinite(fte) && fte >= 0 ? fte : 1,
+    ...(parameter('MANAGER') && { manager: parameter('MANAGER')![0] }),
+    dotted: parameter('DOTTED') ?? [],
+    ...(org?.[1] && org[1] !== person.org_unit && { org_unit: org[1] }),
+    ...(org?.[0] && org[0] !== person.org && { org: org[0] }),
+    primary: parameter('PRIMARY')?.[0]?.toUpperCase() === 'TRUE'
+  };
+}
+
+// X-YCARD-JOB property for a job; `key` identifies the job (INDEX or ALTID)
+function jobMarker(uid: string, job: Job, key: Record<string, string[]>): VCardProperty {
+  return {
+    name: JOB_MARKER,
+    value: uid,
+    parameters: {
+      ...key,
+      ...(job.fte !== undefined && job.fte !== 1 && { FTE: [String(job.fte)] }),
+      ...(job.primary && { PRIMARY: ['TRUE'] }),
+      ...(job.manager && { MANAGER: [job.manager] }),
+      ...(job.dotted?.length && { DOTTED: job.dotted })
+    }
+  };
+}
+
+// ADR components: post office box, extended address, street, city, state, postal code, country
+function adrComponents(address: Address): string[] {
+  return ['', '', address.street || '', address.city || '', address.state || '', address.postal_code || '', address.country || ''];
+}
+
+// Address type from a vCard TYPE list: home, work, or a postal address (postal, dom, intl, parcel)
+function vCardAddressType(type?: string): AddressType {
+  const types = (type ?? '').toLowerCase().split(',');
+  if (types.includes('home')) return 'home';
+  if (types.some(t => ['postal', 'dom', 'intl', 'parcel'].includes(t))) return 'mailing';
+  return 'work';
+}
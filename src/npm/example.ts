@@ -13,7 +13,7 @@ people:
     org: Example Corp
     phone:
       - type: work
-        number: "+1-555-0123"
+        number: "+1-201-555-0123"
   - uid: jane-smith
     name: Jane
     surname: Smith
@@ -12,7 +12,7 @@ people:
     org: Example Corp
     phone:
       - type: work
-        number: "+1-555-0123"
+        number: "+1-201-555-0123"
 `;
 
   it('should parse and stringify yCard', () => {
@@ -32,6 +32,7 @@ people:
     const vcf = stringifyVCard(cards);
     expect(vcf).toContain('BEGIN:VCARD');
     expect(vcf).toContain('FN:John Doe');
+    expect(vcf).toContain('TEL;VALUE=uri;TYPE=work:tel:+12015550123');
   });
 
   it('should convert vCard back to yCard', () => {
@@ -44,5 +45,6 @@ people:
 
     expect(convertedOrg.people).toHaveLength(1);
     expect(convertedOrg.people[0].name).toBe('John');
+    expect(convertedOrg.people[0].phone).toEqual([{ type: 'work', number: '+12015550123', display: '+1 201 555 0123' }]);
   });
 });
@@ -5,12 +5,25 @@ export type {
   Job,
   I18n,
   Person,
+  Organization,
+  OrgUnit,
   YCard
 } from './types';
 
 // Parsing & Serialization
-export { parseYCard, stringifyYCard } from './parsers/ycard';
-export { parseVCard, stringifyVCard } from './parsers/vcard';
+export { parseYCard, stringifyYCard, YCardParseError, formatLocatedError } from './parsers/ycard';
+export type { ParseYCardOptions } from './parsers/ycard';
+
+// Comment-preserving formatting
+export { formatYCard, updateYCard, YCardFormatError } from '../format';
+export type { FormatOptions } from '../format';
+export { parseVCard, stringifyVCard, VCARD_VERSIONS } from './parsers/vcard';
+export type { VCard, VCardJob, VCardVersion, StringifyVCardOptions } from './parsers/vcard';
+export { parseJCard, stringifyJCard, JCardParseError } from './parsers/jcard';
+export type { JCard, JCardProperty } from './parsers/jcard';
+export { parseXCard, stringifyXCard, XCardParseError } from './parsers/xcard';
+export { parseLDIF, parseDn, formatLdifLine, LdifParseError } from './parsers/ldif';
+export type { LdifEntry } from './parsers/ldif';
 
 // Conversions
 export {
@@ -19,19 +32,101 @@ export {
   vCardToYCardPerson,
   vCardToYCard
 } from './converters';
+export type { VCardExportOptions } from './converters';
 
 // Utilities
 export {
   yCardToLDIF,
+  ldifToYCard,
   yCardToCSV,
   normalizeYCard,
   validateYCard,
   getYCardSummary
 } from './utils';
+export type { LdifExportOptions } from './utils';
+
+// Cross-record validation
+export { validateReferences } from '../integrity';
+export type { IntegrityIssue, IntegrityCode } from '../integrity';
+export type { YCardIssue, IssueSeverity } from '../issues';
+export { findAliasConflicts } from '../conflicts';
+export type { AliasConflictIssue, AliasConflictMode } from '../conflicts';
+
+// Phone numbers
+export { PHONE_TYPES, resolvePhoneType, normalizePhoneNumber, validatePhones } from '../phone';
+export type { PhoneType, NormalizedPhone, PhoneParseResult } from '../phone';
+
+// Email addresses
+export { EMAIL_TYPES, normalizeEmailAddress, normalizeEmails, asciiEmailAddress } from '../email';
+export type { Email, EmailType, EmailInput } from '../email';
+
+// Postal addresses and countries
+export { ADDRESS_TYPES, normalizeAddress, formatAddress, ldapPostalAddress } from '../address';
+export type { AddressType } from '../address';
+export { isCountryCode, countryCodeFor, countryName } from '../countries';
+
+// Organizations and org units
+export { findOrg, findUnit, unitChain, localizedName, personUnitRefs, unitHeadcounts } from '../org-units';
+export type { UnitHeadcount } from '../org-units';
+
+// Reporting lines (chains, reports, span of control)
+export { OrgGraph } from '../org-graph';
+export type { OrgEdge, OrgEdgeKind } from '../org-graph';
+
+// Org charts
+export { buildOrgChart, orgChartToDot, orgChartToMermaid, orgChartToSvg, OrgChartError } from '../org-chart';
+export type { OrgChart, OrgChartNode, OrgChartEdge, OrgChartOptions } from '../org-chart';
+
+// FTE accounting
+export { fteAllocations, fteReport, validateFte, formatFte } from '../fte';
+export type { FteAllocation, FteGroup, FteReport, FteTotals, FteCode } from '../fte';
+
+// Change reports between two versions of a document
+export { diffYCard, formatYCardDiff } from '../diff';
+export type { YCardChange, YCardChangeKind, DiffFormat } from '../diff';
+
+// Three-way merge
+export { mergeYCard, stringifyMergeResult } from '../merge';
+export type { MergeResult, MergeConflict, MergeSection, MergeLabels, MergeSource } from '../merge';
+
+// Query language
+export { parseQuery, queryYCard, QueryError, QUERY_FIELDS } from '../query';
+export type { QueryNode, QueryValue, CompareOperator } from '../query';
+
+// Duplicate detection
+export { findDuplicates, mergeDuplicates, DedupeError } from '../dedupe';
+export type { DuplicateCandidate, DuplicateReason, DuplicateEvidence, DuplicatePair, DedupeOptions } from '../dedupe';
+export { transliterate } from '../transliterate';
+
+// Lint rules
+export { lintYCard, defineRule, parseLintConfig, loadLintConfig, findLintConfig, LintConfigError, BUILTIN_RULES, LINT_CONFIG_FILE } from '../lint';
+export type { LintRule, LintFinding, LintConfig, LintSeverity, RuleSetting } from '../lint';
+
+// Format versions and migrations
+export {
+  CURRENT_YCARD_VERSION,
+  MigrationRegistry,
+  MigrationError,
+  defaultMigrations,
+  documentVersion
+} from '../migrations';
+export type { MigrationStep, MigrationChange, MigrationResult, AppliedMigration } from '../migrations';
+
+// Alias registry and alias packs
+export {
+  AliasRegistry,
+  AliasConflictError,
+  createAliasRegistry,
+  defaultAliasRegistry,
+  parseAliasPack,
+  loadAliasPackFile
+} from '../aliases';
+export type { AliasPack, AliasEntry, AliasScope } from '../aliases';
 
 // Re-export the Zod schemas for advanced usage
 export {
   PersonSchema,
   JobSchema,
-  YCardSchema
+  YCardSchema,
+  createYCardSchema
 } from './types';
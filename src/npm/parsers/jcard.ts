@@ -0,0 +1,174 @@
+// jCard (RFC 7095) parser and serializer, built on the vCard 4.0 properties of the text vCard path
+import { VCard, VCardProperty, vCardProperties, vCardFromProperties, escapeVCardValue, unescapeVCardValue, splitEscaped } from './vcard';
+
+// A structured value component holds one value or a list of values (e.g. several street lines)
+export type JCardValue = string | number | boolean | null | Array<string | string[]>;
+
+// [name, parameters, value type, ...values]; the property group is the `group` parameter
+export type JCardProperty = [string, Record<string, string | string[]>, string, ...JCardValue[]];
+
+export type JCard = ['vcard', JCardProperty[]];
+
+/**
+ * Thrown when jCard input does not have the RFC 7095 structure
+ */
+export class JCardParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JCardParseError';
+  }
+}
+
+// Value types of RFC 6350 properties that are not text
+const DEFAULT_VALUE_TYPES: Record<string, string> = {
+  SOURCE: 'uri',
+  PHOTO: 'uri',
+  BDAY: 'date-and-or-time',
+  ANNIVERSARY: 'date-and-or-time',
+  IMPP: 'uri',
+  LANG: 'language-tag',
+  GEO: 'uri',
+  LOGO: 'uri',
+  MEMBER: 'uri',
+  RELATED: 'uri',
+  REV: 'timestamp',
+  SOUND: 'uri',
+  URL: 'uri',
+  KEY: 'uri',
+  FBURL: 'uri',
+  CALADRURI: 'uri',
+  CALURI: 'uri'
+};
+
+// RFC 6350 text properties; other properties without a VALUE parameter are `unknown` (value as written)
+const TEXT_PROPERTIES = [
+  'VERSION', 'PRODID', 'UID', 'KIND', 'XML', 'FN', 'N', 'NICKNAME', 'GENDER', 'ADR', 'TEL', 'EMAIL', 'TZ',
+  'TITLE', 'ROLE', 'ORG', 'CATEGORIES', 'NOTE', 'CLIENTPIDMAP', 'LABEL'
+];
+
+// Structured values (components separated by ';') and multi-valued text (values separated by ',')
+export const STRUCTURED_PROPERTIES = ['N', 'ADR', 'ORG', 'GENDER', 'CLIENTPIDMAP'];
+const MULTI_VALUED_PROPERTIES = ['NICKNAME', 'CATEGORIES'];
+
+/**
+ * Convert VCard objects to jCard JSON: an array with one `["vcard", [...properties]]` per card,
+ * one property per line
+ * @param cards - Array of VCard objects to serialize
+ * @returns jCard JSON string
+ */
+export function stringifyJCard(cards: VCard[]): string {
+  if (cards.length === 0) return '[]';
+  const jCards = cards.map(card => vCardToJCard(card)[1].map(property => `    ${JSON.stringify(property)}`).join(',\n'));
+  return `[\n${jCards.map(properties => `  ["vcard", [\n${properties}\n  ]]`).join(',\n')}\n]`;
+}
+
+/**
+ * Parse jCard JSON (one jCard or an array of them) into VCard objects
+ * @param json - The jCard content as a string
+ * @returns Array of parsed VCard objects
+ */
+export function parseJCard(json: string): VCard[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new JCardParseError(`Invalid jCard JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const jCards = Array.isArray(parsed) && parsed[0] === 'vcard' ? [parsed] : parsed;
+  if (!Array.isArray(jCards)) {
+    throw new JCardParseError('Expected a jCard (["vcard", [...properties]]) or an array of jCards');
+  }
+  return jCards.map((jCard, index) => jCardToVCard(jCard, `jCard ${index + 1}`));
+}
+
+/**
+ * The jCard for one card
+ */
+export function vCardToJCard(card: VCard): JCard {
+  return ['vcard', vCardProperties(card).map(toJCardProperty)];
+}
+
+/**
+ * A card from one jCard; `where` names it in error messages
+ */
+export function jCardToVCard(jCard: unknown, where = 'jCard'): VCard {
+  if (!Array.isArray(jCard) || jCard[0] !== 'vcard' || !Array.isArray(jCard[1])) {
+    throw new JCardParseError(`${where}: expected ["vcard", [...properties]]`);
+  }
+  return vCardFromProperties(jCard[1].map((property, index) => fromJCardProperty(property, `${where}, property ${index + 1}`)));
+}
+
+/**
+ * jCard form of a vCard 4.0 property: text values are unescaped and split into components
+ * (structured properties) or values (multi-valued properties)
+ */
+export function toJCardProperty({ group, name, value, parameters = {} }: VCardProperty): JCardProperty {
+  const upper = name.toUpperCase();
+  const { VALUE: valueType, ...rest } = parameters;
+  const type = valueType?.[0]?.toLowerCase() ?? defaultValueType(upper);
+
+  const jCardParameters: Record<string, string | string[]> = group ? { group } : {};
+  Object.entries(rest).forEach(([parameterName, values]) => {
+    // LABEL holds \n escapes in vCard text (the ADR parser reads both forms)
+    const unescaped = parameterName === 'LABEL' ? values.map(value => value.replace(/\\n/gi, '\n')) : values;
+    jCardParameters[parameterName.toLowerCase()] = unescaped.length === 1 ? unescaped[0] : unescaped;
+  });
+  const property = (...values: JCardValue[]): JCardProperty => [name.toLowerCase(), jCardParameters, type, ...values];
+
+  if (type === 'integer' || type === 'float') return property(Number(value));
+  if (type === 'boolean') return property(value.toUpperCase() === 'TRUE');
+  if (type !== 'text') return property(value);
+  if (STRUCTURED_PROPERTIES.includes(upper)) {
+    const components = splitEscaped(value, ';').map(component => {
+      const values = splitEscaped(component, ',').map(item => unescapeVCardValue(item));
+      return values.length === 1 ? values[0] : values;
+    });
+    return property(components.length === 1 && typeof components[0] === 'string' ? components[0] : components);
+  }
+  if (MULTI_VALUED_PROPERTIES.includes(upper)) return property(...splitEscaped(value, ',').map(item => unescapeVCardValue(item)));
+  return property(unescapeVCardValue(value));
+}
+
+/**
+ * vCard 4.0 property for a jCard property; `where` names it in error messages
+ */
+export function fromJCardProperty(property: unknown, where = 'jCard property'): VCardProperty {
+  if (!Array.isArray(property) || property.length < 4 || typeof property[0] !== 'string'
+    || typeof property[1] !== 'object' || property[1] === null || Array.isArray(property[1]) || typeof property[2] !== 'string') {
+    throw new JCardParseError(`${where}: expected [name, parameters, type, value]`);
+  }
+  const [name, jCardParameters, type, ...values] = property as JCardProperty;
+  const upper = name.toUpperCase();
+
+  let group: string | undefined;
+  const parameters: Record<string, string[]> = {};
+  Object.entries(jCardParameters).forEach(([parameterName, parameterValues]) => {
+    if (parameterName.toLowerCase() === 'group') group = String(parameterValues);
+    else parameters[parameterName.toUpperCase()] = (Array.isArray(parameterValues) ? parameterValues : [parameterValues]).map(String);
+  });
+  if (type.toLowerCase() !== 'unknown' && type.toLowerCase() !== defaultValueType(upper)) {
+    parameters.VALUE = [type.toLowerCase()];
+  }
+
+  const text = (value: unknown) => escapeVCardValue(value === null || value === undefined ? '' : String(value));
+  let value: string;
+  if (type.toLowerCase() !== 'text') {
+    value = values.map(item => typeof item === 'boolean' ? String(item).toUpperCase() : String(item ?? '')).join(',');
+  } else if (STRUCTURED_PROPERTIES.includes(upper)) {
+    const components = Array.isArray(values[0]) ? values[0] : values;
+    value = components.map(component => Array.isArray(component) ? component.map(text).join(',') : text(component)).join(';');
+  } else {
+    value = values.map(text).join(',');
+  }
+
+  return {
+    ...(group && { group }),
+    name: upper,
+    value,
+    ...(Object.keys(parameters).length > 0 && { parameters })
+  };
+}
+
+function defaultValueType(name: string): string {
+  return DEFAULT_VALUE_TYPES[name] ?? (TEXT_PROPERTIES.includes(name) ? 'text' : 'unknown');
+}
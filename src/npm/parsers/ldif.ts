@@ -0,0 +1,176 @@
+// LDIF (RFC 2849) content records and LDAP distinguished names (RFC 4514)
+
+// Lines longer than this are folded (RFC 2849 suggests at most 76 columns, as ldapsearch writes)
+const MAX_LINE_LENGTH = 76;
+
+export interface LdifEntry {
+  dn: string;
+  // Attribute descriptions in lowercase (e.g. cn, cn;lang-ja) → values in file order. Base64 values
+  // are decoded as UTF-8; values that are not UTF-8 text (such as jpegPhoto) stay base64 encoded.
+  attributes: Record<string, string[]>;
+}
+
+/**
+ * Thrown for malformed LDIF, change records other than `changetype: add`, and `:<` URL values
+ * (which are never fetched or read)
+ */
+export class LdifParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'LdifParseError';
+  }
+}
+
+/**
+ * Parse LDIF content records such as an `ldapsearch` dump. Continuation lines are joined,
+ * comments (and ldapsearch's trailing `search:`/`result:` record) skipped and `::` values
+ * base64-decoded.
+ * @param ldif - The LDIF content as a string
+ * @returns Array of entries in file order
+ */
+export function parseLDIF(ldif: string): LdifEntry[] {
+  const entries: LdifEntry[] = [];
+  let entry: LdifEntry | undefined;
+  let trailer = false; // ldapsearch's `search:`/`result:` record
+
+  for (const { text, line } of logicalLines(ldif)) {
+    if (text === '') {
+      if (entry) entries.push(entry);
+      entry = undefined;
+      trailer = false;
+      continue;
+    }
+    if (text.startsWith('#') || trailer) continue;
+
+    const match = /^([A-Za-z][\w-]*(?:;[\w-]+)*|\d+(?:\.\d+)*(?:;[\w-]+)*):(:|<)?[ ]*(.*)$/.exec(text);
+    if (!match) throw new LdifParseError(`Expected 'attribute: value', found '${text.slice(0, 40)}'`, line);
+    const [, description, kind, raw] = match;
+    const name = description.toLowerCase();
+
+    if (kind === '<') {
+      throw new LdifParseError(`${description} refers to ${raw}; URL values are not read`, line);
+    }
+    const value = kind === ':' ? decodeBase64(raw, description, line) : raw;
+
+    if (!entry) {
+      if (name === 'version' && entries.length === 0) continue;
+      if (name === 'search') {
+        trailer = true;
+        continue;
+      }
+      if (name !== 'dn') throw new LdifParseError(`Expected a dn: line to start the record, found ${description}`, line);
+      entry = { dn: value, attributes: {} };
+      continue;
+    }
+    if (name === 'control') continue;
+    if (name === 'changetype') {
+      if (value.trim().toLowerCase() !== 'add') {
+        throw new LdifParseError(`changetype: ${value.trim()} is not supported (only content records and changetype: add)`, line);
+      }
+      continue;
+    }
+    (entry.attributes[name] ??= []).push(value);
+  }
+
+  if (entry) entries.push(entry);
+  return entries;
+}
+
+/**
+ * One `dn` or attribute line. Values that are not SAFE-STRINGs (non-ASCII or control characters,
+ * a leading space, ':' or '<', a trailing space) are base64 encoded after `::`; long lines are
+ * folded onto continuation lines starting with a space.
+ */
+export function formatLdifLine(description: string, value: string): string {
+  const safe = !/^[ :<]/.test(value) && !value.endsWith(' ')
+    && [...value].every(char => char.charCodeAt(0) > 0 && char.charCodeAt(0) < 128 && char !== '\n' && char !== '\r');
+  const line = safe ? `${description}: ${value}` : `${description}:: ${Buffer.from(value, 'utf8').toString('base64')}`;
+
+  const lines = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let index = MAX_LINE_LENGTH; index < line.length; index += MAX_LINE_LENGTH - 1) {
+    lines.push(` ${line.slice(index, index + MAX_LINE_LENGTH - 1)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Escape an RDN attribute value (RFC 4514)
+ */
+export function escapeDnValue(value: string): string {
+  return value
+    .replace(/[\\,+"<>;=]/g, char => `\\${char}`)
+    .replace(/^[ #]/, char => `\\${char}`)
+    .replace(/ $/, '\\ ');
+}
+
+/**
+ * Split a DN into its RDNs as [attribute type (lowercase), value] pairs, with escapes
+ * (`\,`, `\2C`, ...) decoded. Multi-valued RDNs (`cn=a+uid=b`) yield their first value.
+ */
+export function parseDn(dn: string): Array<[string, string]> {
+  const rdns: Array<[string, string]> = [];
+  let type = '';
+  let value: number[] = [];
+  let inValue = false;
+  let skipping = false; // Further values of a multi-valued RDN
+  const bytes = new TextEncoder();
+
+  const finish = () => {
+    if (type.trim()) rdns.push([type.trim().toLowerCase(), new TextDecoder().decode(new Uint8Array(value)).trim()]);
+    type = '';
+    value = [];
+    inValue = false;
+    skipping = false;
+  };
+
+  for (let i = 0; i < dn.length; i++) {
+    const char = dn[i];
+    if (char === '\\' && i + 1 < dn.length) {
+      const hex = /^[0-9a-fA-F]{2}/.exec(dn.slice(i + 1))?.[0];
+      const escaped = hex ? [parseInt(hex, 16)] : [...bytes.encode(dn[i + 1])];
+      if (inValue && !skipping) value.push(...escaped);
+      i += hex ? 2 : 1;
+    } else if (char === ',' || char === ';') {
+      finish();
+    } else if (char === '+' && inValue) {
+      skipping = true;
+    } else if (char === '=' && !inValue) {
+      inValue = true;
+    } else if (inValue) {
+      if (!skipping) value.push(...bytes.encode(char));
+    } else {
+      type += char;
+    }
+  }
+  finish();
+  return rdns;
+}
+
+/**
+ * DN in a canonical form for comparison: attribute types and values lowercased, spaces around
+ * separators removed
+ */
+export function normalizeDn(dn: string): string {
+  return parseDn(dn).map(([type, value]) => `${type}=${value.toLowerCase()}`).join(',');
+}
+
+// Lines with continuations joined (a line starting with one space continues the previous one)
+function logicalLines(ldif: string): Array<{ text: string; line: number }> {
+  const lines: Array<{ text: string; line: number }> = [];
+  ldif.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((text, index) => {
+    const previous = lines[lines.length - 1];
+    if (text.startsWith(' ') && previous && previous.text !== '') previous.text += text.slice(1);
+    else lines.push({ text, line: index + 1 });
+  });
+  return lines;
+}
+
+function decodeBase64(value: string, description: string, line: number): string {
+  const base64 = value.trim();
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) throw new LdifParseError(`${description} has an invalid base64 value`, line);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(Buffer.from(base64, 'base64'));
+  } catch {
+    return base64;
+  }
+}
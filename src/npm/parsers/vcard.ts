@@ -1,8 +1,9 @@
-// vCard 4.0 parser and serializer
+// vCard 2.1, 3.0 and 4.0 parser and serializer
 export interface VCardProperty {
-  name: string;
+  group?: string; // e.g. item1 in item1.EMAIL (Apple exports pair properties with X-ABLabel this way)
+  name: string; // As written (names are case-insensitive)
   value: string;
-  parameters?: Record<string, string>;
+  parameters?: Record<string, string[]>; // Names uppercased; multi-valued and repeated parameters are collected
 }
 
 export interface VCard {
@@ -12,35 +13,64 @@ export interface VCard {
   n?: string[]; // Name components [family, given, additional, prefixes, suffixes]
   title?: string;
   org?: string[];
-  email?: Array<{ value: string; type?: string }>;
-  tel?: Array<{ value: string; type?: string }>;
-  adr?: Array<{ value: string[]; type?: string }>;
+  // type: comma-separated TYPE values; pref: PREF parameter (1-100, 1 = most preferred); group: property group;
+  // parameters: any other parameters (e.g. LANGUAGE), written back as read
+  email?: Array<{ value: string; type?: string; pref?: number; group?: string; parameters?: Record<string, string[]> }>;
+  tel?: Array<{ value: string; type?: string; valueType?: string; pref?: number; group?: string; parameters?: Record<string, string[]> }>; // valueType: VALUE parameter (e.g. uri)
+  adr?: Array<{ value: string[]; type?: string; label?: string; pref?: number; group?: string; parameters?: Record<string, string[]> }>; // label: LABEL parameter (formatted address)
   url?: string[];
+  photo?: { value: string; mediaType?: string }; // URI; inline images are data: URIs
   note?: string;
   categories?: string[];
+  jobs?: VCardJob[]; // TITLE, ROLE and ORG properties joined by ALTID, one entry per ALTID value
+  extensions?: VCardProperty[]; // Other properties (and grouped ones other than EMAIL, TEL and ADR), values as in vCard 4.0
+  parameters?: Record<string, Record<string, string[]>>; // Parameters of FN, N, TITLE, ORG, NOTE and CATEGORIES by property name (e.g. N;LANGUAGE=de)
   [key: string]: any;
 }
 
+// One hat of a multi-hat card: `TITLE;ALTID=1:CTO` and `ORG;ALTID=1:Acme;R&D` share ALTID 1
+export interface VCardJob {
+  altId: string;
+  title?: string;
+  role?: string;
+  org?: string[];
+}
+
+// vCard versions read by parseVCard and written by stringifyVCard
+export type VCardVersion = '2.1' | '3.0' | '4.0';
+
+export const VCARD_VERSIONS: readonly VCardVersion[] = ['2.1', '3.0', '4.0'];
+
+export interface StringifyVCardOptions {
+  version?: VCardVersion; // Defaults to 4.0
+}
+
 /**
- * Parse a vCard 4.0 string into VCard objects
+ * Parse vCard 2.1, 3.0 or 4.0 text into VCard objects. Folded lines are unfolded, quoted-printable
+ * and base64 values are decoded (using CHARSET where given) and vCard 2.1 bare parameters such as
+ * `TEL;WORK;VOICE` are read as TYPE values.
  * @param vcfString - The vCard content as a string
  * @returns Array of parsed VCard objects
  */
 export function parseVCard(vcfString: string): VCard[] {
   const cards: VCard[] = [];
-  const lines = vcfString.split('\n').map(line => line.trim());
 
   let currentCard: Partial<VCard> = {};
   let inCard = false;
 
-  for (const line of lines) {
-    if (line === 'BEGIN:VCARD') {
+  for (const line of unfoldLines(vcfString)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const property = parseVCardProperty(line);
+    if (!property) continue;
+
+    if (property.name.toUpperCase() === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
       currentCard = { version: '4.0' };
       inCard = true;
       continue;
     }
 
-    if (line === 'END:VCARD') {
+    if (property.name.toUpperCase() === 'END' && property.value.trim().toUpperCase() === 'VCARD') {
       if (currentCard && Object.keys(currentCard).length > 1) {
         cards.push(currentCard as VCard);
       }
@@ -48,11 +78,8 @@ export function parseVCard(vcfString: string): VCard[] {
       continue;
     }
 
-    if (!inCard || !line || line.startsWith('#')) continue;
-
-    const property = parseVCardProperty(line);
-    if (property) {
-      addPropertyToCard(currentCard, property);
+    if (inCard) {
+      addVCardProperty(currentCard, property);
     }
   }
 
@@ -60,68 +87,122 @@ export function parseVCard(vcfString: string): VCard[] {
 }
 
 /**
- * Convert VCard objects to vCard 4.0 text
+ * Convert VCard objects to vCard text. Lines are folded at 75 octets; vCard 3.0 and 2.1 output
+ * writes phone numbers as text, PREF as a TYPE value and formatted addresses as LABEL properties,
+ * and vCard 2.1 output quoted-printable encodes non-ASCII and multi-line values.
  * @param cards - Array of VCard objects to serialize
- * @returns vCard 4.0 formatted string
+ * @param options - version: 2.1, 3.0 or 4.0 (default)
+ * @returns vCard formatted string
  */
-export function stringifyVCard(cards: VCard[]): string {
+export function stringifyVCard(cards: VCard[], options: StringifyVCardOptions = {}): string {
+  const version = options.version ?? '4.0';
+  const text = (value: string) => escapeVCardValue(value, version);
+  const types = (type: string | undefined, pref?: number): string[] => typeParameters(version, type, pref);
+
   return cards.map(card => {
-    const lines = ['BEGIN:VCARD', 'VERSION:4.0'];
+    const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+    const property = (name: string, parameters: string[], value: string) => {
+      lines.push(...contentLines(version, name, parameters, value));
+    };
+    const read = (name: string) => formatParameters(card.parameters?.[name]);
 
     // UID
-    if (card.uid) lines.push(`UID:${card.uid}`);
+    if (card.uid) property('UID', [], card.uid);
 
-    // Full name
-    if (card.fn) lines.push(`FN:${escapeVCardValue(card.fn)}`);
+    // Full name (required in 3.0 and 4.0)
+    const fn = card.fn ?? card.org?.[0];
+    if (fn) property('FN', read('FN'), text(fn));
+    else if (version !== '2.1') property('FN', [], '');
 
-    // Name components
+    // Name components (required in 2.1 and 3.0)
     if (card.n && card.n.length > 0) {
-      lines.push(`N:${card.n.map(escapeVCardValue).join(';')}`);
+      property('N', read('N'), card.n.map(text).join(';'));
+    } else if (version !== '4.0') {
+      property('N', [], ';;;;');
     }
 
     // Title
-    if (card.title) lines.push(`TITLE:${escapeVCardValue(card.title)}`);
+    if (card.title) property('TITLE', read('TITLE'), text(card.title));
 
     // Organization
     if (card.org && card.org.length > 0) {
-      lines.push(`ORG:${card.org.map(escapeVCardValue).join(';')}`);
+      property('ORG', read('ORG'), card.org.map(text).join(';'));
+    }
+
+    // Jobs: TITLE, ROLE and ORG properties sharing an ALTID
+    if (card.jobs) {
+      card.jobs.forEach(job => {
+        const altId = [formatParameter('ALTID', [job.altId])];
+        if (job.title) property('TITLE', altId, text(job.title));
+        if (job.role) property('ROLE', altId, text(job.role));
+        if (job.org && job.org.length > 0) property('ORG', altId, job.org.map(text).join(';'));
+      });
+    }
+
+    // Photo: a URI, or inline data (data: URI in 4.0, base64 with ENCODING in 3.0 and 2.1)
+    if (card.photo) {
+      const inline = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(card.photo.value);
+      if (version === '4.0') {
+        const mediaType = card.photo.mediaType && !inline ? [`MEDIATYPE=${card.photo.mediaType}`] : [];
+        property('PHOTO', mediaType, card.photo.value);
+      } else if (inline?.[2]) {
+        const format = (inline[1] || card.photo.mediaType || '').replace(/^image\//i, '').toUpperCase();
+        property('PHOTO', [version === '3.0' ? 'ENCODING=b' : 'ENCODING=BASE64', ...(format ? [`TYPE=${format}`] : [])], inline[3]);
+      } else {
+        property('PHOTO', [version === '3.0' ? 'VALUE=uri' : 'VALUE=URL'], card.photo.value);
+      }
     }
 
     // Email addresses
     if (card.email) {
-      card.email.forEach(email => {
-        const type = email.type ? `;TYPE=${email.type}` : '';
-        lines.push(`EMAIL${type}:${email.value}`);
-      });
+      card.email.forEach(email => property(grouped(email.group, 'EMAIL'), [...types(email.type, email.pref), ...formatParameters(email.parameters)], email.value));
     }
 
-    // Phone numbers
+    // Phone numbers (tel: URIs are only valid in 4.0; earlier versions use text)
     if (card.tel) {
       card.tel.forEach(tel => {
-        const type = tel.type ? `;TYPE=${tel.type}` : '';
-        lines.push(`TEL${type}:${tel.value}`);
+        if (version === '4.0') {
+          property(grouped(tel.group, 'TEL'), [...(tel.valueType ? [`VALUE=${tel.valueType}`] : []), ...types(tel.type, tel.pref), ...formatParameters(tel.parameters)], tel.value);
+        } else {
+          property(grouped(tel.group, 'TEL'), [...types(tel.type, tel.pref), ...formatParameters(tel.parameters)], tel.value.replace(/^tel:/i, '').replace(/;ext=/i, ' ext. '));
+        }
       });
     }
 
-    // Addresses
+    // Addresses, with the formatted address in the LABEL parameter (4.0) or property (3.0, 2.1)
     if (card.adr) {
       card.adr.forEach(adr => {
-        const type = adr.type ? `;TYPE=${adr.type}` : '';
-        lines.push(`ADR${type}:${adr.value.map(escapeVCardValue).join(';')}`);
+        const value = adr.value.map(text).join(';');
+        if (version === '4.0') {
+          const label = adr.label ? [`LABEL="${adr.label.replace(/"/g, "'").replace(/\r?\n/g, '\\n')}"`] : [];
+          property(grouped(adr.group, 'ADR'), [...types(adr.type, adr.pref), ...formatParameters(adr.parameters), ...label], value);
+        } else {
+          property(grouped(adr.group, 'ADR'), [...types(adr.type, adr.pref), ...formatParameters(adr.parameters)], value);
+          if (adr.label) property(grouped(adr.group, 'LABEL'), types(adr.type), text(adr.label));
+        }
       });
     }
 
     // URLs
     if (card.url) {
-      card.url.forEach(url => lines.push(`URL:${url}`));
+      card.url.forEach(url => property('URL', [], url));
     }
 
     // Note
-    if (card.note) lines.push(`NOTE:${escapeVCardValue(card.note)}`);
+    if (card.note) property('NOTE', read('NOTE'), text(card.note));
 
-    // Categories
+    // Categories (the ',' separating them is escaped in values of every version)
     if (card.categories && card.categories.length > 0) {
-      lines.push(`CATEGORIES:${card.categories.join(',')}`);
+      property('CATEGORIES', read('CATEGORIES'), card.categories.map(category => version === '2.1' ? text(category).replace(/,/g, '\\,') : text(category)).join(','));
+    }
+
+    // Other properties as they were read (vCard 2.1 has no \n escape)
+    if (card.extensions) {
+      card.extensions.forEach(extension => property(
+        grouped(extension.group, extension.name),
+        formatParameters(extension.parameters),
+        version === '2.1' ? extension.value.replace(/\\n/gi, '\n') : extension.value
+      ));
     }
 
     lines.push('END:VCARD');
@@ -129,33 +210,129 @@ export function stringifyVCard(cards: VCard[]): string {
   }).join('\r\n\r\n');
 }
 
+/**
+ * The vCard 4.0 properties stringifyVCard writes for a card, with values escaped as in vCard text.
+ * jCard and xCard are built from these so that every format shares the text vCard semantics.
+ */
+export function vCardProperties(card: VCard): VCardProperty[] {
+  return unfoldLines(stringifyVCard([card]))
+    .map(parseVCardProperty)
+    .filter((property): property is VCardProperty => property !== null && !['BEGIN', 'END'].includes(property.name.toUpperCase()));
+}
+
+/**
+ * Build a card from vCard 4.0 properties (values escaped as in vCard text), as parseVCard does
+ */
+export function vCardFromProperties(properties: VCardProperty[]): VCard {
+  const card: Partial<VCard> = { version: '4.0' };
+  properties.forEach(property => addVCardProperty(card, property));
+  return card as VCard;
+}
+
 function parseVCardProperty(line: string): VCardProperty | null {
-  const colonIndex = line.indexOf(':');
+  // Parameter values may be quoted and contain ':' or ';' (e.g. LABEL)
+  const colonIndex = indexOutsideQuotes(line, ':');
   if (colonIndex === -1) return null;
 
   const beforeColon = line.substring(0, colonIndex);
-  const value = line.substring(colonIndex + 1);
+  let value = line.substring(colonIndex + 1);
 
-  // Parse property name and parameters
-  const parts = beforeColon.split(';');
-  const name = parts[0].toUpperCase();
+  // Parse group, property name and parameters
+  const parts = splitOutsideQuotes(beforeColon, ';');
+  const dotIndex = parts[0].lastIndexOf('.');
+  const group = dotIndex !== -1 ? parts[0].substring(0, dotIndex) : undefined;
+  const name = parts[0].substring(dotIndex + 1);
 
-  const parameters: Record<string, string> = {};
-  for (let i = 1; i < parts.length; i++) {
-    const param = parts[i];
+  const parameters: Record<string, string[]> = {};
+  const add = (paramName: string, values: string[]) => {
+    parameters[paramName] = [...(parameters[paramName] ?? []), ...values];
+  };
+  for (const param of parts.slice(1)) {
     const equalIndex = param.indexOf('=');
     if (equalIndex !== -1) {
-      const paramName = param.substring(0, equalIndex);
-      const paramValue = param.substring(equalIndex + 1);
-      parameters[paramName] = paramValue;
+      const paramName = param.substring(0, equalIndex).trim().toUpperCase();
+      const values = splitOutsideQuotes(param.substring(equalIndex + 1), ',').map(parameterValue);
+      // TYPE lists are often quoted as a whole: TYPE="work,voice"
+      add(paramName, paramName === 'TYPE' ? values.flatMap(type => type.split(',')) : values);
+    } else if (param) {
+      // vCard 2.1 bare parameters: encodings (PHOTO;BASE64) or types (TEL;WORK;VOICE)
+      if (ENCODINGS.includes(param.toUpperCase())) add('ENCODING', [param]);
+      else add('TYPE', [param]);
     }
   }
 
-  return { name, value, parameters };
+  // Decode text values; binary values (PHOTO) stay base64 encoded
+  const encoding = normalizeEncoding(parameter(parameters, 'ENCODING'));
+  if (encoding === 'QUOTED-PRINTABLE' || (encoding === 'BASE64' && !BINARY_PROPERTIES.includes(name.toUpperCase()))) {
+    value = decodeText(encoding === 'BASE64' ? base64Bytes(value) : quotedPrintableBytes(value), parameter(parameters, 'CHARSET'))
+      .replace(/\r\n?/g, '\n');
+    delete parameters.ENCODING;
+    // Values are decoded text from here on, written as UTF-8
+    if (!/^utf-?8$/i.test(parameter(parameters, 'CHARSET') ?? '')) delete parameters.CHARSET;
+  }
+
+  return { ...(group && { group }), name, value, parameters };
+}
+
+function indexOutsideQuotes(text: string, char: string): number {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === char && !quoted) return i;
+  }
+  return -1;
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  for (let index = indexOutsideQuotes(rest, separator); index !== -1; index = indexOutsideQuotes(rest, separator)) {
+    parts.push(rest.substring(0, index));
+    rest = rest.substring(index + 1);
+  }
+  return [...parts, rest];
 }
 
-function addPropertyToCard(card: Partial<VCard>, property: VCardProperty): void {
-  const { name, value, parameters } = property;
+/**
+ * Add one property to a card: modeled properties fill their VCard fields, anything else (and
+ * grouped properties other than EMAIL, TEL and ADR) is kept in `extensions`
+ */
+export function addVCardProperty(card: Partial<VCard>, property: VCardProperty): void {
+  const { group, value, parameters = {} } = property;
+  const { type, pref } = typeAndPref(parameters);
+  const name = property.name.toUpperCase();
+  const text = (raw: string) => unescapeVCardValue(raw, card.version === '2.1' ? '2.1' : '4.0');
+  // ALTID joins the TITLE, ROLE and ORG of one job (language alternatives carry LANGUAGE as well)
+  const altId = parameters.LANGUAGE ? undefined : parameter(parameters, 'ALTID');
+  const job = (): VCardJob => {
+    card.jobs ??= [];
+    let entry = card.jobs.find(candidate => candidate.altId === altId);
+    if (!entry) card.jobs.push(entry = { altId: altId! });
+    return entry;
+  };
+  // Parameters no field holds (CHARSET only describes how the value was read)
+  const others = (...used: string[]): Record<string, string[]> | undefined => {
+    const rest = Object.entries(parameters).filter(([parameterName]) => ![...used, 'CHARSET'].includes(parameterName));
+    return rest.length > 0 ? Object.fromEntries(rest) : undefined;
+  };
+  const single = () => {
+    const rest = others();
+    if (rest) (card.parameters ??= {})[name] = rest;
+  };
+  const keep = () => {
+    // Literal line breaks (from quoted-printable values) are written as \n in vCard 3.0 and 4.0
+    (card.extensions ??= []).push({
+      ...(group && { group }),
+      name: property.name,
+      ...(Object.keys(parameters).length > 0 && { parameters }),
+      value: value.replace(/\r?\n/g, '\\n')
+    });
+  };
+
+  if (group && !['EMAIL', 'TEL', 'ADR', 'LABEL', 'X-ABLABEL'].includes(name)) {
+    keep();
+    return;
+  }
 
   switch (name) {
     case 'VERSION':
@@ -165,52 +342,337 @@ function addPropertyToCard(card: Partial<VCard>, property: VCardProperty): void
       card.uid = value;
       break;
     case 'FN':
-      card.fn = unescapeVCardValue(value);
+      card.fn = text(value);
+      single();
       break;
     case 'N':
-      card.n = value.split(';').map(unescapeVCardValue);
+      card.n = splitEscaped(value, ';').map(text);
+      single();
       break;
     case 'TITLE':
-      card.title = unescapeVCardValue(value);
+      if (altId !== undefined) {
+        job().title = text(value);
+      } else {
+        card.title = text(value);
+        single();
+      }
+      break;
+    case 'ROLE':
+      if (altId !== undefined) job().role = text(value);
+      else keep();
       break;
     case 'ORG':
-      card.org = value.split(';').map(unescapeVCardValue);
+      if (altId !== undefined) {
+        job().org = splitEscaped(value, ';').map(text);
+      } else {
+        card.org = splitEscaped(value, ';').map(text);
+        single();
+      }
       break;
     case 'EMAIL':
       if (!card.email) card.email = [];
-      card.email.push({
-        value: value,
-        type: parameters?.TYPE
-      });
+      card.email.push({ value, type, pref, group, parameters: others('TYPE', 'PREF') });
       break;
     case 'TEL':
       if (!card.tel) card.tel = [];
-      card.tel.push({
-        value: value,
-        type: parameters?.TYPE
-      });
+      card.tel.push({ value, type, valueType: parameter(parameters, 'VALUE'), pref, group, parameters: others('TYPE', 'PREF', 'VALUE') });
       break;
     case 'ADR':
       if (!card.adr) card.adr = [];
       card.adr.push({
-        value: value.split(';').map(unescapeVCardValue),
-        type: parameters?.TYPE
+        value: splitEscaped(value, ';').map(text),
+        type,
+        label: parameter(parameters, 'LABEL')?.replace(/\\n/gi, '\n'),
+        pref,
+        group,
+        parameters: others('TYPE', 'PREF', 'LABEL')
       });
       break;
+    case 'LABEL': {
+      // vCard 2.1/3.0 formatted address: belongs to the ADR with the same TYPE (or the last one)
+      const unlabelled = (card.adr ?? []).filter(adr => !adr.label);
+      const adr = unlabelled.find(adr => (adr.type ?? '').toLowerCase() === (type ?? '').toLowerCase())
+        ?? unlabelled[unlabelled.length - 1];
+      if (adr) adr.label = text(value);
+      break;
+    }
+    case 'X-ABLABEL': {
+      // Apple label for the properties in the same group: standard labels such as _$!<Mobile>!$_ add a TYPE
+      // The label itself is kept as an extension
+      const labelType = group ? APPLE_LABEL_TYPES[value.replace(/^_\$!<(.*)>!\$_$/, '$1').toLowerCase()] : undefined;
+      [...(card.email ?? []), ...(card.tel ?? []), ...(card.adr ?? [])]
+        .filter(entry => labelType && entry.group === group && !hasType(entry.type, labelType))
+        .forEach(entry => {
+          entry.type = entry.type ? `${entry.type},${labelType}` : labelType;
+        });
+      keep();
+      break;
+    }
+    case 'PHOTO': {
+      const photoType = parameter(parameters, 'TYPE');
+      if (normalizeEncoding(parameter(parameters, 'ENCODING')) === 'BASE64') {
+        const mediaType = photoMediaType(photoType);
+        card.photo = { value: `data:${mediaType ?? 'application/octet-stream'};base64,${value.replace(/\s+/g, '')}`, mediaType };
+      } else {
+        card.photo = { value, mediaType: parameter(parameters, 'MEDIATYPE') ?? photoMediaType(photoType) ?? /^data:([^;,]+)/.exec(value)?.[1] };
+      }
+      break;
+    }
     case 'URL':
       if (!card.url) card.url = [];
       card.url.push(value);
       break;
     case 'NOTE':
-      card.note = unescapeVCardValue(value);
+      card.note = text(value);
+      single();
       break;
     case 'CATEGORIES':
-      card.categories = value.split(',').map(s => s.trim());
+      card.categories = splitEscaped(value, ',').map(category => text(category.trim()));
+      single();
       break;
+    case 'BEGIN':
+    case 'END':
+    case 'PRODID': // Describes the exporting application
+      break;
+    default:
+      keep();
+  }
+}
+
+/**
+ * Split a structured or multi-valued value on a separator that is not escaped with a backslash
+ * (escapes are kept, so `a\\;b` splits after the escaped backslash)
+ */
+export function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[++i];
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
   }
+  return [...parts, current];
 }
 
-function escapeVCardValue(value: string): string {
+// Properties whose base64 values are binary data rather than encoded text
+const BINARY_PROPERTIES = ['PHOTO', 'LOGO', 'SOUND', 'KEY'];
+
+// TYPE values for Apple's standard X-ABLabel labels (custom labels are kept as they are)
+const APPLE_LABEL_TYPES: Record<string, string> = {
+  home: 'home',
+  work: 'work',
+  mobile: 'cell',
+  iphone: 'cell',
+  main: 'work',
+  homefax: 'fax',
+  workfax: 'fax',
+  otherfax: 'fax',
+  pager: 'pager',
+};
+
+// Bare vCard 2.1 parameters naming an ENCODING
+const ENCODINGS = ['QUOTED-PRINTABLE', 'BASE64', 'B', '8BIT', '7BIT'];
+
+// Physical lines longer than this many octets are folded (RFC 6350 section 3.2)
+const MAX_LINE_OCTETS = 75;
+
+function normalizeEncoding(encoding?: string): string | undefined {
+  const upper = encoding?.toUpperCase();
+  return upper === 'B' ? 'BASE64' : upper;
+}
+
+// Single value of a parameter (values split on unquoted commas are joined again)
+function parameter(parameters: Record<string, string[]>, name: string): string | undefined {
+  return parameters[name]?.join(',');
+}
+
+// Parameter value without quotes; RFC 6868 escapes (^n, ^^, ^') are decoded
+function parameterValue(value: string): string {
+  return value.trim().replace(/^"(.*)"$/s, '$1').replace(/\^(n|N|\^|')/g, (_, escape: string) => (
+    escape === '^' ? '^' : escape === "'" ? '"' : '\n'
+  ));
+}
+
+/**
+ * TYPE values (comma-separated, without duplicates) and the preference: the PREF parameter
+ * (vCard 4.0) or a `pref` TYPE value (vCard 3.0 TYPE=pref, vCard 2.1 bare PREF)
+ */
+function typeAndPref(parameters: Record<string, string[]>): { type?: string; pref?: number } {
+  const types = [...new Set(parameters.TYPE ?? [])];
+  const typePref = types.some(type => type.toLowerCase() === 'pref');
+  const others = types.filter(type => type.toLowerCase() !== 'pref');
+  const pref = parameters.PREF ? Number(parameters.PREF[0]) : typePref ? 1 : undefined;
+  return {
+    ...(others.length > 0 && { type: others.join(',') }),
+    ...(pref !== undefined && !Number.isNaN(pref) && { pref }),
+  };
+}
+
+function hasType(type: string | undefined, value: string): boolean {
+  return (type ?? '').toLowerCase().split(',').includes(value);
+}
+
+// Media type for a PHOTO TYPE parameter: JPEG (2.1/3.0) or image/jpeg
+function photoMediaType(type?: string): string | undefined {
+  if (!type) return undefined;
+  return type.includes('/') ? type.toLowerCase() : `image/${type.toLowerCase()}`;
+}
+
+// Encoding named by a content line's parameters (ENCODING=... or a bare 2.1 parameter)
+function lineEncoding(line: string): string | undefined {
+  const colonIndex = indexOutsideQuotes(line, ':');
+  if (colonIndex === -1) return undefined;
+  for (const param of splitOutsideQuotes(line.substring(0, colonIndex), ';').slice(1)) {
+    const [key, value] = param.includes('=') ? param.split('=', 2) : ['ENCODING', param];
+    if (key.toUpperCase() === 'ENCODING' && ENCODINGS.includes(value.toUpperCase())) return normalizeEncoding(value);
+  }
+  return undefined;
+}
+
+/**
+ * Logical content lines: folded lines (a line break followed by a space or tab) are joined, as
+ * are quoted-printable soft line breaks (a trailing '=') and the unindented base64 lines some
+ * vCard 2.1 writers emit
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    const last = lines.length - 1;
+    const encoding = last >= 0 && lines[last] ? lineEncoding(lines[last]) : undefined;
+    if (encoding === 'QUOTED-PRINTABLE' && lines[last].endsWith('=')) {
+      lines[last] = lines[last].slice(0, -1) + line;
+    } else if (last >= 0 && /^[ \t]/.test(line)) {
+      lines[last] += line.substring(1);
+    } else if (encoding === 'BASE64' && /^[A-Za-z0-9+/]+=*$/.test(line)) {
+      lines[last] += line;
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+function quotedPrintableBytes(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value[i] === '=' ? /^[0-9A-Fa-f]{2}/.exec(value.substring(i + 1, i + 3)) : null;
+    if (hex) {
+      bytes.push(parseInt(hex[0], 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(value[i], 'utf8'));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function base64Bytes(value: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.replace(/\s+/g, ''), 'base64'));
+}
+
+function decodeText(bytes: Uint8Array, charset = 'UTF-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes); // Unknown charset
+  }
+}
+
+// NAME=value[,value...]; values with ':', ';' or ',' are quoted, and ^, " and line breaks use RFC 6868 escapes
+function formatParameter(name: string, values: string[]): string {
+  return `${name}=${values.map(value => {
+    const escaped = value.replace(/\^/g, '^^').replace(/\r?\n/g, '^n').replace(/"/g, "^'");
+    return /[:;,]/.test(value) ? `"${escaped}"` : escaped;
+  }).join(',')}`;
+}
+
+function formatParameters(parameters: Record<string, string[]> | undefined): string[] {
+  return Object.entries(parameters ?? {}).map(([name, values]) => formatParameter(name, values));
+}
+
+function grouped(group: string | undefined, name: string): string {
+  return group ? `${group}.${name}` : name;
+}
+
+// TYPE (and PREF) parameters: TYPE=work,cell and PREF=1 in 4.0, TYPE=work,pref in 3.0, WORK;PREF in 2.1
+function typeParameters(version: VCardVersion, type: string | undefined, pref?: number): string[] {
+  const types = (type ?? '').split(',').filter(Boolean);
+  if (version === '4.0') return [...(types.length > 0 ? [`TYPE=${types.join(',')}`] : []), ...(pref ? [`PREF=${pref}`] : [])];
+  if (pref && !types.some(t => t.toLowerCase() === 'pref')) types.push('pref');
+  if (version === '3.0') return types.length > 0 ? [`TYPE=${types.join(',')}`] : [];
+  return types.map(t => t.toUpperCase());
+}
+
+/**
+ * Physical lines for one property. vCard 2.1 has no escape for line breaks and an unclear folding
+ * rule, so values that are multi-line, non-ASCII or too long are quoted-printable encoded there
+ * and broken with soft line breaks; everything else is folded with a leading space.
+ */
+function contentLines(version: VCardVersion, name: string, parameters: string[], value: string): string[] {
+  const binary = parameters.some(param => /^ENCODING=/i.test(param));
+  const head = [name, ...parameters].join(';');
+
+  if (version === '2.1' && !binary && (/[^\x20-\x7e]/.test(value) || head.length + 1 + value.length > MAX_LINE_OCTETS)) {
+    const charset = /[\u0080-\uffff]/.test(value) && !parameters.some(param => /^CHARSET=/i.test(param)) ? ['CHARSET=UTF-8'] : [];
+    return softBreakLines([head, 'ENCODING=QUOTED-PRINTABLE', ...charset].join(';'), encodeQuotedPrintable(value));
+  }
+
+  const lines = foldLine(`${head}:${value}`);
+  // vCard 2.1 readers expect a blank line after base64 data
+  return version === '2.1' && binary ? [...lines, ''] : lines;
+}
+
+// Fold a line into chunks of at most 75 octets without splitting UTF-8 sequences
+function foldLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  return [...lines, current];
+}
+
+function encodeQuotedPrintable(value: string): string {
+  return [...Buffer.from(value.replace(/\r?\n/g, '\r\n'), 'utf8')]
+    .map((byte, index, bytes) => {
+      const trailingSpace = byte === 0x20 && index === bytes.length - 1;
+      return byte >= 0x20 && byte <= 0x7e && byte !== 0x3d && !trailingSpace
+        ? String.fromCharCode(byte)
+        : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    })
+    .join('');
+}
+
+// Break a quoted-printable line with soft line breaks ('=') without splitting =XX escapes
+function softBreakLines(head: string, encoded: string): string[] {
+  const lines: string[] = [];
+  let current = `${head}:`;
+  for (const token of encoded.match(/=[0-9A-F]{2}|[^=]/g) ?? []) {
+    if (current.length + token.length + 1 > MAX_LINE_OCTETS) {
+      lines.push(`${current}=`);
+      current = '';
+    }
+    current += token;
+  }
+  return [...lines, current];
+}
+
+export function escapeVCardValue(value: string, version: VCardVersion = '4.0'): string {
+  // vCard 2.1 only escapes ';' (line breaks are quoted-printable encoded)
+  if (version === '2.1') return value.replace(/;/g, '\\;');
   return value
     .replace(/\\/g, '\\\\')
     .replace(/,/g, '\\,')
@@ -218,10 +680,9 @@ function escapeVCardValue(value: string): string {
     .replace(/\n/g, '\\n');
 }
 
-function unescapeVCardValue(value: string): string {
-  return value
-    .replace(/\\n/g, '\n')
-    .replace(/\\;/g, ';')
-    .replace(/\\,/g, ',')
-    .replace(/\\\\/g, '\\');
+export function unescapeVCardValue(value: string, version: VCardVersion = '4.0'): string {
+  // One left-to-right pass, so that \\n is a backslash followed by n (vCard 2.1 only escapes ';',
+  // and ',' in lists)
+  const escape = version === '2.1' ? /\\([;,])/g : /\\([\\;,nN])/g;
+  return value.replace(escape, (_, char: string) => char === 'n' || char === 'N' ? '\n' : char);
 }
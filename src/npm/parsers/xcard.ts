@@ -0,0 +1,212 @@
+// xCard (RFC 6351) parser and serializer, built on the jCard form of vCard 4.0 properties
+import { VCard } from './vcard';
+import { JCardProperty, JCardValue, STRUCTURED_PROPERTIES, vCardToJCard, jCardToVCard } from './jcard';
+
+export const XCARD_NAMESPACE = 'urn:ietf:params:xml:ns:vcard-4.0';
+
+// Component elements of structured values
+const COMPONENTS: Record<string, string[]> = {
+  N: ['surname', 'given', 'additional', 'prefix', 'suffix'],
+  ADR: ['pobox', 'ext', 'street', 'locality', 'region', 'code', 'country'],
+  GENDER: ['sex', 'identity'],
+  CLIENTPIDMAP: ['sourceid', 'uri']
+};
+
+// Parameters whose values are integers rather than text
+const INTEGER_PARAMETERS = ['pref'];
+
+/**
+ * Thrown when xCard input is not well-formed XML or does not have the RFC 6351 structure
+ */
+export class XCardParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XCardParseError';
+  }
+}
+
+interface XmlElement {
+  name: string; // Local name (namespace prefix removed)
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Character data directly inside the element
+}
+
+/**
+ * Convert VCard objects to an xCard document (`<vcards>` with one `<vcard>` per card). Grouped
+ * properties are written inside `<group name="...">` elements.
+ * @param cards - Array of VCard objects to serialize
+ * @returns xCard XML string
+ */
+export function stringifyXCard(cards: VCard[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<vcards xmlns="${XCARD_NAMESPACE}">`];
+  cards.forEach(card => {
+    lines.push('  <vcard>');
+    // Consecutive properties of a group share one <group> element (property order is kept)
+    let open: string | undefined;
+    vCardToJCard(card)[1].forEach(property => {
+      const group = typeof property[1].group === 'string' ? property[1].group : undefined;
+      if (open !== undefined && group !== open) lines.push('    </group>');
+      if (group !== undefined && group !== open) lines.push(`    <group name="${escapeXml(group)}">`);
+      open = group;
+      lines.push(`${group !== undefined ? '      ' : '    '}${propertyElement(property)}`);
+    });
+    if (open !== undefined) lines.push('    </group>');
+    lines.push('  </vcard>');
+  });
+  lines.push('</vcards>');
+  return lines.join('\n');
+}
+
+/**
+ * Parse an xCard document (`<vcards>`, or a single `<vcard>`) into VCard objects
+ * @param xml - The xCard content as a string
+ * @returns Array of parsed VCard objects
+ */
+export function parseXCard(xml: string): VCard[] {
+  const root = parseXml(xml);
+  const vcards = root.name === 'vcard' ? [root] : root.name === 'vcards' ? root.children.filter(child => child.name === 'vcard') : undefined;
+  if (!vcards) throw new XCardParseError(`Expected an xCard <vcards> element, found <${root.name}>`);
+
+  return vcards.map((vcard, index) => {
+    const properties = vcard.children.flatMap(child => child.name === 'group'
+      ? child.children.map(property => jCardProperty(property, child.attributes.name))
+      : [jCardProperty(child)]);
+    return jCardToVCard(['vcard', properties], `xCard ${index + 1}`);
+  });
+}
+
+function propertyElement([name, parameters, type, ...values]: JCardProperty): string {
+  const parameterElements = Object.entries(parameters)
+    .filter(([parameterName]) => parameterName !== 'group')
+    .map(([parameterName, parameterValues]) => {
+      const valueType = INTEGER_PARAMETERS.includes(parameterName) ? 'integer' : 'text';
+      return element(parameterName, (Array.isArray(parameterValues) ? parameterValues : [parameterValues]).map(value => element(valueType, escapeXml(value))).join(''));
+    });
+  const components = COMPONENTS[name.toUpperCase()];
+  const structured = type === 'text' && (components || STRUCTURED_PROPERTIES.includes(name.toUpperCase()));
+
+  let content: string;
+  if (structured) {
+    const value = values[0] ?? '';
+    const parts = Array.isArray(value) ? value : [value === null ? '' : String(value)];
+    content = parts.map((part, index) => {
+      const elementName = components?.[index] ?? 'text';
+      return (Array.isArray(part) ? part : [part]).map(item => element(elementName, escapeXml(item))).join('');
+    }).join('');
+  } else {
+    content = values.map(value => element(type, escapeXml(value === null ? '' : String(value)))).join('');
+  }
+  return element(name, (parameterElements.length > 0 ? element('parameters', parameterElements.join('')) : '') + content);
+}
+
+// jCard property for a property element; values keep their element's type (text, uri, unknown, ...)
+function jCardProperty(property: XmlElement, group?: string): JCardProperty {
+  const parameters: Record<string, string | string[]> = group !== undefined ? { group } : {};
+  property.children.filter(child => child.name === 'parameters').forEach(parametersElement => {
+    parametersElement.children.forEach(parameter => {
+      const values = parameter.children.map(value => value.text);
+      parameters[parameter.name] = values.length === 1 ? values[0] : values;
+    });
+  });
+
+  const valueElements = property.children.filter(child => child.name !== 'parameters');
+  const components = COMPONENTS[property.name.toUpperCase()];
+  if (components) {
+    const value = components.map(component => {
+      const values = valueElements.filter(child => child.name === component).map(child => child.text);
+      return values.length === 1 ? values[0] : values.length === 0 ? '' : values;
+    });
+    return [property.name, parameters, 'text', value];
+  }
+
+  const type = valueElements[0]?.name ?? 'unknown';
+  const values: JCardValue[] = valueElements.filter(child => child.name === type).map(child => child.text);
+  if (type === 'text' && STRUCTURED_PROPERTIES.includes(property.name.toUpperCase())) {
+    return [property.name, parameters, type, values as string[]];
+  }
+  return [property.name, parameters, type, ...(values.length > 0 ? values : [''])];
+}
+
+function element(name: string, content: string): string {
+  return content ? `<${name}>${content}</${name}>` : `<${name}/>`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Minimal XML reader for xCard: elements, attributes, character data, CDATA and the predefined and
+// numeric entities. DOCTYPE declarations (and with them entity definitions) are rejected.
+function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let position = 0;
+  const fail = (message: string): never => {
+    const line = xml.slice(0, position).split('\n').length;
+    throw new XCardParseError(`Invalid xCard XML (line ${line}): ${message}`);
+  };
+  const decodeEntities = (text: string): string => (
+    text.replace(/&([^;&\s]*);?/g, (entity, name: string) => {
+      const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+      if (!entity.endsWith(';')) return fail(`unterminated entity ${entity}`);
+      if (named[name]) return named[name];
+      const code = /^#x([0-9a-f]+)$/i.exec(name)?.[1];
+      const decimal = /^#(\d+)$/.exec(name)?.[1];
+      if (code || decimal) return String.fromCodePoint(parseInt(code ?? decimal!, code ? 16 : 10));
+      return fail(`unknown entity ${entity}`);
+    })
+  );
+
+  while (position < xml.length) {
+    const next = xml.indexOf('<', position);
+    const text = xml.slice(position, next === -1 ? xml.length : next);
+    if (stack.length > 0) stack[stack.length - 1].text += decodeEntities(text);
+    else if (text.trim()) fail('text outside the root element');
+    if (next === -1) break;
+    position = next;
+
+    const skip = (end: string) => {
+      const index = xml.indexOf(end, position);
+      if (index === -1) fail(`missing ${end}`);
+      const content = xml.slice(position, index);
+      position = index + end.length;
+      return content;
+    };
+    if (xml.startsWith('<?', position)) {
+      skip('?>');
+    } else if (xml.startsWith('<!--', position)) {
+      skip('-->');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const content = skip(']]>').slice('<![CDATA['.length);
+      if (stack.length === 0) fail('CDATA outside the root element');
+      stack[stack.length - 1].text += content;
+    } else if (xml.startsWith('<!', position)) {
+      fail('DOCTYPE and other declarations are not supported');
+    } else if (xml.startsWith('</', position)) {
+      const name = localName(skip('>').slice(2).trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`unexpected </${name}>`);
+    } else {
+      const tag = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(position));
+      if (!tag) fail('malformed tag');
+      position += tag![0].length;
+      const attributes: Record<string, string> = {};
+      for (const [, name, , doubleQuoted, singleQuoted] of tag![2].matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      const current: XmlElement = { name: localName(tag![1]), attributes, children: [], text: '' };
+      if (stack.length > 0) stack[stack.length - 1].children.push(current);
+      else if (root) fail('more than one root element');
+      else root = current;
+      if (!tag![3]) stack.push(current);
+    }
+  }
+
+  if (stack.length > 0) fail(`<${stack[stack.length - 1].name}> is not closed`);
+  return root ?? fail('no root element');
+}
+
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1);
+}
@@ -1,34 +1,59 @@
 import * as yaml from 'js-yaml';
-import { YCardSchema, YCard } from '../types';
+import { YCard } from '../types';
+import { YCardParser, type LocatedError, type YCardParserOptions } from '../../parser';
+import { SourceMap } from '../../source-map';
+import { CURRENT_YCARD_VERSION } from '../../migrations';
+
+// Alias registry and alias conflict mode used when parsing
+export type ParseYCardOptions = Pick<YCardParserOptions, 'registry' | 'aliasConflicts'>;
+
+/**
+ * Error thrown when yCard parsing fails, carrying each issue with its source range
+ */
+export class YCardParseError extends Error {
+  constructor(public readonly issues: LocatedError[]) {
+    super(`Failed to parse yCard:\n${issues.map(formatLocatedError).join('\n')}`);
+    this.name = 'YCardParseError';
+  }
+}
+
+/**
+ * Format a located error as `line:column path: message` (1-based line and column)
+ */
+export function formatLocatedError(error: LocatedError): string {
+  const position = `${error.range.start.line + 1}:${error.range.start.column + 1}`;
+  const path = error.path.length > 0 ? ` ${error.path.join('.')}` : '';
+  return `${position}${path}: ${error.message}`;
+}
 
 /**
  * Parse a YAML string into a YCard organization structure
  * @param yamlString - The YAML content as a string
+ * @param options - Alias registry to accept keys from (defaults to the built-in aliases) and
+ *   alias conflict mode (defaults to lenient; strict makes conflicting alias values an error)
  * @returns Parsed YCard organization
- * @throws Error if parsing or validation fails
+ * @throws YCardParseError if parsing or validation fails
  */
-export function parseYCard(yamlString: string): YCard {
-  try {
-    const data = yaml.load(yamlString) as any;
-    return YCardSchema.parse(data);
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to parse yCard: ${error.message}`);
-    }
-    throw new Error('Failed to parse yCard: Unknown error');
+export function parseYCard(yamlString: string, options: ParseYCardOptions = {}): YCard {
+  const parser = new YCardParser(options);
+  const result = parser.parse(yamlString);
+  if (result.success) {
+    return result.data;
   }
+  throw new YCardParseError(parser.getLocatedErrors(result.errors, SourceMap.fromText(yamlString, options.registry)));
 }
 
 /**
- * Convert a YCard organization structure to YAML string
+ * Convert a YCard organization structure to YAML string. The document is written in the current
+ * format, so `ycard_version` is set to CURRENT_YCARD_VERSION (as the first key).
  * @param org - The YCard organization to stringify
  * @returns YAML representation of the organization
  */
 export function stringifyYCard(org: YCard): string {
-  return yaml.dump(org, {
+  return yaml.dump({ ...org, ycard_version: CURRENT_YCARD_VERSION }, {
     indent: 2,
     lineWidth: -1,
     noRefs: true,
-    sortKeys: true
+    sortKeys: (a: string, b: string) => a === 'ycard_version' ? -1 : b === 'ycard_version' ? 1 : a < b ? -1 : a > b ? 1 : 0
   });
 }
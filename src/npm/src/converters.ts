@@ -51,10 +51,9 @@ export function yCardPersonToVCard(person: Person, orgName?: string): VCard {
   // Email addresses
   if (person.email) {
     card.email = [];
-    const emails = Array.isArray(person.email) ? person.email : [person.email];
-    emails.forEach((email: string, index: number) => {
+    person.email.forEach((email, index) => {
       card.email!.push({
-        value: email,
+        value: email.address,
         type: index === 0 ? 'work' : undefined
       });
     });
@@ -74,18 +73,18 @@ export function yCardPersonToVCard(person: Person, orgName?: string): VCard {
 
   // Address
   if (person.address) {
-    card.adr = [{
+    card.adr = person.address.map(address => ({
       value: [
         '', // Post office box
         '', // Extended address
-        person.address.street || '',
-        person.address.city || '',
-        person.address.state || '',
-        person.address.postal_code || '',
-        person.address.country || ''
+        address.street || '',
+        address.city || '',
+        address.state || '',
+        address.postal_code || '',
+        address.country || ''
       ],
-      type: 'work'
-    }];
+      type: address.type
+    }));
   }
 
   return card;
@@ -113,7 +112,7 @@ export function yCardToVCard(org: YCard): VCard[] {
 
         const jobCard = yCardPersonToVCard({
           ...person,
-          title: job.role || job.title,
+          title: job.role,
           org: job.org || person.org,
           org_unit: job.org_unit || person.org_unit,
           manager: job.manager || person.manager
@@ -174,9 +173,9 @@ export function vCardToYCardPerson(card: VCard): Person {
   // Email addresses
   if (card.email && card.email.length > 0) {
     if (card.email.length === 1) {
-      person.email = card.email[0].value;
+      person.email = [{ address: card.email[0].value, pref: true }];
     } else {
-      person.email = card.email.map(e => e.value);
+      person.email = card.email.map((e, index) => ({ address: e.value, pref: index === 0 }));
     }
   }
 
@@ -192,13 +191,14 @@ export function vCardToYCardPerson(card: VCard): Person {
   if (card.adr && card.adr.length > 0) {
     const adr = card.adr[0];
     if (adr.value && adr.value.length >= 7) {
-      person.address = {
+      person.address = [{
+        type: 'work',
         street: adr.value[2] || undefined,
         city: adr.value[3] || undefined,
         state: adr.value[4] || undefined,
         postal_code: adr.value[5] || undefined,
         country: adr.value[6] || undefined
-      };
+      }];
     }
   }
 
@@ -12,7 +12,7 @@ people:
     org: Example Corp
     phone:
       - type: work
-        number: "+1-555-0123"
+        number: "+1-201-555-0123"
 `;
 
   it('should parse and stringify yCard', () => {
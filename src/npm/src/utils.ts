@@ -32,8 +32,7 @@ export function yCardToLDIF(org: YCard, baseDn: string): string {
     if (person.manager) attributes.push(`manager: ${person.manager}`);
 
     if (person.email) {
-      const emails = Array.isArray(person.email) ? person.email : [person.email];
-      emails.forEach((email: string) => attributes.push(`mail: ${email}`));
+      person.email.forEach(email => attributes.push(`mail: ${email.address}`));
     }
 
     if (person.phone) {
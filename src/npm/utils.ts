@@ -1,54 +1,238 @@
-import { YCard, YCardSchema } from './types';
+import type { CountryCode } from 'libphonenumber-js';
+import { YCard, YCardSchema, OrgUnit, Person, Phone, I18n } from './types';
+import { LdifEntry, parseDn, normalizeDn, formatLdifLine, escapeDnValue } from './parsers/ldif';
+import { validateReferences } from '../integrity';
+import { findAliasConflicts, type AliasConflictMode } from '../conflicts';
+import { defaultAliasRegistry, type AliasRegistry } from '../aliases';
+import { createYCardSchema } from '../ycard-schema';
+import { normalizePhoneNumber, phoneRegion, validatePhones, type PhoneType } from '../phone';
+import { asciiEmailAddress } from '../email';
+import { formatAddress, ldapPostalAddress, type Address } from '../address';
+import { countryCodeFor } from '../countries';
+import { findOrg, findUnit, localizedName, unitChain, unitHeadcounts, type UnitHeadcount } from '../org-units';
+import { hasErrors, type YCardIssue } from '../issues';
+
+// LDAP attribute for each phone type
+const LDAP_PHONE_ATTRIBUTES: Record<PhoneType, string> = {
+  work: 'telephoneNumber',
+  mobile: 'mobile',
+  home: 'homePhone',
+  fax: 'facsimileTelephoneNumber',
+  pager: 'pager'
+};
+
+// Object classes of exported person entries
+const LDAP_OBJECT_CLASSES = ['inetOrgPerson', 'organizationalPerson', 'person', 'top'];
+
+export interface LdifExportOptions {
+  objectClasses?: string[]; // Object classes of person entries (default inetOrgPerson, organizationalPerson, person, top)
+  attributes?: Record<string, string>; // Attribute to write instead of a default one, e.g. { uid: 'sAMAccountName' }; '' leaves it out
+  dnByUnit?: boolean; // Place people under their unit's entry (uid=alice,ou=Platform,ou=Engineering,<baseDn>)
+}
 
 /**
- * Convert YCard organization to LDIF format
+ * Convert YCard organization to LDIF for ldapadd: organizationalUnit entries for defined units,
+ * then one entry per person with manager DNs, job titles and units, address attributes and
+ * `;lang-xx` variants from i18n. Every person gets the cn and sn that inetOrgPerson requires,
+ * even with only one name part. Values that are not plain ASCII are base64 encoded and long
+ * lines folded.
  * @param org - The yCard organization
  * @param baseDn - Base DN for the LDIF entries
+ * @param options - Person object classes, attribute mapping and DN placement
  * @returns LDIF formatted string
  */
-export function yCardToLDIF(org: YCard, baseDn: string): string {
+export function yCardToLDIF(org: YCard, baseDn: string, options: LdifExportOptions = {}): string {
   const entries: string[] = [];
+  const mapping = new Map(Object.entries(options.attributes ?? {}).map(([attribute, mapped]) => [attribute.toLowerCase(), mapped]));
+  const attributeName = (attribute: string) => mapping.get(attribute.toLowerCase()) ?? attribute;
+  const entry = (dn: string, attributes: Array<[string, string | undefined]>) => {
+    entries.push([formatLdifLine('dn', dn), ...attributes.flatMap(([description, value]) => {
+      const [attribute, ...options] = description.split(';');
+      const mapped = attributeName(attribute);
+      return mapped && value ? [formatLdifLine([mapped, ...options].join(';'), value)] : [];
+    })].join('\n'));
+  };
+
+  // organizationalUnit entries, parents before children: ou=Platform,ou=Engineering,<baseDn>
+  const unitDn = (unit: OrgUnit) =>
+    [...unitChain(org, unit).map(member => `ou=${escapeDnValue(localizedName(member))}`), baseDn].join(',');
+  [...org.units ?? []]
+    .sort((a, b) => unitChain(org, a).length - unitChain(org, b).length)
+    .forEach(unit => entries.push([
+      formatLdifLine('dn', unitDn(unit)),
+      'objectClass: organizationalUnit',
+      'objectClass: top',
+      formatLdifLine('ou', localizedName(unit)),
+      ...(unit.cost_center ? [formatLdifLine('businessCategory', unit.cost_center)] : []),
+    ].join('\n')));
+
+  // Person DNs, so that manager values point at the manager's entry
+  const uidAttribute = attributeName('uid') || 'uid';
+  const personDn = (uid: string, orgUnit?: string) => {
+    const unit = options.dnByUnit && orgUnit ? findUnit(org, orgUnit) : undefined;
+    return `${uidAttribute}=${escapeDnValue(uid)},${unit ? unitDn(unit) : baseDn}`;
+  };
+  const dns = new Map(org.people.map(person => [person.uid, personDn(person.uid, person.org_unit)]));
+  const unitName = (id?: string) => {
+    const unit = id ? findUnit(org, id) : undefined;
+    return unit ? localizedName(unit) : id;
+  };
+  const unique = (values: Array<string | undefined>) => [...new Set(values.filter((value): value is string => Boolean(value)))];
 
   org.people.forEach(person => {
-    const dn = `uid=${person.uid},${baseDn}`;
-    const attributes: string[] = [];
-
-    attributes.push(`dn: ${dn}`);
-    attributes.push(`objectClass: inetOrgPerson`);
-    attributes.push(`objectClass: organizationalPerson`);
-    attributes.push(`objectClass: person`);
-    attributes.push(`objectClass: top`);
-    attributes.push(`uid: ${person.uid}`);
-
-    if (person.name) attributes.push(`givenName: ${person.name}`);
-    if (person.surname) attributes.push(`sn: ${person.surname}`);
-    if (person.name && person.surname) {
-      attributes.push(`cn: ${person.name} ${person.surname}`);
+    const jobs = person.jobs ?? [];
+    // inetOrgPerson requires cn and sn: a cn kept on import, the full name, a display name or the
+    // uid; the surname or cn
+    const displayNames = person.i18n?.displayName ?? {};
+    const cn = displayNames[UNDETERMINED_LANGUAGE] || [person.name, person.surname].filter(Boolean).join(' ') || Object.values(displayNames)[0] || person.uid;
+    const definedOrg = person.org ? findOrg(org, person.org) : undefined;
+    const attributes: Array<[string, string | undefined]> = [
+      ...(options.objectClasses ?? LDAP_OBJECT_CLASSES).map((objectClass): [string, string] => ['objectClass', objectClass]),
+      ['uid', person.uid],
+      ['givenName', person.name],
+      ['sn', person.surname || cn],
+      ['cn', cn],
+      // Multi-hat people have a title and an ou for each job (primary first)
+      ...unique([person.title, ...jobs.map(job => job.role)]).map((title): [string, string] => ['title', title]),
+      ['o', definedOrg ? localizedName(definedOrg) : person.org],
+      ...unique([unitName(person.org_unit), ...jobs.map(job => unitName(job.org_unit))]).map((ou): [string, string] => ['ou', ou]),
+      // Defined units carry their cost center as departmentNumber
+      ['departmentNumber', person.org_unit ? findUnit(org, person.org_unit)?.cost_center : undefined],
+      ['manager', person.manager ? dns.get(person.manager) ?? personDn(person.manager) : undefined],
+    ];
+
+    // Preferred address first; mail is IA5String, so IDN domains are written in punycode
+    if (person.email) {
+      [...person.email]
+        .sort((a, b) => Number(b.pref) - Number(a.pref))
+        .forEach(email => attributes.push(['mail', asciiEmailAddress(email.address)]));
     }
 
-    if (person.title) attributes.push(`title: ${person.title}`);
-    if (person.org) attributes.push(`o: ${person.org}`);
-    if (person.org_unit) attributes.push(`ou: ${person.org_unit}`);
-    if (person.manager) attributes.push(`manager: ${person.manager}`);
+    // Phone numbers (E.164) go to the inetOrgPerson attribute for their type
+    person.phone?.forEach(phone => attributes.push([LDAP_PHONE_ATTRIBUTES[phone.type], phone.number]));
 
-    if (person.email) {
-      const emails = Array.isArray(person.email) ? person.email : [person.email];
-      emails.forEach((email: string) => attributes.push(`mail: ${email}`));
+    // Addresses as PostalAddress values: home → homePostalAddress, work and mailing → postalAddress.
+    // The first work (or mailing) address is also written as street, l, st, postalCode and c.
+    person.address?.forEach(address => {
+      const attribute = address.type === 'home' ? 'homePostalAddress' : 'postalAddress';
+      attributes.push([attribute, ldapPostalAddress(formatAddress(address))]);
+    });
+    const business = person.address?.find(address => address.type === 'work') ?? person.address?.find(address => address.type === 'mailing');
+    if (business) {
+      attributes.push(
+        ['street', business.street?.replace(/\n/g, ', ')],
+        ['l', business.city],
+        ['st', business.state],
+        ['postalCode', business.postal_code],
+        ['c', business.country]
+      );
     }
 
-    if (person.phone) {
-      person.phone.forEach((phone: any) => {
-        const phoneStr = typeof phone === 'string' ? phone : phone.number;
-        attributes.push(`telephoneNumber: ${phoneStr}`);
+    // Language variants: i18n.displayName.ja → cn;lang-ja
+    Object.entries(LDAP_I18N_FIELDS).forEach(([attribute, field]) => {
+      Object.entries(person.i18n?.[field] ?? {}).filter(([language]) => language !== UNDETERMINED_LANGUAGE).forEach(([language, value]) => {
+        attributes.push([`${attribute};lang-${language}`, value]);
       });
-    }
+    });
 
-    entries.push(attributes.join('\n'));
+    entry(dns.get(person.uid)!, attributes);
   });
 
   return entries.join('\n\n') + '\n';
 }
 
+// Language tag of a cn that could not be split into name and surname (BCP 47 "undetermined").
+// It is written back as the plain cn rather than as a cn;lang-und variant.
+const UNDETERMINED_LANGUAGE = 'und';
+
+// Object classes of person entries (inetOrgPerson and its superclasses, Active Directory's user)
+const LDAP_PERSON_CLASSES = ['inetorgperson', 'organizationalperson', 'person', 'user'];
+
+// i18n field for each attribute with language variants (cn;lang-ja → i18n.displayName.ja)
+const LDAP_I18N_FIELDS: Record<string, keyof I18n> = {
+  cn: 'displayName',
+  givenName: 'name',
+  sn: 'surname',
+  title: 'title',
+  o: 'org',
+  ou: 'org_unit'
+};
+
+/**
+ * Convert LDIF entries (see parseLDIF) to a YCard organization. Person entries (inetOrgPerson,
+ * organizationalPerson, person or Active Directory user) become people: `manager` DNs are turned
+ * into the manager's uid, and `;lang-xx` variants of cn, givenName, sn, title, o and ou go to i18n.
+ * Other entries are skipped.
+ * @param entries - Parsed LDIF entries
+ * @returns YCard organization
+ */
+export function ldifToYCard(entries: LdifEntry[]): YCard {
+  const isPerson = (entry: LdifEntry) =>
+    (entry.attributes.objectclass ?? []).some(objectClass => LDAP_PERSON_CLASSES.includes(objectClass.toLowerCase()));
+  const personEntries = entries.filter(isPerson);
+
+  // uid attribute, or the value of the entry's first RDN (cn=Alice Smith,...)
+  const uidFor = (entry: LdifEntry) => entry.attributes.uid?.[0] ?? entry.attributes.samaccountname?.[0] ?? parseDn(entry.dn)[0]?.[1] ?? entry.dn;
+  const uids = new Map(personEntries.map(entry => [normalizeDn(entry.dn), uidFor(entry)]));
+  const managerUid = (dn: string) => uids.get(normalizeDn(dn)) ?? parseDn(dn).find(([type]) => type === 'uid')?.[1] ?? parseDn(dn)[0]?.[1] ?? dn;
+
+  const people = personEntries.map(entry => {
+    const first = (name: string) => entry.attributes[name]?.[0];
+    const person: Person = { uid: uidFor(entry) };
+
+    const name = first('givenname');
+    const surname = first('sn');
+    const cn = first('cn');
+    if (name || surname) {
+      if (name) person.name = name;
+      // An sn that repeats a one-word name only fills the required attribute (see yCardToLDIF)
+      if (surname && !(surname === name && cn === name)) person.surname = surname;
+      // Without a givenName, cn gives the name: "Bob Jones" with sn Jones is Bob. A cn that does
+      // not end with the surname is kept as the display name.
+      const given = !name && surname && cn?.endsWith(` ${surname}`) ? cn.slice(0, -surname.length).trim() : undefined;
+      if (given) {
+        person.name = given;
+      } else if (!name && cn && cn !== surname) {
+        person.i18n = { displayName: { [UNDETERMINED_LANGUAGE]: cn } };
+      }
+    } else if (cn) {
+      person.name = cn;
+    }
+    if (first('title')) person.title = first('title');
+    if (first('o')) person.org = first('o');
+    if (first('ou')) person.org_unit = first('ou');
+    if (first('manager')) person.manager = managerUid(first('manager')!);
+
+    // The first mail value is the preferred address
+    if (entry.attributes.mail) {
+      person.email = entry.attributes.mail.map((address, index) => ({ address, pref: index === 0 }));
+    }
+
+    const addresses = ldapAddresses(entry);
+    if (addresses.length > 0) person.address = addresses;
+
+    // Numbers without a country code use the address country (as the schema does)
+    const region = phoneRegion(addresses.find(address => address.country)?.country);
+    const phones = (Object.entries(LDAP_PHONE_ATTRIBUTES) as Array<[PhoneType, string]>).flatMap(([type, attribute]) =>
+      (entry.attributes[attribute.toLowerCase()] ?? []).map(value => ldapPhone(type, value, region)));
+    if (phones.length > 0) person.phone = phones;
+
+    // Language variants: cn;lang-ja → i18n.displayName.ja
+    const i18n: I18n = person.i18n ?? {};
+    Object.entries(entry.attributes).forEach(([description, values]) => {
+      const [attribute, ...options] = description.split(';');
+      const language = options.find(option => option.startsWith('lang-'))?.slice('lang-'.length);
+      const field = Object.entries(LDAP_I18N_FIELDS).find(([name]) => name.toLowerCase() === attribute)?.[1];
+      if (language && field) (i18n[field] ??= {})[languageTag(language)] = values[0];
+    });
+    if (Object.keys(i18n).length > 0) person.i18n = i18n;
+
+    return person;
+  });
+
+  return { people };
+}
+
 /**
  * Convert YCard organization to CSV format
  * @param org - The yCard organization
@@ -64,11 +248,11 @@ export function yCardToCSV(org: YCard): string {
 
   org.people.forEach(person => {
     const email = person.email
-      ? (Array.isArray(person.email) ? person.email.join(';') : person.email)
+      ? person.email.map(e => e.address).join(';')
       : '';
 
     const phone = person.phone
-      ? person.phone.map((p: any) => typeof p === 'string' ? p : p.number).join(';')
+      ? person.phone.map(p => p.display ?? p.number).join(';')
       : '';
 
     const row = [
@@ -106,13 +290,21 @@ export function normalizeYCard(input: unknown): YCard {
 
 /**
  * Validate yCard data and return validation results
+ * Runs the schema first, then alias conflict analysis (see findAliasConflicts),
+ * cross-record reference checks (see validateReferences) and phone number checks (see validatePhones)
  * @param org - The yCard data to validate
- * @returns Validation result with success status and error messages
+ * @param options - Alias registry (defaults to the built-in aliases) and alias conflict mode
+ *   (defaults to lenient, where conflicts are warnings; strict makes them errors)
+ * @returns Validation result with success status, error messages and structured issues
  */
-export function validateYCard(org: unknown): { valid: boolean; errors?: string[] } {
+export function validateYCard(
+  org: unknown,
+  options: { registry?: AliasRegistry; aliasConflicts?: AliasConflictMode } = {}
+): { valid: boolean; errors?: string[]; issues?: YCardIssue[] } {
+  const { registry = defaultAliasRegistry, aliasConflicts = 'lenient' } = options;
+  let data: YCard;
   try {
-    YCardSchema.parse(org);
-    return { valid: true };
+    data = createYCardSchema(registry).YCardSchema.parse(org);
   } catch (error) {
     if (error instanceof Error) {
       // Try to extract detailed error messages from Zod
@@ -121,6 +313,22 @@ export function validateYCard(org: unknown): { valid: boolean; errors?: string[]
     }
     return { valid: false, errors: ['Unknown validation error'] };
   }
+
+  const issues: YCardIssue[] = [
+    ...(aliasConflicts === 'off' ? [] : findAliasConflicts(org, aliasConflicts, registry)),
+    ...validateReferences(data),
+    ...validatePhones(data),
+  ];
+  if (issues.length === 0) {
+    return { valid: true };
+  }
+  return {
+    valid: !hasErrors(issues),
+    errors: issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `${issue.path.join('.')}: ${issue.message}`),
+    issues
+  };
 }
 
 /**
@@ -133,13 +341,17 @@ export function getYCardSummary(org: YCard): {
   organizations: string[];
   titles: string[];
   hasMultiHat: boolean;
+  units: UnitHeadcount[];
 } {
   const organizations = new Set<string>();
   const titles = new Set<string>();
   let hasMultiHat = false;
 
   org.people.forEach(person => {
-    if (person.org) organizations.add(person.org);
+    if (person.org) {
+      const definition = findOrg(org, person.org);
+      organizations.add(definition ? localizedName(definition) : person.org);
+    }
     if (person.title) titles.add(person.title);
     if (person.jobs && person.jobs.length > 1) hasMultiHat = true;
   });
@@ -148,6 +360,52 @@ export function getYCardSummary(org: YCard): {
     totalPeople: org.people.length,
     organizations: Array.from(organizations),
     titles: Array.from(titles),
-    hasMultiHat
+    hasMultiHat,
+    units: unitHeadcounts(org)
   };
 }
+
+function ldapPhone(type: PhoneType, value: string, region?: CountryCode): Phone {
+  const normalized = normalizePhoneNumber(value, region);
+  return normalized.valid
+    ? { type, number: normalized.number, display: normalized.display, ...(normalized.ext && { ext: normalized.ext }) }
+    : { type, number: value };
+}
+
+// Work address from street/l/st/postalCode/c, or addresses from the PostalAddress attributes
+// (lines joined by '$'; a last line naming a country becomes the country code)
+function ldapAddresses(entry: LdifEntry): Address[] {
+  const first = (name: string) => entry.attributes[name.toLowerCase()]?.[0];
+  const country = first('c') ?? first('co');
+  if (['street', 'l', 'st', 'postalCode'].some(first) || country) {
+    return [{
+      type: 'work',
+      ...(first('street') && { street: first('street') }),
+      ...(first('l') && { city: first('l') }),
+      ...(first('st') && { state: first('st') }),
+      ...(first('postalCode') && { postal_code: first('postalCode') }),
+      ...(country && { country: countryCodeFor(country) ?? country })
+    }];
+  }
+
+  return (['postalAddress', 'homePostalAddress'] as const).flatMap(attribute =>
+    (entry.attributes[attribute.toLowerCase()] ?? []).map(value => {
+      const lines = value.split('$').map(line => line.replace(/\\24/gi, '$').replace(/\\5C/gi, '\\').trim()).filter(Boolean);
+      const code = lines.length > 1 ? countryCodeFor(lines[lines.length - 1]) : undefined;
+      return {
+        type: attribute === 'homePostalAddress' ? 'home' : 'work',
+        street: (code ? lines.slice(0, -1) : lines).join('\n'),
+        ...(code && { country: code })
+      } as Address;
+    }));
+}
+
+// BCP 47 casing for a language tag from an LDAP option (ja, zh-hant-tw → zh-Hant-TW)
+function languageTag(tag: string): string {
+  return tag.split('-').map((part, index) => {
+    if (index === 0) return part.toLowerCase();
+    if (part.length === 2) return part.toUpperCase();
+    if (part.length === 4) return part[0].toUpperCase() + part.slice(1).toLowerCase();
+    return part.toLowerCase();
+  }).join('-');
+}
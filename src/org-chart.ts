@@ -0,0 +1,255 @@
+import type { YCard, Person } from './ycard-schema';
+import { YCardParser } from './parser';
+import { OrgGraph, type OrgEdgeKind } from './org-graph';
+import { findUnit, localizedName } from './org-units';
+
+export interface OrgChartOptions {
+  root?: string; // Chart only this person and the people below them
+  depth?: number; // Levels below the root(s) to include (0 = roots only)
+  groupBy?: 'org_unit'; // Cluster people by their org unit
+  language?: string; // i18n language for names, titles and unit names
+}
+
+export interface OrgChartNode {
+  uid: string;
+  label: string[]; // Display name, then one line per role
+  level: number; // Distance from the chart's roots (solid lines)
+  parent?: string; // Primary manager within the chart; roots have none
+  group?: string; // Org unit display name when grouping
+}
+
+export interface OrgChartEdge {
+  manager: string;
+  report: string;
+  kind: OrgEdgeKind;
+}
+
+// People and reporting lines selected for a chart
+export interface OrgChart {
+  nodes: OrgChartNode[];
+  edges: OrgChartEdge[];
+  groups: string[];
+}
+
+/**
+ * Thrown for chart options that do not match the document (e.g. an unknown root UID)
+ */
+export class OrgChartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrgChartError';
+  }
+}
+
+/**
+ * Select the people and lines to draw. Levels are counted along solid lines from the root (or
+ * from every person without a manager); people only reachable through a cycle are placed at the
+ * top. Solid lines from every job are kept, so multi-hat people can have several managers.
+ */
+export function buildOrgChart(card: YCard, options: OrgChartOptions = {}): OrgChart {
+  const graph = new OrgGraph(card);
+  if (options.root !== undefined && !graph.has(options.root)) {
+    throw new OrgChartError(`Unknown root UID '${options.root}'`);
+  }
+
+  // Start from the root, or from everyone without a (known) manager; people only reachable
+  // through a management cycle start at the top too
+  const starts = options.root !== undefined ? [options.root] : [...graph.roots(), ...graph.orphans()];
+  if (options.root === undefined) {
+    const reachable = new Set(starts.flatMap(uid => [uid, ...graph.allReports(uid)]));
+    starts.push(...new Set(card.people.map(person => person.uid).filter(uid => !reachable.has(uid))));
+  }
+
+  // Breadth-first, so each person gets their shortest distance
+  const levels = new Map<string, number>(starts.map(uid => [uid, 0]));
+  const queue = [...levels.keys()];
+  for (let index = 0; index < queue.length; index++) {
+    const level = levels.get(queue[index])!;
+    if (options.depth !== undefined && level >= options.depth) continue;
+    for (const report of graph.directReports(queue[index])) {
+      if (levels.has(report)) continue;
+      levels.set(report, level + 1);
+      queue.push(report);
+    }
+  }
+
+  const parser = new YCardParser();
+  const groups: string[] = [];
+  const nodes = [...levels.entries()].map(([uid, level]): OrgChartNode => {
+    const person = graph.person(uid)!;
+    const manager = graph.primaryManager(uid);
+    const node: OrgChartNode = {
+      uid,
+      label: personLabel(parser, person, options.language),
+      level,
+      ...(manager && levels.has(manager) && uid !== options.root && { parent: manager }),
+    };
+    if (options.groupBy === 'org_unit' && person.org_unit) {
+      const unit = findUnit(card, person.org_unit);
+      node.group = unit ? localizedName(unit, options.language) : person.org_unit;
+      if (!groups.includes(node.group)) groups.push(node.group);
+    }
+    return node;
+  });
+
+  const seen = new Set<string>();
+  const edges = graph.edges()
+    .filter(edge => levels.has(edge.manager) && levels.has(edge.report) && edge.manager !== edge.report && edge.report !== options.root)
+    .map(({ manager, report, kind }) => ({ manager, report, kind }))
+    .filter(edge => {
+      const key = `${edge.kind} ${edge.manager} ${edge.report}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return { nodes, edges, groups };
+}
+
+/**
+ * Graphviz DOT: managers above reports, dotted lines dashed and left out of the ranking
+ */
+export function orgChartToDot(card: YCard, options: OrgChartOptions = {}): string {
+  const chart = buildOrgChart(card, options);
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const nodeLine = (node: OrgChartNode) => `${quote(node.uid)} [label=${quote(node.label.join('\n')).replace(/\n/g, '\\n')}];`;
+
+  const lines = [
+    'digraph OrgChart {',
+    '  rankdir=TB;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#f5f7fa", fontname="Helvetica"];',
+    ...chart.nodes.filter(node => !node.group).map(node => `  ${nodeLine(node)}`),
+  ];
+  chart.groups.forEach((group, index) => {
+    lines.push(`  subgraph cluster_${index} {`, `    label=${quote(group)};`, '    style=rounded;');
+    chart.nodes.filter(node => node.group === group).forEach(node => lines.push(`    ${nodeLine(node)}`));
+    lines.push('  }');
+  });
+  chart.edges.forEach(edge => {
+    const style = edge.kind === 'dotted' ? ' [style=dashed, constraint=false]' : '';
+    lines.push(`  ${quote(edge.manager)} -> ${quote(edge.report)}${style};`);
+  });
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid flowchart (top-down). Node ids are generated (p0, p1, ...) so any UID is safe.
+ */
+export function orgChartToMermaid(card: YCard, options: OrgChartOptions = {}): string {
+  const chart = buildOrgChart(card, options);
+  const ids = new Map(chart.nodes.map((node, index) => [node.uid, `p${index}`]));
+  const text = (value: string) => value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+  const nodeLine = (node: OrgChartNode) => `${ids.get(node.uid)}["${node.label.map(text).join('<br/>')}"]`;
+
+  const lines = ['flowchart TD', ...chart.nodes.filter(node => !node.group).map(node => `  ${nodeLine(node)}`)];
+  chart.groups.forEach((group, index) => {
+    lines.push(`  subgraph unit${index}["${text(group)}"]`);
+    chart.nodes.filter(node => node.group === group).forEach(node => lines.push(`    ${nodeLine(node)}`));
+    lines.push('  end');
+  });
+  chart.edges.forEach(edge => {
+    lines.push(`  ${ids.get(edge.manager)} ${edge.kind === 'dotted' ? '-.->' : '-->'} ${ids.get(edge.report)}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+// SVG layout constants (px)
+const BOX_WIDTH = 180;
+const LINE_HEIGHT = 16;
+const GAP_X = 24;
+const GAP_Y = 48;
+const MARGIN = 20;
+const MAX_LABEL_CHARS = 26;
+const GROUP_COLORS = ['#dbeafe', '#dcfce7', '#fef3c7', '#fce7f3', '#e0e7ff', '#ccfbf1', '#fee2e2', '#f3e8ff'];
+
+/**
+ * Standalone SVG with a tidy tree layout: each person sits under their primary manager, centered
+ * over their own reports. Other solid lines are drawn straight, dotted lines dashed. When grouping,
+ * people are colored by org unit with a legend.
+ */
+export function orgChartToSvg(card: YCard, options: OrgChartOptions = {}): string {
+  const chart = buildOrgChart(card, options);
+  const boxHeight = Math.max(...chart.nodes.map(node => node.label.length), 1) * LINE_HEIGHT + 16;
+
+  // Place leaves left to right and center parents over their children
+  const children = new Map<string, OrgChartNode[]>();
+  chart.nodes.forEach(node => {
+    if (node.parent) children.set(node.parent, [...children.get(node.parent) ?? [], node]);
+  });
+  const slots = new Map<string, { x: number; row: number }>();
+  let nextSlot = 0;
+  const place = (node: OrgChartNode, row: number) => {
+    const below = (children.get(node.uid) ?? []).filter(child => !slots.has(child.uid));
+    slots.set(node.uid, { x: 0, row });
+    below.forEach(child => place(child, row + 1));
+    const xs = below.map(child => slots.get(child.uid)!.x);
+    slots.set(node.uid, { x: xs.length > 0 ? (xs[0] + xs[xs.length - 1]) / 2 : nextSlot++, row });
+  };
+  chart.nodes.filter(node => !node.parent).forEach(node => place(node, 0));
+  chart.nodes.filter(node => !slots.has(node.uid)).forEach(node => place(node, 0));
+
+  const position = (uid: string) => {
+    const { x, row } = slots.get(uid)!;
+    return { x: MARGIN + x * (BOX_WIDTH + GAP_X), y: MARGIN + row * (boxHeight + GAP_Y) };
+  };
+  const rows = Math.max(...[...slots.values()].map(slot => slot.row), 0) + 1;
+  const legendHeight = chart.groups.length > 0 ? chart.groups.length * LINE_HEIGHT + 16 : 0;
+  const width = MARGIN * 2 + Math.max(nextSlot, 1) * (BOX_WIDTH + GAP_X) - GAP_X;
+  const height = MARGIN * 2 + rows * (boxHeight + GAP_Y) - GAP_Y + legendHeight;
+  const groupColor = (group?: string) => group === undefined ? '#f5f7fa' : GROUP_COLORS[chart.groups.indexOf(group) % GROUP_COLORS.length];
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif" font-size="12">`,
+    '<g fill="none" stroke="#64748b" stroke-width="1.5">',
+  ];
+  chart.edges.forEach(edge => {
+    const from = position(edge.manager);
+    const to = position(edge.report);
+    const [x1, y1, x2, y2] = [from.x + BOX_WIDTH / 2, from.y + boxHeight, to.x + BOX_WIDTH / 2, to.y];
+    const tree = edge.kind === 'solid' && chart.nodes.find(node => node.uid === edge.report)?.parent === edge.manager;
+    const path = tree
+      ? `M${x1},${y1} V${y1 + GAP_Y / 2} H${x2} V${y2}`
+      : `M${x1},${y1} L${x2},${y2}`;
+    parts.push(`<path d="${path}"${edge.kind === 'dotted' ? ' stroke-dasharray="5,4"' : ''}/>`);
+  });
+  parts.push('</g>');
+
+  chart.nodes.forEach(node => {
+    const { x, y } = position(node.uid);
+    parts.push(`<g transform="translate(${x},${y})"><title>${escapeXml(node.uid)}</title>`);
+    parts.push(`<rect width="${BOX_WIDTH}" height="${boxHeight}" rx="6" fill="${groupColor(node.group)}" stroke="#94a3b8"/>`);
+    node.label.forEach((line, index) => {
+      const weight = index === 0 ? ' font-weight="bold"' : '';
+      parts.push(`<text x="${BOX_WIDTH / 2}" y="${14 + (index + 0.5) * LINE_HEIGHT}" text-anchor="middle"${weight}>${escapeXml(truncate(line))}</text>`);
+    });
+    parts.push('</g>');
+  });
+
+  chart.groups.forEach((group, index) => {
+    const y = height - MARGIN - legendHeight + 16 + index * LINE_HEIGHT;
+    parts.push(`<rect x="${MARGIN}" y="${y - 10}" width="12" height="12" fill="${groupColor(group)}" stroke="#94a3b8"/>`);
+    parts.push(`<text x="${MARGIN + 18}" y="${y}">${escapeXml(group)}</text>`);
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n') + '\n';
+}
+
+// Display name (i18n displayName, else name and surname, else UID), then each role
+function personLabel(parser: YCardParser, person: Person, language?: string): string[] {
+  const localized: Person & { displayName?: string } = language ? parser.getLocalizedPerson(person, language) : person;
+  const name = localized.displayName || [localized.name, localized.surname].filter(Boolean).join(' ') || person.uid;
+  const roles = person.jobs?.length
+    ? person.jobs.map(job => job.role).filter((role): role is string => !!role)
+    : [localized.title].filter((title): title is string => !!title);
+  return [name, ...new Set(roles)];
+}
+
+function truncate(line: string): string {
+  return line.length > MAX_LABEL_CHARS ? `${line.slice(0, MAX_LABEL_CHARS - 1)}…` : line;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,177 @@
+import type { YCard, Person } from './ycard-schema';
+
+export type OrgEdgeKind = 'solid' | 'dotted';
+
+// A reporting line from `report` to `manager`
+export interface OrgEdge {
+  report: string;
+  manager: string;
+  kind: OrgEdgeKind;
+  job?: number; // Index in the report's jobs when the line comes from a job
+}
+
+/**
+ * Reporting lines of a parsed yCard. Solid lines come from `manager` and `jobs[].manager`,
+ * dotted lines from `jobs[].dotted`. Lines to UIDs that are not in the document are kept as
+ * edges (see orphans) but never followed.
+ *
+ * Chains follow each person's primary manager: `manager`, else the manager of the primary job,
+ * else of the first job that has one. Walks stop at management cycles.
+ */
+export class OrgGraph {
+  private people = new Map<string, Person>();
+  private edgeList: OrgEdge[] = [];
+  private reportsByManager = new Map<OrgEdgeKind, Map<string, string[]>>([['solid', new Map()], ['dotted', new Map()]]);
+
+  constructor(card: YCard) {
+    card.people.forEach(person => {
+      if (!this.people.has(person.uid)) this.people.set(person.uid, person);
+    });
+
+    for (const person of this.people.values()) {
+      if (person.manager) this.addEdge({ report: person.uid, manager: person.manager, kind: 'solid' });
+      person.jobs?.forEach((job, index) => {
+        if (job.manager) this.addEdge({ report: person.uid, manager: job.manager, kind: 'solid', job: index });
+        job.dotted.forEach(manager => this.addEdge({ report: person.uid, manager, kind: 'dotted', job: index }));
+      });
+    }
+  }
+
+  /**
+   * Person record for a UID (the first one when a UID is duplicated)
+   */
+  person(uid: string): Person | undefined {
+    return this.people.get(uid);
+  }
+
+  has(uid: string): boolean {
+    return this.people.has(uid);
+  }
+
+  /**
+   * Every reporting line, optionally of one kind
+   */
+  edges(kind?: OrgEdgeKind): OrgEdge[] {
+    return kind ? this.edgeList.filter(edge => edge.kind === kind) : [...this.edgeList];
+  }
+
+  /**
+   * Known managers of a person (all of their jobs), without duplicates
+   */
+  managers(uid: string, kind: OrgEdgeKind = 'solid'): string[] {
+    const managers = this.edgeList
+      .filter(edge => edge.report === uid && edge.kind === kind && edge.manager !== uid && this.people.has(edge.manager))
+      .map(edge => edge.manager);
+    return [...new Set(managers)];
+  }
+
+  /**
+   * The manager a person's chain goes through (see the class comment)
+   */
+  primaryManager(uid: string): string | undefined {
+    const person = this.people.get(uid);
+    if (!person) return undefined;
+    const jobs = person.jobs ?? [];
+    const candidates = [person.manager, jobs.find(job => job.primary)?.manager, ...jobs.map(job => job.manager)];
+    return candidates.find((manager): manager is string => !!manager && manager !== uid && this.people.has(manager));
+  }
+
+  /**
+   * Managers from the person's primary manager up to the top, e.g. [manager, skip-level, ..., root]
+   */
+  chain(uid: string): string[] {
+    const chain: string[] = [];
+    let manager = this.primaryManager(uid);
+    while (manager && manager !== uid && !chain.includes(manager)) {
+      chain.push(manager);
+      manager = this.primaryManager(manager);
+    }
+    return chain;
+  }
+
+  /**
+   * The manager's manager
+   */
+  skipLevelManager(uid: string): string | undefined {
+    return this.chain(uid)[1];
+  }
+
+  /**
+   * Number of managers above a person (0 for roots)
+   */
+  depth(uid: string): number {
+    return this.chain(uid).length;
+  }
+
+  /**
+   * People with a reporting line of this kind to the manager (through any of their jobs)
+   */
+  directReports(uid: string, kind: OrgEdgeKind = 'solid'): string[] {
+    return this.reportsByManager.get(kind)!.get(uid) ?? [];
+  }
+
+  /**
+   * Everyone below a manager through solid lines, nearest first
+   */
+  allReports(uid: string): string[] {
+    const seen = new Set<string>([uid]);
+    const reports: string[] = [];
+    for (let index = -1; index < reports.length; index++) {
+      for (const report of this.directReports(index < 0 ? uid : reports[index])) {
+        if (seen.has(report)) continue;
+        seen.add(report);
+        reports.push(report);
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Reports below a manager who do not report to them directly
+   */
+  indirectReports(uid: string): string[] {
+    const direct = new Set(this.directReports(uid));
+    return this.allReports(uid).filter(report => !direct.has(report));
+  }
+
+  /**
+   * Number of direct (solid-line) reports
+   */
+  spanOfControl(uid: string): number {
+    return this.directReports(uid).length;
+  }
+
+  /**
+   * The lowest person whose chain both people are in, counting each person as part of their own
+   * chain (so if one manages the other, that person is returned)
+   */
+  lowestCommonManager(a: string, b: string): string | undefined {
+    if (!this.people.has(a) || !this.people.has(b)) return undefined;
+    const above = new Set([b, ...this.chain(b)]);
+    return [a, ...this.chain(a)].find(uid => above.has(uid));
+  }
+
+  /**
+   * People without a solid-line manager
+   */
+  roots(): string[] {
+    return [...this.people.keys()].filter(uid => !this.edgeList.some(edge => edge.report === uid && edge.kind === 'solid'));
+  }
+
+  /**
+   * People with a solid-line manager who is not in the document, and no manager who is
+   */
+  orphans(): string[] {
+    return [...this.people.keys()].filter(uid =>
+      this.edgeList.some(edge => edge.report === uid && edge.kind === 'solid') && this.managers(uid).length === 0
+    );
+  }
+
+  private addEdge(edge: OrgEdge): void {
+    this.edgeList.push(edge);
+    if (!this.people.has(edge.manager) || edge.manager === edge.report) return;
+    const reports = this.reportsByManager.get(edge.kind)!;
+    const existing = reports.get(edge.manager) ?? [];
+    if (!existing.includes(edge.report)) reports.set(edge.manager, [...existing, edge.report]);
+  }
+}
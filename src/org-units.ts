@@ -0,0 +1,84 @@
+import type { YCard, Organization, OrgUnit, Person } from './ycard-schema';
+
+// Headcount for one org unit
+export interface UnitHeadcount {
+  id: string;
+  name: string;
+  parent?: string; // Parent unit id
+  headcount: number; // People assigned to the unit itself (person or job org_unit)
+  total: number; // People in the unit or any unit below it
+}
+
+/**
+ * Organization defined in `orgs`, by id or else by display name
+ */
+export function findOrg(card: Pick<YCard, 'orgs'>, ref: string): Organization | undefined {
+  return card.orgs?.find(org => org.id === ref) ?? card.orgs?.find(org => org.name === ref);
+}
+
+/**
+ * Org unit defined in `units`, by id or else by display name
+ */
+export function findUnit(card: Pick<YCard, 'units'>, ref: string): OrgUnit | undefined {
+  return card.units?.find(unit => unit.id === ref) ?? card.units?.find(unit => unit.name === ref);
+}
+
+/**
+ * The unit followed by its parents up to the top unit. Stops before an unknown parent or a unit
+ * already in the chain (a cycle).
+ */
+export function unitChain(card: Pick<YCard, 'units'>, unit: OrgUnit): OrgUnit[] {
+  const chain = [unit];
+  for (;;) {
+    const current = chain[chain.length - 1];
+    const parent = current.parent ? findUnit(card, current.parent) : undefined;
+    if (!parent || chain.includes(parent)) return chain;
+    chain.push(parent);
+  }
+}
+
+/**
+ * Display name of an org or unit in a locale (exact tag, then its language), else its name or id
+ */
+export function localizedName(entry: Organization | OrgUnit, locale?: string): string {
+  const names = entry.i18n?.name ?? {};
+  const localized = locale && (names[locale] ?? names[locale.split('-')[0]]);
+  return localized || entry.name || entry.id;
+}
+
+/**
+ * The org_unit references of a person: their own and each job's, without duplicates
+ */
+export function personUnitRefs(person: Person): string[] {
+  const refs = [person.org_unit, ...(person.jobs ?? []).map(job => job.org_unit)];
+  return [...new Set(refs.filter((ref): ref is string => !!ref))];
+}
+
+/**
+ * Headcount per defined unit, in `units` order. A person with jobs in several units counts once
+ * in each, and once in the total of every unit above them.
+ */
+export function unitHeadcounts(card: YCard): UnitHeadcount[] {
+  const direct = new Map<string, Set<string>>();
+  const total = new Map<string, Set<string>>();
+  const add = (counts: Map<string, Set<string>>, id: string, uid: string) => {
+    counts.set(id, (counts.get(id) ?? new Set()).add(uid));
+  };
+
+  for (const person of card.people) {
+    for (const ref of personUnitRefs(person)) {
+      const unit = findUnit(card, ref);
+      if (!unit) continue;
+      add(direct, unit.id, person.uid);
+      unitChain(card, unit).forEach(member => add(total, member.id, person.uid));
+    }
+  }
+
+  return (card.units ?? []).map(unit => ({
+    id: unit.id,
+    name: localizedName(unit),
+    ...(unit.parent && { parent: findUnit(card, unit.parent)?.id ?? unit.parent }),
+    headcount: direct.get(unit.id)?.size ?? 0,
+    total: total.get(unit.id)?.size ?? 0,
+  }));
+}
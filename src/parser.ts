@@ -1,70 +1,127 @@
 import { z } from 'zod';
 import * as yaml from 'js-yaml';
-import { YCardSchema, PersonSchema, type YCard, type Person } from './ycard-schema';
+import { PersonSchema, createYCardSchema, type YCard, type Person } from './ycard-schema';
+import { SourceMap, type SourceRange, type YCardPath } from './source-map';
+import { validateReferences, type IntegrityIssue } from './integrity';
+import { findAliasConflicts, type AliasConflictMode } from './conflicts';
+import { defaultAliasRegistry, type AliasRegistry } from './aliases';
+import { hasErrors, issuesToZodError, type IssueSeverity, type YCardIssue } from './issues';
+import { defaultMigrations, MigrationError, type MigrationRegistry } from './migrations';
+import { validatePhones } from './phone';
+
+// Successful parses carry non-fatal findings (e.g. alias conflicts in lenient mode) as warnings
+export type ParseResult<T> =
+  | { success: true; data: T; warnings: YCardIssue[] }
+  | { success: false; errors: z.ZodError[] };
+
+export interface YCardParserOptions {
+  // Schema to validate with (defaults to the schema built from `registry`)
+  schema?: z.ZodSchema;
+  // Alias registry used for alias conflict analysis (defaults to the built-in aliases)
+  registry?: AliasRegistry;
+  // How to treat keys that hold different values for the same field (defaults to lenient)
+  aliasConflicts?: AliasConflictMode;
+  // Migrations applied in memory to documents older than the current version
+  migrations?: MigrationRegistry;
+}
+
+// Raw data hooks around schema validation
+interface ParseHooks {
+  // Transform raw data before validation; error-severity issues fail the parse
+  prepare?: (raw: unknown) => { data: unknown; issues: YCardIssue[] };
+  // Analyze the (prepared) raw data and the validated data; error-severity issues fail the parse
+  analyze?: (raw: unknown, data: unknown) => YCardIssue[];
+}
+
+// Parse result that also carries the node-to-range map of the source text
+export type PositionedParseResult = ParseResult<YCard> & { sourceMap: SourceMap };
+
+// A validation error resolved to the exact YAML node it refers to
+export interface LocatedError {
+  message: string;
+  path: YCardPath;
+  range: SourceRange;
+  code?: string;
+  severity?: IssueSeverity;
+}
 
 export class YCardParser {
   private schema: z.ZodSchema;
+  private registry: AliasRegistry;
+  private aliasConflicts: AliasConflictMode;
+  private migrations: MigrationRegistry;
 
-  constructor(schema: z.ZodSchema = YCardSchema) {
-    this.schema = schema;
+  constructor(options: z.ZodSchema | YCardParserOptions = {}) {
+    const { schema, registry, aliasConflicts, migrations } = options instanceof z.ZodType ? { schema: options } : options;
+    this.registry = registry ?? defaultAliasRegistry;
+    this.schema = schema ?? createYCardSchema(this.registry).YCardSchema;
+    this.aliasConflicts = aliasConflicts ?? 'lenient';
+    this.migrations = migrations ?? defaultMigrations;
   }
 
   /**
-   * Parse and validate yCard YAML content
+   * Parse and validate yCard YAML content. Older documents are migrated in memory
+   * (with an outdated-version warning); newer ones fail with unsupported-version.
+   * Phone numbers that cannot be parsed are warnings.
    */
-  parse(content: string): { success: true; data: YCard } | { success: false; errors: z.ZodError[] } {
-    try {
-      // Parse YAML
-      const yamlData = yaml.load(content);
+  parse(content: string): ParseResult<YCard> {
+    return parseWith(this.schema, content, {
+      prepare: raw => this.upgrade(raw),
+      analyze: (raw, data) => [...this.checkAliasConflicts(raw), ...validatePhones(data as YCard)],
+    }) as ParseResult<YCard>;
+  }
 
-      // Validate with Zod
-      const result = this.schema.safeParse(yamlData);
+  /**
+   * Bring raw data to the current format version
+   */
+  upgrade(raw: unknown): { data: unknown; issues: YCardIssue[] } {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return { data: raw, issues: [] }; // Left for the schema to report
+    }
 
-      if (result.success) {
-        return { success: true, data: result.data as YCard };
-      } else {
-        return { success: false, errors: [result.error] };
+    try {
+      const result = this.migrations.migrate(raw);
+      if (result.steps.length === 0) {
+        return { data: raw, issues: [] };
       }
+      return {
+        data: result.document,
+        issues: [{
+          code: 'outdated-version',
+          message: `Document is yCard version ${result.fromVersion}; the current version is ${result.toVersion} (run ycard migrate to upgrade it)`,
+          path: ['ycard_version'],
+          severity: 'warning',
+        }],
+      };
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return { success: false, errors: [error] };
-      } else {
-        // YAML parsing error
-        const yamlError = new z.ZodError([{
-          code: 'custom',
-          message: `YAML parsing error: ${error instanceof Error ? error.message : String(error)}`,
-          path: [],
-        }]);
-        return { success: false, errors: [yamlError] };
-      }
+      if (!(error instanceof MigrationError)) throw error;
+      return {
+        data: raw,
+        issues: [{ code: 'unsupported-version', message: error.message, path: ['ycard_version'], severity: 'error' }],
+      };
     }
   }
 
   /**
-   * Parse a single person entry
+   * Find keys that hold different values for the same field (errors in strict mode, warnings in lenient mode)
    */
-  parsePerson(content: string): { success: true; data: Person } | { success: false; errors: z.ZodError[] } {
-    try {
-      const yamlData = yaml.load(content);
-      const result = PersonSchema.safeParse(yamlData);
+  checkAliasConflicts(raw: unknown): YCardIssue[] {
+    return this.aliasConflicts === 'off' ? [] : findAliasConflicts(raw, this.aliasConflicts, this.registry);
+  }
 
-      if (result.success) {
-        return { success: true, data: result.data };
-      } else {
-        return { success: false, errors: [result.error] };
-      }
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return { success: false, errors: [error] };
-      } else {
-        const yamlError = new z.ZodError([{
-          code: 'custom',
-          message: `YAML parsing error: ${error instanceof Error ? error.message : String(error)}`,
-          path: [],
-        }]);
-        return { success: false, errors: [yamlError] };
-      }
-    }
+  /**
+   * Parse and validate yCard YAML content, keeping source positions so errors
+   * can be reported against the exact key/value they refer to
+   */
+  parseWithSourceMap(content: string): PositionedParseResult {
+    return { ...this.parse(content), sourceMap: SourceMap.fromText(content, this.registry) };
+  }
+
+  /**
+   * Parse a single person entry
+   */
+  parsePerson(content: string): ParseResult<Person> {
+    return parseWith(PersonSchema, content);
   }
 
   /**
@@ -87,6 +144,35 @@ export class YCardParser {
     );
   }
 
+  /**
+   * Resolve errors to source ranges using the map from parseWithSourceMap
+   */
+  getLocatedErrors(errors: z.ZodError[], sourceMap: SourceMap): LocatedError[] {
+    return errors.flatMap(error =>
+      error.errors.map(issue => ({
+        message: issue.message,
+        path: issue.path,
+        range: sourceMap.rangeForIssue(issue),
+        ...(issue.code === 'custom' && typeof issue.params?.code === 'string' && { code: issue.params.code }),
+      }))
+    );
+  }
+
+  /**
+   * Resolve structured issues from post-schema passes (e.g. validateReferences) to source ranges
+   */
+  getLocatedIssues(issues: YCardIssue[], sourceMap: SourceMap): LocatedError[] {
+    return issues.map(issue => ({ ...issue, range: sourceMap.rangeFor(issue.path) }));
+  }
+
+  /**
+   * Check cross-record references: manager, job manager and dotted-line UIDs,
+   * self-management, management cycles and people with no path to a root
+   */
+  validateReferences(data: YCard): IntegrityIssue[] {
+    return validateReferences(data);
+  }
+
   /**
    * Extract all UIDs from parsed content
    */
@@ -166,6 +252,59 @@ export class YCardParser {
   }
 }
 
+/**
+ * Load YAML, prepare the raw data, validate it with a schema, then analyze it.
+ * Hook issues with error severity fail the parse; the rest become warnings.
+ */
+function parseWith<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  content: string,
+  hooks: ParseHooks = {}
+): ParseResult<T> {
+  const fail = (issues: YCardIssue[]): ParseResult<T> => ({
+    success: false,
+    errors: [issuesToZodError(issues.filter(issue => issue.severity === 'error'))],
+  });
+
+  try {
+    const loaded = yaml.load(content);
+    const { data: raw, issues: prepareIssues } = hooks.prepare ? hooks.prepare(loaded) : { data: loaded, issues: [] };
+    if (hasErrors(prepareIssues)) return fail(prepareIssues);
+
+    const result = schema.safeParse(raw);
+    if (!result.success) {
+      return { success: false, errors: [result.error] };
+    }
+
+    const issues = [...prepareIssues, ...(hooks.analyze?.(raw, result.data) ?? [])];
+    if (hasErrors(issues)) return fail(issues);
+    return { success: true, data: result.data, warnings: issues };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, errors: [error] };
+    }
+    return { success: false, errors: [yamlErrorToZodError(error)] };
+  }
+}
+
+/**
+ * Wrap a YAML syntax error as a ZodError, keeping js-yaml's mark (line, column, position)
+ * in the issue params so it can be located in the source
+ */
+function yamlErrorToZodError(error: unknown): z.ZodError {
+  const mark = error instanceof yaml.YAMLException && error.mark
+    ? { line: error.mark.line, column: error.mark.column, position: error.mark.position }
+    : undefined;
+  const reason = error instanceof yaml.YAMLException ? error.reason : undefined;
+
+  return new z.ZodError([{
+    code: 'custom',
+    message: `YAML parsing error: ${reason ?? (error instanceof Error ? error.message : String(error))}`,
+    path: [],
+    ...(mark && { params: { mark } }),
+  }]);
+}
+
 // Tree-Sitter integration helper
 export class TreeSitterHelper {
   static generateGrammar() {
@@ -0,0 +1,105 @@
+import { parsePhoneNumberFromString, isSupportedCountry, type CountryCode } from 'libphonenumber-js';
+import type { YCard, Person } from './ycard-schema';
+import type { YCardIssue } from './issues';
+
+export const PHONE_TYPES = ['work', 'mobile', 'home', 'fax', 'pager'] as const;
+export type PhoneType = typeof PHONE_TYPES[number];
+
+// Other accepted spellings of the phone types (matched case-insensitively)
+export const PHONE_TYPE_ALIASES: Record<string, PhoneType> = {
+  office: 'work',
+  business: 'work',
+  trabajo: 'work',
+  oficina: 'work',
+  仕事: 'work',
+  cell: 'mobile',
+  cellular: 'mobile',
+  móvil: 'mobile',
+  movil: 'mobile',
+  celular: 'mobile',
+  携帯: 'mobile',
+  personal: 'home',
+  casa: 'home',
+  自宅: 'home',
+  facsimile: 'fax',
+  beeper: 'pager',
+};
+
+// A validated phone number
+export interface NormalizedPhone {
+  number: string; // E.164, e.g. +12015550123
+  display: string; // International format for humans, e.g. +1 201 555 0123
+  ext?: string;
+  region?: CountryCode;
+}
+
+export type PhoneParseResult =
+  | ({ valid: true } & NormalizedPhone)
+  | { valid: false; message: string };
+
+/**
+ * Canonical phone type for a type or one of its aliases
+ */
+export function resolvePhoneType(type: string): PhoneType | undefined {
+  const key = type.trim().toLowerCase();
+  return (PHONE_TYPES as readonly string[]).includes(key) ? key as PhoneType : PHONE_TYPE_ALIASES[key];
+}
+
+/**
+ * ISO 3166-1 alpha-2 region usable for phone parsing (case-insensitive), if the value is one
+ */
+export function phoneRegion(value: unknown): CountryCode | undefined {
+  if (typeof value !== 'string' || !/^[A-Za-z]{2}$/.test(value)) return undefined;
+  const region = value.toUpperCase();
+  return isSupportedCountry(region) ? region as CountryCode : undefined;
+}
+
+/**
+ * Parse and validate a phone number offline. Numbers without a +country code need a region.
+ */
+export function normalizePhoneNumber(input: string, region?: CountryCode): PhoneParseResult {
+  const text = input.trim();
+  if (!text.startsWith('+') && !region) {
+    return {
+      valid: false,
+      message: `Cannot tell the country of '${input}': write it as +<country code>, or set default_region or the person's address country`,
+    };
+  }
+
+  const parsed = parsePhoneNumberFromString(text, region);
+  if (!parsed || !parsed.isValid()) {
+    return { valid: false, message: `Invalid phone number '${input}'${region && !text.startsWith('+') ? ` for region ${region}` : ''}` };
+  }
+  return {
+    valid: true,
+    number: parsed.number,
+    display: parsed.formatInternational(),
+    ...(parsed.ext && { ext: parsed.ext }),
+    ...(parsed.country && { region: parsed.country }),
+  };
+}
+
+/**
+ * RFC 3966 tel URI for vCard `TEL;VALUE=uri`, e.g. tel:+12015550123;ext=42
+ */
+export function phoneTelUri(phone: { number: string; ext?: string }): string {
+  return `tel:${phone.number}${phone.ext ? `;ext=${phone.ext}` : ''}`;
+}
+
+/**
+ * Region for a person's numbers written without a country code: their address country, then
+ * the document's default_region
+ */
+export function personPhoneRegion(person: Person, card: Pick<YCard, 'default_region'>): CountryCode | undefined {
+  return phoneRegion(person.address?.find(address => address.country)?.country) ?? phoneRegion(card.default_region);
+}
+
+/**
+ * Warn about phone numbers that cannot be parsed (the schema keeps them as written)
+ */
+export function validatePhones(card: YCard): YCardIssue[] {
+  return card.people.flatMap((person, index) => (person.phone ?? []).flatMap((phone, phoneIndex): YCardIssue[] => {
+    const result = normalizePhoneNumber(phone.number, personPhoneRegion(person, card));
+    return result.valid ? [] : [{ code: 'invalid-phone', message: result.message, path: ['people', index, 'phone', phoneIndex], severity: 'warning' }];
+  }));
+}
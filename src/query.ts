@@ -0,0 +1,466 @@
+import type { YCard, Person, Job } from './ycard-schema';
+import { OrgGraph } from './org-graph';
+import { isRecord } from './utils';
+
+export type QueryValue = string | number | boolean | null;
+export type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~' | '!~' | 'in';
+
+// Parsed query expression
+export type QueryNode =
+  | { type: 'literal'; value: QueryValue }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'list'; items: QueryNode[] }
+  | { type: 'path'; segments: string[]; language?: string } // e.g. manager.title@ja
+  | { type: 'call'; name: string; args: QueryNode[] }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'logical'; operator: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'compare'; operator: CompareOperator; left: QueryNode; right: QueryNode };
+
+// Fields a path can start with: the Person fields plus derived ones
+export const QUERY_FIELDS = [
+  'uid', 'name', 'surname', 'title', 'email', 'org', 'org_unit', 'manager', 'phone', 'address', 'jobs', 'i18n',
+  'displayName', // name and surname
+  'fte', // Total FTE over all jobs (1 without jobs)
+  'reports', // Direct (solid-line) reports
+] as const;
+
+// Functions and the number of arguments they take
+const QUERY_FUNCTIONS: Record<string, [min: number, max: number]> = {
+  reportsTo: [1, 2], // reportsTo(uid[, levels]): below uid through solid lines (any number of levels by default)
+  count: [1, 1], // count(path): number of values
+};
+
+/**
+ * Thrown for a query that cannot be parsed; `position` is the 0-based offset in the source
+ */
+export class QueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at column ${position + 1}`);
+    this.name = 'QueryError';
+  }
+}
+
+/**
+ * Parse a query such as
+ * `org_unit == "Engineering" and reportsTo("alice") and fte < 1`.
+ *
+ * - comparisons `== != < <= > >=`, regular expressions `=~ /^Sen/i` and `!~`, membership
+ *   `in ["a", "b"]`, combined with `and`, `or`, `not` and parentheses
+ * - paths over the normalized person: `title`, `manager.title`, `jobs.role`; `email` and `phone`
+ *   are lists of addresses and numbers, and a comparison holds when any value matches
+ * - `field@lang` reads the translation from i18n (falling back to the field), e.g. `title@ja`
+ */
+export function parseQuery(source: string): QueryNode {
+  const parser = new QueryParser(tokenize(source));
+  const node = parser.parseExpression();
+  parser.expectEnd();
+  return node;
+}
+
+/**
+ * People of the document matching a query (source text or a parsed query), in document order
+ */
+export function queryYCard(card: YCard, query: string | QueryNode): Person[] {
+  const node = typeof query === 'string' ? parseQuery(query) : query;
+  const context: QueryContext = {
+    graph: new OrgGraph(card),
+    people: new Map(card.people.map(person => [person.uid, person])),
+    reports: new Map(),
+  };
+  return card.people.filter(person => truthy(evaluate(node, person, context)));
+}
+
+// ---- Tokenizer ----
+
+type TokenType = 'ident' | 'string' | 'number' | 'regex' | 'operator' | 'punct' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  flags?: string; // Regex flags
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '=~', '!~', '&&', '||', '<', '>', '!'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const start = index;
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) index++;
+        value += source[index++];
+      }
+      if (index >= source.length) throw new QueryError('Unterminated string', start);
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+    } else if (char === '/') {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== '/') {
+        if (source[index] === '\\' && source[index + 1] === '/') index++;
+        else if (source[index] === '\\') value += source[index++];
+        value += source[index++];
+      }
+      if (index >= source.length) throw new QueryError('Unterminated regular expression', start);
+      index++;
+      const flags = /^[a-z]*/.exec(source.slice(index))![0];
+      index += flags.length;
+      tokens.push({ type: 'regex', value, flags, position: start });
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(source[index + 1] ?? ''))) {
+      const number = /^-?\d+(\.\d+)?/.exec(source.slice(index))![0];
+      index += number.length;
+      tokens.push({ type: 'number', value: number, position: start });
+    } else if (/[\p{L}_]/u.test(char)) {
+      const ident = /^[\p{L}\p{N}_-]*/u.exec(source.slice(index))![0];
+      index += ident.length;
+      tokens.push({ type: 'ident', value: ident, position: start });
+    } else if ('()[],.@'.includes(char)) {
+      index++;
+      tokens.push({ type: 'punct', value: char, position: start });
+    } else {
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, index));
+      if (!operator) throw new QueryError(`Unexpected character '${char}'`, start);
+      index += operator.length;
+      tokens.push({ type: 'operator', value: operator, position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// ---- Parser ----
+
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): QueryNode {
+    return this.parseOr();
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') throw new QueryError(`Unexpected '${token.value}'`, token.position);
+  }
+
+  private parseOr(): QueryNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or') || this.matchOperator('||')) {
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryNode {
+    let left = this.parseNot();
+    while (this.matchKeyword('and') || this.matchOperator('&&')) {
+      left = { type: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): QueryNode {
+    if (this.matchKeyword('not') || this.matchOperator('!')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): QueryNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+    const operator = token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>=', '=~', '!~'].includes(token.value)
+      ? token.value as CompareOperator
+      : token.type === 'ident' && token.value === 'in' ? 'in' : undefined;
+    if (!operator) return left;
+
+    this.index++;
+    const right = this.parseOperand();
+    if ((operator !== '=~' && operator !== '!~') || right.type === 'regex') {
+      return { type: 'compare', operator, left, right };
+    }
+    if (right.type !== 'literal' || typeof right.value !== 'string') {
+      throw new QueryError(`'${operator}' needs a regular expression or string`, token.position);
+    }
+    return { type: 'compare', operator, left, right: { type: 'regex', pattern: regex(right.value, '', token.position) } };
+  }
+
+  private parseOperand(): QueryNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'regex':
+        return { type: 'regex', pattern: regex(token.value, token.flags!, token.position) };
+      case 'punct':
+        if (token.value === '(') {
+          const node = this.parseExpression();
+          this.expectPunct(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: QueryNode[] = [];
+          while (!this.matchPunct(']')) {
+            if (items.length > 0) this.expectPunct(',');
+            items.push(this.parseOperand());
+          }
+          return { type: 'list', items };
+        }
+        break;
+      case 'ident':
+        if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (this.matchPunct('(')) return this.parseCall(token);
+        return this.parsePath(token);
+    }
+    throw new QueryError(token.type === 'end' ? 'Unexpected end of query' : `Unexpected '${token.value}'`, token.position);
+  }
+
+  private parseCall(name: Token): QueryNode {
+    const arity = QUERY_FUNCTIONS[name.value];
+    if (!arity) {
+      throw new QueryError(`Unknown function '${name.value}' (expected ${Object.keys(QUERY_FUNCTIONS).join(', ')})`, name.position);
+    }
+    const args: QueryNode[] = [];
+    while (!this.matchPunct(')')) {
+      if (args.length > 0) this.expectPunct(',');
+      args.push(this.parseExpression());
+    }
+    if (args.length < arity[0] || args.length > arity[1]) {
+      const expected = arity[0] === arity[1] ? `${arity[0]}` : `${arity[0]} or ${arity[1]}`;
+      throw new QueryError(`${name.value}() takes ${expected} argument${arity[1] === 1 ? '' : 's'}`, name.position);
+    }
+    return { type: 'call', name: name.value, args };
+  }
+
+  private parsePath(first: Token): QueryNode {
+    if (!(QUERY_FIELDS as readonly string[]).includes(first.value)) {
+      throw new QueryError(`Unknown field '${first.value}'`, first.position);
+    }
+    const segments = [first.value];
+    while (this.matchPunct('.')) {
+      const token = this.next();
+      if (token.type !== 'ident') throw new QueryError('Expected a field name after \'.\'', token.position);
+      segments.push(token.value);
+    }
+    if (this.matchPunct('@')) {
+      const token = this.next();
+      if (token.type !== 'ident') throw new QueryError('Expected a language code after \'@\'', token.position);
+      return { type: 'path', segments, language: token.value };
+    }
+    return { type: 'path', segments };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    return this.match(token => token.type === 'ident' && token.value === keyword);
+  }
+
+  private matchOperator(operator: string): boolean {
+    return this.match(token => token.type === 'operator' && token.value === operator);
+  }
+
+  private matchPunct(punct: string): boolean {
+    return this.match(token => token.type === 'punct' && token.value === punct);
+  }
+
+  private expectPunct(punct: string): void {
+    const token = this.peek();
+    if (!this.matchPunct(punct)) {
+      throw new QueryError(token.type === 'end' ? `Expected '${punct}' at end of query` : `Expected '${punct}' but found '${token.value}'`, token.position);
+    }
+  }
+
+  private match(test: (token: Token) => boolean): boolean {
+    if (!test(this.peek())) return false;
+    this.index++;
+    return true;
+  }
+}
+
+function regex(pattern: string, flags: string, position: number): RegExp {
+  try {
+    return new RegExp(pattern, flags.replace('g', ''));
+  } catch {
+    throw new QueryError(`Invalid regular expression /${pattern}/${flags}`, position);
+  }
+}
+
+// ---- Evaluation ----
+
+interface QueryContext {
+  graph: OrgGraph;
+  people: Map<string, Person>;
+  reports: Map<string, Set<string>>; // Cache for reportsTo, keyed by uid and levels
+}
+
+// Evaluated values: scalars, records (people, jobs, addresses), regular expressions or lists of those
+type Value = QueryValue | undefined | RegExp | object | Value[];
+
+function evaluate(node: QueryNode, person: Person, context: QueryContext): Value {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'regex':
+      return node.pattern;
+    case 'list':
+      return node.items.flatMap(item => values(evaluate(item, person, context)));
+    case 'path':
+      return resolvePath(person, node, context);
+    case 'not':
+      return !truthy(evaluate(node.operand, person, context));
+    case 'logical':
+      return node.operator === 'and'
+        ? truthy(evaluate(node.left, person, context)) && truthy(evaluate(node.right, person, context))
+        : truthy(evaluate(node.left, person, context)) || truthy(evaluate(node.right, person, context));
+    case 'compare':
+      return compare(node.operator, evaluate(node.left, person, context), evaluate(node.right, person, context));
+    case 'call':
+      return call(node, person, context);
+  }
+}
+
+function call(node: Extract<QueryNode, { type: 'call' }>, person: Person, context: QueryContext): Value {
+  const args = node.args.map(arg => evaluate(arg, person, context));
+  if (node.name === 'count') {
+    return values(args[0]).length;
+  }
+
+  // reportsTo(uid[, levels])
+  const levels = typeof args[1] === 'number' ? args[1] : Infinity;
+  return values(args[0]).some(manager => {
+    const uid = String(scalar(manager));
+    const key = `${uid}/${levels}`;
+    if (!context.reports.has(key)) context.reports.set(key, reportsWithin(context.graph, uid, levels));
+    return context.reports.get(key)!.has(person.uid);
+  });
+}
+
+// Everyone at most `levels` solid lines below a manager
+function reportsWithin(graph: OrgGraph, uid: string, levels: number): Set<string> {
+  if (levels === Infinity) return new Set(graph.allReports(uid));
+  const found = new Set<string>();
+  let frontier = [uid];
+  for (let level = 0; level < levels && frontier.length > 0; level++) {
+    frontier = frontier.flatMap(manager => graph.directReports(manager)).filter(report => report !== uid && !found.has(report));
+    frontier.forEach(report => found.add(report));
+  }
+  return found;
+}
+
+// Paths evaluate to the list of values reached (comparisons hold when any value matches)
+function resolvePath(person: Person, node: Extract<QueryNode, { type: 'path' }>, context: QueryContext): Value[] {
+  return node.segments.reduce<Value[]>((current, segment, index) => {
+    const language = index === node.segments.length - 1 ? node.language : undefined;
+    return current.flatMap(value => values(field(value, segment, language, context)));
+  }, [person]);
+}
+
+function field(value: Value, name: string, language: string | undefined, context: QueryContext): Value {
+  if (!isRecord<Value>(value) || value instanceof RegExp) return undefined;
+  const personRef = (uid: unknown) => typeof uid === 'string' ? context.people.get(uid) ?? uid : undefined;
+
+  if (isPerson(value)) {
+    const person = value;
+    const translated = language ? (person.i18n as Record<string, Record<string, string> | undefined> | undefined)?.[name]?.[language] : undefined;
+    if (translated !== undefined) return translated;
+    switch (name) {
+      case 'displayName':
+        return [person.name, person.surname].filter(Boolean).join(' ') || undefined;
+      case 'manager':
+        return personRef(person.manager);
+      case 'email':
+        return person.email?.map(email => email.address) ?? [];
+      case 'phone':
+        return person.phone?.map(phone => phone.number) ?? [];
+      case 'fte':
+        // Rounded like the FTE report, so 0.7 + 0.2 + 0.1 is 1
+        return person.jobs?.length ? Math.round(person.jobs.reduce((sum, job) => sum + job.fte, 0) * 1000) / 1000 : 1;
+      case 'reports':
+        return context.graph.directReports(person.uid).map(uid => context.people.get(uid)!);
+      default:
+        return (person as unknown as Record<string, Value>)[name];
+    }
+  }
+
+  // Jobs: managers resolve to people
+  const job = value as Partial<Job>;
+  if (name === 'manager' && 'fte' in value) return personRef(job.manager);
+  if (name === 'dotted' && Array.isArray(job.dotted)) return job.dotted.map(personRef) as Value[];
+  return (value as Record<string, Value>)[name];
+}
+
+function compare(operator: CompareOperator, left: Value, right: Value): boolean {
+  switch (operator) {
+    case '==':
+    case 'in':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case '=~':
+      return matches(left, right);
+    case '!~':
+      return !matches(left, right);
+    default:
+      return values(left).some(a => values(right).some(b => {
+        const [x, y] = [scalar(a), scalar(b)];
+        if (!((typeof x === 'number' && typeof y === 'number') || (typeof x === 'string' && typeof y === 'string'))) return false;
+        return operator === '<' ? x < y : operator === '<=' ? x <= y : operator === '>' ? x > y : x >= y;
+      }));
+  }
+}
+
+// Any value on the left equals any on the right; null equals a missing value or an empty list
+function equals(left: Value, right: Value): boolean {
+  if (right === null || left === null) return values(right === null ? left : right).length === 0;
+  return values(left).some(a => values(right).some(b => scalar(a) === scalar(b)));
+}
+
+function matches(left: Value, right: Value): boolean {
+  const pattern = right as RegExp;
+  return values(left).some(value => {
+    const text = scalar(value);
+    return (typeof text === 'string' || typeof text === 'number') && pattern.test(String(text));
+  });
+}
+
+function values(value: Value): Value[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// People compare by uid
+function scalar(value: Value): Value {
+  return isRecord<Value>(value) && isPerson(value) ? value.uid : value;
+}
+
+function truthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}
+
+function isPerson(value: Record<string, Value>): value is Person & Record<string, Value> {
+  return typeof value.uid === 'string';
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { parseDocument, isMap, isSeq, isScalar, Node } from 'yaml';
+import { defaultAliasRegistry, aliasScopeForPath, type AliasRegistry } from './aliases';
+
+// Path into a yCard document, matching the shape of ZodIssue.path (e.g. ['people', 3, 'jobs', 1, 'fte'])
+export type YCardPath = (string | number)[];
+
+// Zero-based position in the source text (same convention as LSP and js-yaml marks)
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// Ranges recorded for a single YAML node: its key (when it is a mapping value) and its value
+export interface SourceNode {
+  key?: SourceRange;
+  value: SourceRange;
+}
+
+/**
+ * Map from document paths to source ranges, built from the YAML node tree. Paths use canonical
+ * field names (as issue paths do); a field written with an alias key is found through the registry.
+ */
+export class SourceMap {
+  private nodes = new Map<string, SourceNode>();
+  private lineStarts: number[] = [0];
+
+  constructor(private text: string, private registry: AliasRegistry = defaultAliasRegistry) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Build a source map for YAML content. Syntax errors leave the map partial rather than throwing.
+   */
+  static fromText(text: string, registry: AliasRegistry = defaultAliasRegistry): SourceMap {
+    const sourceMap = new SourceMap(text, registry);
+    const doc = parseDocument(text, { uniqueKeys: false });
+    if (doc.contents) {
+      sourceMap.visit(doc.contents as Node, []);
+    }
+    return sourceMap;
+  }
+
+  /**
+   * Get the recorded ranges for a path, if the node exists in the source. Each field segment
+   * matches the key as written, then the canonical key and its aliases in precedence order.
+   */
+  get(path: YCardPath): SourceNode | undefined {
+    let actual: YCardPath = [];
+    for (const [index, segment] of path.entries()) {
+      const scope = typeof segment === 'string' ? aliasScopeForPath(path.slice(0, index + 1)) : undefined;
+      const field = scope && this.registry.canonicalFor(scope, String(segment));
+      const keys = scope && field ? [segment, ...this.registry.keysFor(scope, field)] : [segment];
+      const found = keys.map(key => [...actual, key]).find(candidate => this.nodes.has(pathKey(candidate)));
+      if (!found) return undefined;
+      actual = found;
+    }
+    return this.nodes.get(pathKey(actual));
+  }
+
+  /**
+   * Path of the mapping key at an offset, if the offset falls on a key
+   */
+  keyPathAt(offset: number): YCardPath | undefined {
+    for (const [key, node] of this.nodes) {
+      if (node.key && node.key.start.offset <= offset && offset <= node.key.end.offset) {
+        return JSON.parse(key);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve a path to the range that best describes it:
+   * - the key/value range when the node exists
+   * - the first line of the nearest existing ancestor otherwise (e.g. a missing required field)
+   */
+  rangeFor(path: YCardPath): SourceRange {
+    for (let depth = path.length; depth >= 0; depth--) {
+      const node = this.get(path.slice(0, depth));
+      if (!node) continue;
+
+      if (depth === path.length) {
+        return node.key ? { start: node.key.start, end: node.value.end } : node.value;
+      }
+      return node.key ?? this.firstLine(node.value);
+    }
+    return this.firstLine(this.rangeAt(0, this.text.length));
+  }
+
+  /**
+   * Resolve a Zod issue to a range. Issues carrying a js-yaml mark point at the mark.
+   */
+  rangeForIssue(issue: z.ZodIssue): SourceRange {
+    const mark = issue.code === 'custom' ? issue.params?.mark : undefined;
+    if (mark && typeof mark.position === 'number') {
+      return this.firstLine(this.rangeAt(mark.position, this.text.length));
+    }
+    return this.rangeFor(issue.path);
+  }
+
+  /**
+   * Convert an absolute offset into a line/column position
+   */
+  positionAt(offset: number): SourcePosition {
+    const clamped = Math.max(0, Math.min(offset, this.text.length));
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= clamped) low = mid;
+      else high = mid - 1;
+    }
+    return { offset: clamped, line: low, column: clamped - this.lineStarts[low] };
+  }
+
+  private rangeAt(start: number, end: number): SourceRange {
+    return { start: this.positionAt(start), end: this.positionAt(end) };
+  }
+
+  // Narrow a multi-line range to the rest of its first line
+  private firstLine(range: SourceRange): SourceRange {
+    const nextLine = this.lineStarts[range.start.line + 1];
+    const lineEnd = nextLine !== undefined ? nextLine - 1 : this.text.length;
+    return range.end.offset <= lineEnd ? range : this.rangeAt(range.start.offset, lineEnd);
+  }
+
+  private visit(node: Node, path: YCardPath, key?: SourceRange): void {
+    if (node.range) {
+      this.nodes.set(pathKey(path), { key, value: this.rangeAt(node.range[0], node.range[1]) });
+    }
+
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        if (!isScalar(pair.key) || !pair.key.range) continue;
+        const keyRange = this.rangeAt(pair.key.range[0], pair.key.range[1]);
+        const childPath = [...path, String(pair.key.value)];
+        if (pair.value && isNode(pair.value)) {
+          this.visit(pair.value, childPath, keyRange);
+        } else {
+          // `key:` with no value - the key itself is the best range available
+          this.nodes.set(pathKey(childPath), { key: keyRange, value: keyRange });
+        }
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        if (isNode(item)) this.visit(item, [...path, index]);
+      });
+    }
+  }
+}
+
+function isNode(value: unknown): value is Node {
+  return isMap(value) || isSeq(value) || isScalar(value);
+}
+
+function pathKey(path: YCardPath): string {
+  return JSON.stringify(path);
+}
@@ -0,0 +1,77 @@
+// Hepburn romanization of hiragana (katakana is mapped onto hiragana first)
+const KANA: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko', が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so', ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to', だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho', ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', ゐ: 'i', ゑ: 'e', を: 'o', ん: 'n', ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o',
+};
+
+// Small ya/yu/yo combine with the preceding i-syllable: きゃ → kya, しゃ → sha
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', ё: 'e', є: 'ye', ж: 'zh', з: 'z', и: 'i', і: 'i',
+  ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+};
+
+const GREEK: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm', ν: 'n',
+  ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+// Latin letters that do not decompose into a base letter and a mark
+const LATIN: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i',
+};
+
+/**
+ * Lowercase ASCII approximation of a name for matching: diacritics are dropped and kana,
+ * Cyrillic and Greek are romanized (e.g. アリス → arisu, Алиса → alisa, José → jose). Other
+ * scripts (such as kanji) are kept as they are.
+ */
+export function transliterate(text: string): string {
+  const composed = text.normalize('NFKC').toLowerCase();
+  let result = '';
+  let doubleNext = false; // After a small tsu: double the next consonant
+
+  for (const char of composed) {
+    const code = char.codePointAt(0)!;
+    const kana = code >= 0x30a1 && code <= 0x30f6 ? String.fromCodePoint(code - 0x60) : char;
+
+    if (kana === 'っ') {
+      doubleNext = true;
+      continue;
+    }
+    if (kana === 'ー') continue;
+    if (SMALL_Y[kana] !== undefined && /(shi|chi|ji|i)$/.test(result)) {
+      result = /(sh|ch|j)i$/.test(result) ? result.slice(0, -1) + SMALL_Y[kana] : result.slice(0, -1) + 'y' + SMALL_Y[kana];
+      continue;
+    }
+
+    if ('ぁぃぅぇぉ'.includes(kana) && /[^aiueo][aiueo]$/.test(result)) {
+      // Small vowels replace the preceding vowel: ジェ → je, ファ → fa, ティ → ti
+      result = result.slice(0, -1) + KANA[kana];
+      continue;
+    }
+
+    let latin = KANA[kana] ?? CYRILLIC[char] ?? char;
+    if (doubleNext && KANA[kana] !== undefined) {
+      latin = latin.startsWith('ch') ? `t${latin}` : latin[0] + latin;
+      doubleNext = false;
+    }
+    result += latin;
+  }
+
+  return [...result.normalize('NFD').replace(/\p{M}/gu, '')]
+    .map(char => GREEK[char] ?? LATIN[char] ?? char)
+    .join('');
+}
@@ -0,0 +1,28 @@
+import type { Person } from './ycard-schema';
+
+/**
+ * A person's full name, falling back to their uid
+ */
+export function displayName(person: Person): string {
+  return [person.name, person.surname].filter(Boolean).join(' ') || person.uid;
+}
+
+/**
+ * Whether a value is a plain object (not null or an array)
+ */
+export function isRecord<T = unknown>(value: unknown): value is Record<string, T> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep equality that ignores key order
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (!isRecord(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+}
@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { defaultAliasRegistry, describeAlias, type AliasRegistry, type AliasScope } from './aliases';
+import { PHONE_TYPES, resolvePhoneType, phoneRegion, normalizePhoneNumber, personPhoneRegion, type PhoneType } from './phone';
+import { EMAIL_TYPES, normalizeEmails, type Email } from './email';
+import { ADDRESS_TYPES, normalizeAddress, type Address } from './address';
+
+export type { Email, EmailType } from './email';
+export type { Address, AddressType } from './address';
 
 // Utility function for alias resolution
 export function resolveAlias<T>(primary: T, ...aliases: (T | undefined)[]): T | undefined {
@@ -10,170 +17,318 @@ export function stringOrArrayField() {
   return z.union([z.string(), z.array(z.string())]).optional();
 }
 
-// Basic address schema
-const AddressSchema = z.object({
-  street: z.string().optional(),
+// Address entry - country is an ISO 3166-1 alpha-2 code and the postal code is checked
+// against the country's format
+const AddressEntrySchema = z.object({
+  type: z.enum(ADDRESS_TYPES).default('work'),
+  street: z.string().optional().describe('Street lines, separated by newlines'),
   city: z.string().optional(),
-  state: z.string().optional(),
+  state: z.string().optional().describe('State, province or prefecture'),
   postal_code: z.string().optional(),
-  country: z.string().optional(),
+  country: z.string().optional().describe('ISO 3166-1 alpha-2 country code, e.g. US or JP'),
+}).transform((value, ctx): Address => {
+  const { address, issues } = normalizeAddress(value);
+  issues.forEach(issue => ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: [issue.field] }));
+  return address;
 });
 
-// Phone schema - supports both string and object formats
+// Address schema - one address or a list, normalized to a list (wrapped before validation so
+// problems are reported per entry)
+const AddressSchema = z.preprocess(
+  value => typeof value === 'object' && value !== null && !Array.isArray(value) ? [value] : value,
+  z.array(AddressEntrySchema)
+).describe('One address or a list of addresses');
+
+// Phone type, resolved from aliases such as cell or office
+const PhoneTypeSchema = z.string().transform((type, ctx) => {
+  const resolved = resolvePhoneType(type);
+  if (!resolved) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown phone type '${type}' (expected ${PHONE_TYPES.join(', ')} or one of their aliases)`,
+    });
+    return z.NEVER;
+  }
+  return resolved;
+}).describe(`Phone type: ${PHONE_TYPES.join(', ')} (aliases such as cell, office or móvil are accepted)`);
+
+// Phone schema - supports both string and object formats. Numbers are validated and
+// normalized to E.164 by YCardSchema, which knows the default region.
 const PhoneSchema = z.union([
-  z.string(), // Simple string format
+  z.string().transform(number => ({ type: 'work' as PhoneType, number })), // Simple string format
   z.object({
-    type: z.string().default('work'),
+    type: PhoneTypeSchema.default('work'),
     number: z.string(),
+    display: z.string().optional(),
+    ext: z.string().optional(),
+    pref: z.boolean().optional().describe('Preferred number (vCard PREF)'),
+  })
+]);
+
+// Email entry - a bare address or an object with type and pref
+const EmailEntrySchema = z.union([
+  z.string(),
+  z.object({
+    address: z.string(),
+    type: z.enum(EMAIL_TYPES).optional(),
+    pref: z.boolean().optional().describe('Preferred address (defaults to the first one)'),
   })
 ]);
 
-// Job schema for multi-hat support
-export const JobSchema = z.object({
-  role: z.string().optional(),
-  title: z.string().optional(), // Alias for role
-  fte: z.number().min(0).max(1).default(1),
-  manager: z.string().optional(),
-  jefe: z.string().optional(), // Spanish alias for manager
-  dotted: z.array(z.string()).default([]),
-  org_unit: z.string().optional(),
-  org: z.string().optional(), // Organization for this role
-  primary: z.boolean().default(false),
-}).transform((job: { role?: string; title?: string; fte: number; manager?: string; jefe?: string; dotted: string[]; org_unit?: string; org?: string; primary: boolean }) => ({
-  ...job,
-  role: job.role || job.title, // Use title as role if role not provided
-  manager: job.manager || job.jefe, // Use jefe as manager if manager not provided
-}));
-
-// Enhanced internationalization schema
-const I18nSchema = z.object({
-  displayName: z.record(z.string()).optional(),
+// Email schema - one entry or a list, validated (RFC 5322, IDN domains), de-duplicated and
+// normalized to a list with exactly one preferred address
+const EmailSchema = z.union([EmailEntrySchema, z.array(EmailEntrySchema)]).transform((value, ctx) => {
+  const { emails, issues } = normalizeEmails(Array.isArray(value) ? value : [value]);
+  issues.forEach(issue => ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    message: issue.message,
+    path: Array.isArray(value) ? [issue.index] : [],
+  }));
+  return emails;
+});
+
+// vCard property without a yCard field (e.g. BDAY, IMPP or Apple's item1.X-ABLabel), kept so that
+// importing and exporting vCards is lossless. The value is written as in vCard 4.0 (escaped).
+const VCardExtensionSchema = z.object({
+  group: z.string().optional(),
+  name: z.string(),
+  parameters: z.record(z.union([z.string(), z.array(z.string())])
+    .transform(value => Array.isArray(value) ? value : [value])).optional(),
+  value: z.string(),
+});
+
+// Data from other formats without a yCard field, by format
+const ExtensionsSchema = z.object({
+  vcard: z.array(VCardExtensionSchema).optional(),
+});
+
+// Localized names, keyed by language tag (e.g. { ja: '開発部' })
+const LocalizedNamesSchema = z.object({
   name: z.record(z.string()).optional(),
-  title: z.record(z.string()).optional(),
-  puesto: z.record(z.string()).optional(), // Spanish alias for title
-  org: z.record(z.string()).optional(),
-  org_unit: z.record(z.string()).optional(),
-  surname: z.record(z.string()).optional(),
-  apellido: z.record(z.string()).optional(), // Spanish alias for surname
-}).optional();
-
-// Main person schema with alias support
-export const PersonSchema = z.object({
-  // Core identifiers
-  uid: z.string(),
-  id: z.string().optional(), // Alternative to uid
-
-  // Name fields with aliases
-  name: z.string().optional(),
-  nombre: z.string().optional(), // Spanish alias
-  displayName: z.string().optional(), // Alternative name format
-
-  surname: z.string().optional(),
-  apellido: z.string().optional(), // Spanish alias
-  sn: z.string().optional(), // LDAP alias
-  lastName: z.string().optional(), // Alternative
-
-  // Title/position with aliases
-  title: z.string().optional(),
-  puesto: z.string().optional(), // Spanish alias
-  role: z.string().optional(), // Alternative
-
-  // Contact information with aliases
-  email: z.union([z.string(), z.array(z.string())]).optional(),
-  correo: z.union([z.string(), z.array(z.string())]).optional(), // Spanish alias
-  mail: z.string().optional(), // LDAP alias
-
-  // Organization with aliases
-  org: z.string().optional(),
-  organization: z.string().optional(), // Alternative
-  company: z.string().optional(), // Alternative
-
-  org_unit: z.string().optional(),
-  department: z.string().optional(), // Alternative
-  ou: z.string().optional(), // LDAP alias
-
-  // Management with aliases
-  manager: z.string().nullable().optional(),
-  jefe: z.string().nullable().optional(), // Spanish alias
-  上司: z.string().nullable().optional(), // Japanese alias
-  boss: z.string().nullable().optional(), // Alternative
-
-  // Contact details
-  phone: z.array(PhoneSchema).optional(),
-  tel: z.array(PhoneSchema).optional(), // LDAP alias
-
-  address: AddressSchema.optional(),
-  adr: AddressSchema.optional(), // LDAP alias
-
-  // Multi-hat support
-  jobs: z.array(JobSchema).optional(),
-
-  // Internationalization
-  i18n: I18nSchema,
-}).transform((person: {
+});
+
+// Organization definition - people, jobs and units refer to it by id or name
+const OrganizationSchema = z.object({
+  id: z.string(),
+  name: z.string().optional().describe('Display name (defaults to the id)'),
+  i18n: LocalizedNamesSchema.optional(),
+});
+
+// Org unit definition - person and job org_unit values refer to it by id or name
+const OrgUnitSchema = z.object({
+  id: z.string(),
+  name: z.string().optional().describe('Display name (defaults to the id)'),
+  org: z.string().optional().describe('Organization id or name'),
+  parent: z.string().optional().describe('Parent unit id or name'),
+  head: z.string().optional().describe('UID of the person heading the unit'),
+  cost_center: z.string().optional(),
+  i18n: LocalizedNamesSchema.optional(),
+});
+
+export type Organization = z.infer<typeof OrganizationSchema>;
+export type OrgUnit = z.infer<typeof OrgUnitSchema>;
+
+export interface Phone {
+  type: PhoneType;
+  number: string; // E.164 once validated, e.g. +12015550123
+  display?: string; // Human-readable international format, e.g. +1 201 555 0123
+  ext?: string;
+  pref?: boolean; // Preferred number
+}
+
+// Canonical (alias-resolved) record types produced by the schemas
+export interface Job {
+  role?: string;
+  fte: number;
+  manager?: string;
+  dotted: string[];
+  org_unit?: string;
+  org?: string; // Organization for this role
+  primary: boolean;
+}
+
+export interface VCardExtension {
+  group?: string; // e.g. item1 in item1.X-ABLabel
+  name: string;
+  parameters?: Record<string, string[]>;
+  value: string;
+}
+
+export interface Extensions {
+  vcard?: VCardExtension[];
+}
+
+export interface I18n {
+  displayName?: Record<string, string>;
+  name?: Record<string, string>;
+  title?: Record<string, string>;
+  org?: Record<string, string>;
+  org_unit?: Record<string, string>;
+  surname?: Record<string, string>;
+}
+
+export interface Person {
   uid: string;
-  id?: string;
   name?: string;
-  nombre?: string;
-  displayName?: string;
   surname?: string;
-  apellido?: string;
-  sn?: string;
-  lastName?: string;
   title?: string;
-  puesto?: string;
-  role?: string;
-  email?: string | string[];
-  correo?: string | string[];
-  mail?: string;
+  email?: Email[];
   org?: string;
-  organization?: string;
-  company?: string;
   org_unit?: string;
-  department?: string;
-  ou?: string;
-  manager?: string | null;
-  jefe?: string | null;
-  '上司'?: string | null;
-  boss?: string | null;
-  phone?: (string | { type: string; number: string })[];
-  tel?: (string | { type: string; number: string })[];
-  address?: { street?: string; city?: string; state?: string; postal_code?: string; country?: string };
-  adr?: { street?: string; city?: string; state?: string; postal_code?: string; country?: string };
-  jobs?: any[];
-  i18n?: any;
-}) => ({
-  ...person,
-  // Resolve aliases to canonical fields
-  uid: person.uid || person.id,
-  name: person.name || person.nombre || person.displayName,
-  surname: person.surname || person.apellido || person.sn || person.lastName,
-  title: person.title || person.puesto || person.role,
-  email: person.email || person.correo || person.mail,
-  org: person.org || person.organization || person.company,
-  org_unit: person.org_unit || person.department || person.ou,
-  manager: person.manager || person.jefe || person['上司'] || person.boss,
-  phone: person.phone || person.tel,
-  address: person.address || person.adr,
-}));
-
-// Root schema for yCard document
-export const YCardSchema = z.object({
-  people: z.array(PersonSchema),
-});
+  manager?: string;
+  phone?: Phone[];
+  address?: Address[];
+  jobs?: Job[];
+  i18n?: I18n;
+  extensions?: Extensions;
+}
 
-// Type exports
-export type Address = z.infer<typeof AddressSchema>;
-export type Phone = z.infer<typeof PhoneSchema>;
-export type Job = z.infer<typeof JobSchema>;
-export type I18n = z.infer<typeof I18nSchema>;
-export type Person = z.infer<typeof PersonSchema>;
-export type YCard = z.infer<typeof YCardSchema>;
+export interface YCard {
+  ycard_version?: number;
+  default_region?: string; // ISO 3166-1 alpha-2 region for phone numbers without a country code
+  orgs?: Organization[];
+  units?: OrgUnit[];
+  people: Person[];
+}
+
+type FieldSchemas = Record<string, z.ZodTypeAny>;
+
+/**
+ * Build an object schema for one record type: every canonical field plus each of its registered
+ * aliases (sharing the canonical value schema), resolved to canonical fields by a transform.
+ * Fields listed in `required` stay required under their canonical key; defaults apply after
+ * alias resolution so an alias value is never shadowed by a canonical default.
+ */
+function aliasedObject<T>(
+  registry: AliasRegistry,
+  scope: AliasScope,
+  fields: FieldSchemas,
+  options: { required?: string[]; defaults?: Partial<T> } = {}
+): z.ZodType<T, z.ZodTypeDef, unknown> {
+  const shape: FieldSchemas = {};
+  for (const field of registry.fields(scope)) {
+    const doc = registry.fieldDoc(scope, field);
+    const fieldSchema = options.required?.includes(field) ? fields[field] : fields[field].optional();
+    shape[field] = doc ? fieldSchema.describe(doc.detail) : fieldSchema;
+    for (const alias of registry.aliasesFor(scope, field)) {
+      shape[alias.key] = fields[field].optional().describe(alias.description ?? describeAlias(alias));
+    }
+  }
+
+  return z.object(shape).transform(record => ({
+    ...options.defaults,
+    ...registry.resolve(scope, record),
+  }) as T);
+}
+
+export interface YCardSchemas {
+  JobSchema: z.ZodType<Job, z.ZodTypeDef, unknown>;
+  I18nSchema: z.ZodType<I18n, z.ZodTypeDef, unknown>;
+  PersonSchema: z.ZodType<Person, z.ZodTypeDef, unknown>;
+  YCardSchema: z.ZodType<YCard, z.ZodTypeDef, unknown>;
+}
+
+const schemaCache = new WeakMap<AliasRegistry, YCardSchemas>();
+
+/**
+ * Build the yCard schemas for an alias registry. Register all alias packs before calling this:
+ * the accepted keys are fixed when the schemas are built.
+ */
+export function createYCardSchema(registry: AliasRegistry): YCardSchemas {
+  const cached = schemaCache.get(registry);
+  if (cached) return cached;
+
+  // Job schema for multi-hat support
+  const JobSchema = aliasedObject<Job>(registry, 'job', {
+    role: z.string(),
+    fte: z.number().min(0).max(1),
+    manager: z.string().nullable(),
+    dotted: z.array(z.string()),
+    org_unit: z.string(),
+    org: z.string(),
+    primary: z.boolean(),
+  }, { defaults: { fte: 1, dotted: [], primary: false } });
+
+  // Enhanced internationalization schema
+  const I18nSchema = aliasedObject<I18n>(registry, 'i18n', Object.fromEntries(
+    registry.fields('i18n').map(field => [field, z.record(z.string())])
+  ));
+
+  // Main person schema with alias support
+  const PersonSchema = aliasedObject<Person>(registry, 'person', {
+    uid: z.string(),
+    name: z.string(),
+    surname: z.string(),
+    title: z.string(),
+    email: EmailSchema,
+    org: z.string(),
+    org_unit: z.string(),
+    manager: z.string().nullable(),
+    phone: z.array(PhoneSchema),
+    address: AddressSchema,
+    jobs: z.array(JobSchema),
+    i18n: I18nSchema,
+    extensions: ExtensionsSchema,
+  }, { required: ['uid'] });
+
+  // Root schema for yCard document
+  const YCardSchema = z.object({
+    ycard_version: z.number().int().positive().optional()
+      .describe('yCard format version (documents without it are version 1)'),
+    default_region: z.string()
+      .refine(region => phoneRegion(region) !== undefined, region => ({
+        message: `Unknown region '${region}' (expected an ISO 3166-1 alpha-2 code such as US)`,
+      }))
+      .optional()
+      .describe('Region (ISO 3166-1 alpha-2) for phone numbers written without a country code'),
+    orgs: z.array(OrganizationSchema).optional()
+      .describe('Organizations referred to by person, job and unit org values'),
+    units: z.array(OrgUnitSchema).optional()
+      .describe('Org unit hierarchy referred to by person and job org_unit values'),
+    people: z.array(PersonSchema),
+  }).transform(normalizePhones);
+
+  const schemas = { JobSchema, I18nSchema, PersonSchema, YCardSchema };
+  schemaCache.set(registry, schemas);
+  return schemas;
+}
+
+/**
+ * Normalize every phone number to E.164 with a display format. Numbers without a country code
+ * use the person's address country, then the document's default_region. Numbers that cannot be
+ * parsed are kept as written (see validatePhones).
+ */
+function normalizePhones(card: YCard): YCard {
+  const people = card.people.map(person => {
+    if (!person.phone) return person;
+    const region = personPhoneRegion(person, card);
+
+    const phone = person.phone.map(entry => {
+      const result = normalizePhoneNumber(entry.number, region);
+      if (!result.valid) return entry;
+      const ext = result.ext ?? entry.ext;
+      const pref = 'pref' in entry && entry.pref;
+      return { type: entry.type, number: result.number, display: result.display, ...(ext && { ext }), ...(pref && { pref }) };
+    });
+    return { ...person, phone };
+  });
+  return { ...card, people };
+}
+
+// Default schemas, built from the built-in aliases
+export const { JobSchema, I18nSchema, PersonSchema, YCardSchema } = createYCardSchema(defaultAliasRegistry);
 
 // OpenAPI generation helper
-export function generateOpenAPISchema() {
-  // Helper function to convert Zod schema to JSON schema
+export function generateOpenAPISchema(schemas: YCardSchemas = createYCardSchema(defaultAliasRegistry)) {
+  // Helper function to convert Zod schema to JSON schema, keeping descriptions (e.g. alias docs)
   const zodToJsonSchema = (schema: any): any => {
+    const result = convertZodSchema(schema);
+    return schema.description && !result.description
+      ? { ...result, description: schema.description }
+      : result;
+  };
+
+  const convertZodSchema = (schema: any): any => {
     // Handle transform schemas by getting the inner schema
     if (schema._def.typeName === 'ZodEffects' && schema._def.schema) {
       return zodToJsonSchema(schema._def.schema);
@@ -269,11 +424,13 @@ export function generateOpenAPISchema() {
     components: {
       schemas: {
         Address: zodToJsonSchema(AddressSchema),
+        Organization: zodToJsonSchema(OrganizationSchema),
+        OrgUnit: zodToJsonSchema(OrgUnitSchema),
         Phone: zodToJsonSchema(PhoneSchema),
-        Job: zodToJsonSchema(JobSchema),
-        I18n: zodToJsonSchema(I18nSchema),
-        Person: zodToJsonSchema(PersonSchema),
-        YCard: zodToJsonSchema(YCardSchema),
+        Job: zodToJsonSchema(schemas.JobSchema),
+        I18n: zodToJsonSchema(schemas.I18nSchema),
+        Person: zodToJsonSchema(schemas.PersonSchema),
+        YCard: zodToJsonSchema(schemas.YCardSchema),
       },
     },
   };
@@ -0,0 +1,110 @@
+import { formatAddress, normalizeAddress, ldapPostalAddress } from '../src/address';
+import { countryCodeFor, countryName } from '../src/countries';
+import { YCardSchema } from '../src/ycard-schema';
+import { defaultMigrations } from '../src/migrations';
+import { yCardPersonToVCard, vCardToYCardPerson } from '../src/npm/converters';
+import { stringifyVCard, parseVCard } from '../src/npm/parsers/vcard';
+import { yCardToLDIF } from '../src/npm/utils';
+import { parseLDIF } from '../src/npm/parsers/ldif';
+
+const tokyo = { type: 'work' as const, street: '丸の内2-7-2', city: '千代田区', state: '東京都', postal_code: '100-8994', country: 'JP' };
+
+describe('Addresses', () => {
+  it('should resolve ISO 3166-1 codes and country names', () => {
+    expect(countryCodeFor('usa')).toBe('US');
+    expect(countryCodeFor('Japan')).toBe('JP');
+    expect(countryCodeFor('United Kingdom')).toBe('GB');
+    expect(countryCodeFor('Atlantis')).toBeUndefined();
+    expect(countryName('JP', 'ja')).toBe('日本');
+  });
+
+  it('should validate countries and postal codes', () => {
+    expect(normalizeAddress({ type: 'home', postal_code: '95014-1234', country: 'us' })).toEqual({
+      address: { type: 'home', postal_code: '95014-1234', country: 'US' },
+      issues: [],
+    });
+    expect(normalizeAddress({ type: 'work', country: 'USA' }).issues).toEqual([
+      { field: 'country', message: `Unknown country 'USA' (expected an ISO 3166-1 alpha-2 code such as US)` },
+    ]);
+    expect(normalizeAddress({ type: 'work', postal_code: '1008994', country: 'JP' }).issues).toEqual([]);
+    expect(normalizeAddress({ type: 'work', postal_code: '9501', country: 'US' }).issues).toEqual([
+      { field: 'postal_code', message: `Invalid postal code '9501' for US (e.g. 95014)` },
+    ]);
+    // Countries without a known format accept any postal code
+    expect(normalizeAddress({ type: 'work', postal_code: 'anything', country: 'AQ' }).issues).toEqual([]);
+  });
+
+  it('should format addresses in the country layout', () => {
+    expect(formatAddress(tokyo, { locale: 'ja' })).toEqual(['〒100-8994', '東京都千代田区', '丸の内2-7-2', '日本']);
+    expect(formatAddress({ street: '1 Infinite Loop', city: 'Cupertino', state: 'CA', postal_code: '95014', country: 'US' })).toEqual([
+      '1 Infinite Loop', 'Cupertino, CA 95014', 'United States',
+    ]);
+    expect(formatAddress({ street: 'Unter den Linden 1\nHinterhaus', city: 'Berlin', postal_code: '10117', country: 'DE' }, { country: false })).toEqual([
+      'Unter den Linden 1', 'Hinterhaus', '10117 Berlin',
+    ]);
+    expect(formatAddress({ city: 'Cupertino', country: 'US' }, { country: false })).toEqual(['Cupertino']);
+  });
+
+  it('should accept one address or a list, with paths for invalid entries', () => {
+    const card = YCardSchema.parse({ people: [{ uid: 'a', adr: { street: '1 Main St', country: 'us' } }] });
+    expect(card.people[0].address).toEqual([{ type: 'work', street: '1 Main St', country: 'US' }]);
+
+    const result = YCardSchema.safeParse({
+      people: [{ uid: 'a', address: [tokyo, { type: 'home', postal_code: 'ABC', country: 'US' }, { type: 'office', country: 'Japan' }] }],
+    });
+    expect(!result.success && result.error.issues.map(issue => issue.path.join('.'))).toEqual([
+      'people.0.address.1.postal_code',
+      'people.0.address.2.type',
+    ]);
+  });
+
+  it('should migrate alpha-3 codes and country names to alpha-2', () => {
+    const { document, steps } = defaultMigrations.migrate({
+      ycard_version: 2,
+      people: [{ uid: 'a', address: { country: 'USA' }, adr: [{ country: 'Japan' }, { country: 'JP' }, { country: 'Atlantis' }] }],
+    });
+
+    expect(document.people).toEqual([
+      { uid: 'a', address: { country: 'US' }, adr: [{ country: 'JP' }, { country: 'JP' }, { country: 'Atlantis' }] },
+    ]);
+    expect(steps[0].changes).toEqual([
+      { path: ['people', 0, 'address', 'country'], message: `country 'USA' replaced by US` },
+      { path: ['people', 0, 'adr', 0, 'country'], message: `country 'Japan' replaced by JP` },
+    ]);
+  });
+
+  it('should export ADR entries with TYPE and LABEL and read them back', () => {
+    const [person] = YCardSchema.parse({
+      people: [{ uid: 't', address: [tokyo, { type: 'mailing', street: 'PO Box 1', city: 'Cupertino', state: 'CA', postal_code: '95015', country: 'US' }] }],
+    }).people;
+
+    const vcf = stringifyVCard([yCardPersonToVCard(person)]);
+    const unfolded = vcf.replace(/\r\n /g, '');
+    expect(unfolded).toContain('ADR;TYPE=work;LABEL="〒100-8994\\n東京都千代田区\\n丸の内2-7-2\\nJapan":;;丸の内2-7-2;千代田区;東京都;100-8994;JP');
+    expect(unfolded).toContain('ADR;TYPE=postal;LABEL="PO Box 1\\nCupertino, CA 95015\\nUnited States":');
+
+    const [card] = parseVCard(vcf);
+    expect(card.adr?.[0].label).toBe('〒100-8994\n東京都千代田区\n丸の内2-7-2\nJapan');
+    expect(vCardToYCardPerson(card).address).toEqual(person.address);
+  });
+
+  it('should import country names and postal types from vCard', () => {
+    const [card] = parseVCard('BEGIN:VCARD\r\nVERSION:4.0\r\nUID:x\r\nADR;TYPE=dom,parcel:;;1 Main St\\; Suite 2;Springfield;IL;62701;United States\r\nEND:VCARD');
+    expect(vCardToYCardPerson(card).address).toEqual([
+      { type: 'mailing', street: '1 Main St; Suite 2', city: 'Springfield', state: 'IL', postal_code: '62701', country: 'US' },
+    ]);
+  });
+
+  it('should write LDAP PostalAddress values by type', () => {
+    expect(ldapPostalAddress(['Suite $5', 'C:\\Docs'])).toBe('Suite \\245$C:\\5CDocs');
+
+    const card = YCardSchema.parse({
+      people: [{ uid: 't', address: [{ street: '1 Main St', city: 'Springfield', state: 'IL', postal_code: '62701', country: 'US' }, { ...tokyo, type: 'home' }] }],
+    });
+    const ldif = yCardToLDIF(card, 'dc=example,dc=com');
+    expect(ldif).toContain('postalAddress: 1 Main St$Springfield, IL 62701$United States');
+    // Non-ASCII values are base64 encoded
+    expect(ldif).toContain('homePostalAddress:: ');
+    expect(parseLDIF(ldif)[0].attributes.homepostaladdress).toEqual(['〒100-8994$東京都千代田区$丸の内2-7-2$Japan']);
+  });
+});
@@ -0,0 +1,72 @@
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import {
+  AliasConflictError,
+  createAliasRegistry,
+  defaultAliasRegistry,
+  loadAliasPackFile,
+  parseAliasPack,
+} from '../src/aliases';
+import { createYCardSchema } from '../src/ycard-schema';
+
+describe('Alias registry', () => {
+  const packsDir = join(__dirname, '../src/alias-packs');
+  const germanPack = parseAliasPack(`
+name: de
+language: de
+aliases:
+  person:
+    surname: [Nachname]
+    manager: [Vorgesetzter]
+  job:
+    role: [Rolle]
+`);
+
+  it('should expose the built-in aliases in precedence order', () => {
+    expect(defaultAliasRegistry.keysFor('person', 'manager')).toEqual(['manager', 'jefe', '上司', 'boss']);
+    expect(defaultAliasRegistry.canonicalFor('person', 'sn')).toBe('surname');
+    expect(defaultAliasRegistry.canonicalFor('job', 'title')).toBe('role');
+  });
+
+  it('should normalize keys from a loaded pack through the schema', () => {
+    const { PersonSchema } = createYCardSchema(createAliasRegistry([germanPack]));
+    const person = PersonSchema.parse({
+      uid: 'hans',
+      Nachname: 'Müller',
+      Vorgesetzter: 'alice',
+      jobs: [{ Rolle: 'Entwickler' }],
+    });
+
+    expect(person).toEqual({
+      uid: 'hans',
+      surname: 'Müller',
+      manager: 'alice',
+      jobs: [{ role: 'Entwickler', fte: 1, dotted: [], primary: false }],
+    });
+  });
+
+  it('should prefer built-in aliases over pack aliases', () => {
+    const { PersonSchema } = createYCardSchema(createAliasRegistry([germanPack]));
+    const person = PersonSchema.parse({ uid: 'x', Vorgesetzter: 'bob', jefe: 'carol' });
+    expect(person.manager).toBe('carol');
+  });
+
+  it('should reject aliases that map to a different field', () => {
+    const clashing = parseAliasPack('name: clash\naliases:\n  person:\n    title: [jefe]\n');
+    expect(() => createAliasRegistry([clashing])).toThrow(AliasConflictError);
+  });
+
+  it('should load every shipped alias pack together', () => {
+    const packs = readdirSync(packsDir)
+      .filter(file => file.endsWith('.yaml'))
+      .map(file => loadAliasPackFile(join(packsDir, file)));
+
+    const registry = createAliasRegistry(packs);
+    expect(registry.packNames()).toEqual(['builtin', 'de', 'fr', 'pt', 'zh']);
+    expect(registry.entry('person', '上司')?.pack).toBe('builtin');
+  });
+
+  it('should reject changes to the locked default registry', () => {
+    expect(() => defaultAliasRegistry.registerPack(germanPack)).toThrow(AliasConflictError);
+  });
+});
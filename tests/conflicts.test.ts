@@ -0,0 +1,93 @@
+import { findAliasConflicts } from '../src/conflicts';
+import { YCardParser } from '../src/parser';
+import { validateYCard } from '../src/npm/utils';
+import { CURRENT_YCARD_VERSION } from '../src/migrations';
+
+describe('Alias conflicts', () => {
+  const conflicting = `ycard_version: ${CURRENT_YCARD_VERSION}
+people:
+  - uid: carol
+    manager: alice
+    jefe: bob
+  - uid: alice
+  - uid: bob
+`;
+
+  it('should report keys holding different values for the same field', () => {
+    const issues = findAliasConflicts({
+      people: [{ uid: 'carol', manager: 'alice', jefe: 'bob', boss: 'alice' }],
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      code: 'alias-conflict',
+      field: 'manager',
+      path: ['people', 0, 'manager'],
+      severity: 'warning',
+      values: [
+        { key: 'manager', value: 'alice' },
+        { key: 'jefe', value: 'bob' },
+        { key: 'boss', value: 'alice' },
+      ],
+    });
+    expect(issues[0].message).toBe(
+      `Conflicting values for 'manager': manager = "alice", jefe = "bob", boss = "alice" (using manager)`
+    );
+  });
+
+  it('should ignore aliases that agree or hold no value', () => {
+    const issues = findAliasConflicts({
+      people: [
+        { uid: 'a', name: 'Ana', nombre: 'Ana', email: 'a@x.com', correo: ['a@x.com'] },
+        { uid: 'b', manager: 'a', jefe: '' },
+      ],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('should check jobs and compare i18n values per language', () => {
+    const issues = findAliasConflicts({
+      people: [{
+        uid: 'a',
+        jobs: [{ role: 'Dev', title: 'QA' }],
+        i18n: { title: { en: 'Engineer', es: 'Ingeniera' }, puesto: { es: 'Desarrolladora', fr: 'Ingénieure' } },
+      }],
+    }, 'strict');
+
+    expect(issues.map(issue => [issue.field, issue.path.join('.'), issue.severity])).toEqual([
+      ['role', 'people.0.jobs.0.role', 'error'],
+      ['title', 'people.0.i18n.title.es', 'error'],
+    ]);
+  });
+
+  it('should warn in lenient mode and fail in strict mode', () => {
+    const lenient = new YCardParser().parse(conflicting);
+    expect(lenient.success).toBe(true);
+    if (lenient.success) {
+      expect(lenient.data.people[0].manager).toBe('alice');
+      expect(lenient.warnings).toEqual([expect.objectContaining({ code: 'alias-conflict', severity: 'warning' })]);
+    }
+
+    const parser = new YCardParser({ aliasConflicts: 'strict' });
+    const strict = parser.parseWithSourceMap(conflicting);
+    expect(strict.success).toBe(false);
+    if (!strict.success) {
+      const [error] = parser.getLocatedErrors(strict.errors, strict.sourceMap);
+      expect(error).toMatchObject({ code: 'alias-conflict', path: ['people', 0, 'manager'] });
+      expect(error.range.start.line).toBe(3);
+    }
+
+    const off = new YCardParser({ aliasConflicts: 'off' }).parse(conflicting);
+    expect(off.success && off.warnings).toEqual([]);
+  });
+
+  it('should apply the mode in validateYCard', () => {
+    const data = { people: [{ uid: 'alice' }, { uid: 'bob' }, { uid: 'carol', manager: 'alice', jefe: 'bob' }] };
+
+    expect(validateYCard(data)).toMatchObject({ valid: true, issues: [expect.objectContaining({ severity: 'warning' })] });
+    expect(validateYCard(data, { aliasConflicts: 'strict' })).toMatchObject({
+      valid: false,
+      errors: [expect.stringContaining('people.2.manager: Conflicting values')],
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { findDuplicates, mergeDuplicates, DedupeError } from '../src/dedupe';
+import { transliterate } from '../src/transliterate';
+
+const card = YCardSchema.parse({
+  default_region: 'US',
+  units: [{ id: 'eng', name: 'Engineering', head: 'asmith' }],
+  people: [
+    { uid: 'alice', name: 'Alice', surname: 'Smith', email: ['Alice@Example.com'], manager: 'bob', title: 'CTO' },
+    { uid: 'asmith', nombre: 'Alice', apellido: 'Smith', email: ['alice@example.com'], manager: 'bob',
+      phone: ['+1 201 555 0101'], i18n: { title: { ja: '最高技術責任者' } } },
+    { uid: 'bob', name: 'Bob', surname: 'Jones', phone: ['+1 201 555 0199'] },
+    { uid: 'vcard-1700000000-x1y2z3', name: 'Robert', surname: 'Jones', phone: ['(201) 555-0199'] },
+    { uid: 'ana', name: 'Анна', surname: 'Иванова', manager: 'bob' },
+    { uid: 'ivanova', name: 'Anna', surname: 'Ivanova', manager: 'bob' },
+    { uid: 'carol', name: 'Carol', manager: 'asmith', jobs: [{ role: 'Dev', dotted: ['asmith'] }] },
+    { uid: 'dave', name: 'Dave', surname: 'Smith', manager: 'carol' },
+  ],
+});
+
+describe('Duplicate detection', () => {
+  it('should rank candidate pairs with their reasons', () => {
+    const candidates = findDuplicates(card);
+
+    expect(candidates.map(candidate => [candidate.uids, candidate.score])).toEqual([
+      [['alice', 'asmith'], 1],
+      [['ana', 'ivanova'], 0.5],
+    ]);
+    expect(candidates[0].reasons.map(reason => reason.kind)).toEqual(['email', 'name', 'handle', 'manager']);
+    expect(candidates[1].reasons.map(reason => reason.message)).toEqual([
+      'same name (Анна Иванова / Anna Ivanova)',
+      "same manager 'bob'",
+    ]);
+
+    const loose = findDuplicates(card, { threshold: 0.3 });
+    expect(loose.find(candidate => candidate.uids[1] === 'vcard-1700000000-x1y2z3')?.reasons.map(reason => reason.message))
+      .toEqual(['same phone +12015550199']);
+    expect(loose.some(candidate => candidate.uids.includes('dave'))).toBe(false);
+  });
+
+  it('should merge confirmed pairs and move references', () => {
+    const merged = mergeDuplicates(card, [{ keep: 'alice', drop: 'asmith' }]);
+
+    expect(merged.people.map(person => person.uid)).not.toContain('asmith');
+    expect(merged.people[0]).toMatchObject({
+      uid: 'alice',
+      title: 'CTO',
+      email: [{ address: 'Alice@example.com', pref: true }],
+      phone: [{ number: '+12015550101' }],
+      i18n: { title: { ja: '最高技術責任者' } },
+    });
+    expect(merged.people.find(person => person.uid === 'carol')).toMatchObject({
+      manager: 'alice',
+      jobs: [{ role: 'Dev', dotted: ['alice'] }],
+    });
+    expect(merged.units?.[0].head).toBe('alice');
+    expect(() => mergeDuplicates(card, [{ keep: 'alice', drop: 'zed' }])).toThrow(DedupeError);
+  });
+
+  it('should romanize kana, Cyrillic and Greek for matching', () => {
+    expect(transliterate('アリス・スミス')).toBe('arisu・sumisu');
+    expect(transliterate('きょうこ')).toBe('kyouko');
+    expect(transliterate('がっこう')).toBe('gakkou');
+    expect(transliterate('ジェーン')).toBe('jen');
+    expect(transliterate('Алиса Смит')).toBe('alisa smit');
+    expect(transliterate('Αλίκη')).toBe('aliki');
+    expect(transliterate('José Łukasz Straße')).toBe('jose lukasz strasse');
+  });
+});
@@ -0,0 +1,83 @@
+import { parseYCard } from '../src/npm/index';
+import { diffYCard, formatYCardDiff } from '../src/diff';
+
+const before = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+    surname: Hopper
+  - uid: ann
+    name: Ann
+    surname: Lee
+    title: Engineer
+    manager: boss
+    jobs:
+      - role: Dev
+        fte: 0.8
+        primary: true
+      - role: Support
+        fte: 0.2
+  - uid: carl
+    name: Carl
+    title: Sales
+`);
+
+const after = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+    surname: Hopper
+  - uid: ann
+    nombre: Ann
+    apellido: Park
+    puesto: Senior Engineer
+    上司: dana
+    jobs:
+      - role: Dev
+        fte: 0.6
+        primary: true
+        dotted: [boss]
+      - role: Mentor
+        fte: 0.4
+    i18n:
+      title:
+        ja: シニアエンジニア
+  - uid: dana
+    name: Dana
+    title: Director
+    jefe: boss
+`);
+
+describe('yCard diff', () => {
+  it('should report changes per person, resolving aliases', () => {
+    const changes = diffYCard(before, after);
+
+    expect(changes.map(change => [change.kind, change.uid, change.field])).toEqual([
+      ['rename', 'ann', 'name'],
+      ['title', 'ann', 'title'],
+      ['manager', 'ann', 'manager'],
+      ['fte', 'ann', 'jobs[Dev].fte'],
+      ['job-changed', 'ann', 'jobs[Dev].dotted'],
+      ['job-added', 'ann', 'jobs[Mentor]'],
+      ['job-removed', 'ann', 'jobs[Support]'],
+      ['i18n', 'ann', 'i18n.title.ja'],
+      ['hire', 'dana', undefined],
+      ['departure', 'carl', undefined],
+    ]);
+    expect(changes[2]).toMatchObject({ before: 'boss', after: 'dana', message: 'Manager Grace Hopper → Dana' });
+    expect(changes[3].message).toBe('Dev FTE 0.8 → 0.6');
+    expect(changes[8].message).toBe('Hired Dana (Director, reports to Grace Hopper)');
+    expect(diffYCard(after, after)).toEqual([]);
+  });
+
+  it('should render text, Markdown and JSON', () => {
+    const changes = diffYCard(before, after);
+
+    expect(formatYCardDiff(changes).split('\n')[0]).toBe('rename       ann: Renamed from Ann Lee to Ann Park');
+    const markdown = formatYCardDiff(changes, 'markdown');
+    expect(markdown).toContain('## Hires (1)\n\n- **dana**: Hired Dana (Director, reports to Grace Hopper)');
+    expect(markdown.indexOf('## Hires')).toBeLessThan(markdown.indexOf('## Departures'));
+    expect(JSON.parse(formatYCardDiff(changes, 'json')).changes).toHaveLength(changes.length);
+    expect(formatYCardDiff([])).toBe('No organizational changes\n');
+  });
+});
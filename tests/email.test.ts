@@ -0,0 +1,66 @@
+import { normalizeEmailAddress, normalizeEmails, asciiEmailAddress } from '../src/email';
+import { YCardSchema } from '../src/ycard-schema';
+import { yCardPersonToVCard, vCardToYCardPerson } from '../src/npm/converters';
+import { stringifyVCard, parseVCard } from '../src/npm/parsers/vcard';
+import { yCardToLDIF } from '../src/npm/utils';
+
+describe('Email addresses', () => {
+  it('should accept RFC 5322 addresses and IDN domains', () => {
+    expect(normalizeEmailAddress('Alice.Smith+org@Example.COM')).toEqual({ address: 'Alice.Smith+org@example.com' });
+    expect(normalizeEmailAddress('"john doe"@example.com')).toEqual({ address: '"john doe"@example.com' });
+    expect(normalizeEmailAddress('taro@例え.JP')).toEqual({ address: 'taro@例え.jp' });
+    expect(normalizeEmailAddress('josé@ejemplo.es')).toEqual({ address: 'josé@ejemplo.es' });
+    expect(normalizeEmailAddress('ops@[192.168.0.1]')).toEqual({ address: 'ops@[192.168.0.1]' });
+  });
+
+  it('should reject malformed addresses', () => {
+    for (const address of ['alice', 'alice@', '@example.com', 'a..b@example.com', 'alice@localhost', 'alice@-bad.com', 'alice@example.123']) {
+      expect(normalizeEmailAddress(address)).toEqual({ message: expect.stringContaining(`Invalid email address '${address}'`) });
+    }
+  });
+
+  it('should de-duplicate and mark exactly one preferred address', () => {
+    expect(normalizeEmails(['a@x.com', { address: 'b@y.com', type: 'home', pref: true }, 'A@X.com', { address: 'a@X.COM', type: 'work' }])).toEqual({
+      emails: [
+        { address: 'a@x.com', type: 'work', pref: false },
+        { address: 'b@y.com', type: 'home', pref: true },
+        { address: 'A@x.com', pref: false },
+      ],
+      issues: [],
+    });
+    expect(normalizeEmails(['a@x.com', 'b@y.com']).emails.map(email => email.pref)).toEqual([true, false]);
+    expect(normalizeEmails([{ address: 'a@x.com', pref: true }, { address: 'b@y.com', pref: true }]).issues).toEqual([
+      { index: 1, message: 'Only one email can be preferred (entry 0 already is)' },
+    ]);
+  });
+
+  it('should validate every alias key with entry paths', () => {
+    const result = YCardSchema.safeParse({
+      people: [{ uid: 'a', email: 'a@example.com' }, { uid: 'b', correo: ['b@ejemplo.es', 'not-an-email'] }, { uid: 'c', mail: 'c@' }],
+    });
+    expect(!result.success && result.error.issues.map(issue => issue.path.join('.'))).toEqual([
+      'people.1.correo.1',
+      'people.2.mail',
+    ]);
+
+    const card = YCardSchema.parse({ people: [{ uid: 'b', correo: 'B@Ejemplo.ES' }] });
+    expect(card.people[0].email).toEqual([{ address: 'B@ejemplo.es', pref: true }]);
+  });
+
+  it('should map type and pref to vCard TYPE/PREF and back', () => {
+    const [person] = YCardSchema.parse({
+      people: [{ uid: 'a', email: ['a@home.example', { address: 'a@work.example', type: 'work', pref: true }] }],
+    }).people;
+
+    const vcf = stringifyVCard([yCardPersonToVCard(person)]);
+    expect(vcf).toContain('EMAIL:a@home.example\r\nEMAIL;TYPE=work;PREF=1:a@work.example');
+    expect(vCardToYCardPerson(parseVCard(vcf)[0]).email).toEqual(person.email);
+  });
+
+  it('should write the preferred address first and IDN domains in punycode to LDIF', () => {
+    expect(asciiEmailAddress('taro@例え.jp')).toBe('taro@xn--r8jz45g.jp');
+
+    const card = YCardSchema.parse({ people: [{ uid: 't', email: ['t@example.com', { address: 'taro@例え.jp', pref: true }] }] });
+    expect(yCardToLDIF(card, 'dc=example,dc=com')).toContain('mail: taro@xn--r8jz45g.jp\nmail: t@example.com');
+  });
+});
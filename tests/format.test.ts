@@ -0,0 +1,125 @@
+import * as yaml from 'js-yaml';
+import { formatYCard, updateYCard, YCardFormatError } from '../src/format';
+import { createAliasRegistry, loadAliasPackFile } from '../src/aliases';
+import { YCardParser } from '../src/parser';
+import { defaultMigrations } from '../src/migrations';
+
+describe('Formatter', () => {
+  const source = `# Org chart
+people:
+    -   uid: 'alice'   # the CEO
+        nombre: "Alicia"
+        zip: "01234"
+        jefe: null
+        jobs:
+          - title: "Dev"
+            jefe: bob
+            dotted: [ a, "b" ]
+        i18n:
+          puesto: {es: "Jefa", en: Boss}
+`;
+
+  it('should rewrite aliases to canonical keys and keep comments and key order', () => {
+    expect(formatYCard(source)).toBe(`# Org chart
+people:
+  - uid: alice # the CEO
+    name: Alicia
+    zip: "01234"
+    manager: null
+    jobs:
+      - role: Dev
+        manager: bob
+        dotted: [a, b]
+    i18n:
+      title: {es: Jefa, en: Boss}
+`);
+  });
+
+  it('should rewrite keys to a locale and leave keys alone when preserving aliases', () => {
+    const spanish = formatYCard(source, { locale: 'es' });
+    expect(spanish).toContain('    nombre: Alicia\n');
+    expect(spanish).toContain('    jefe: null\n');
+    expect(spanish).toContain('      puesto: {es: Jefa, en: Boss}\n');
+
+    const preserved = formatYCard(source, { aliases: 'preserve' });
+    expect(preserved).toContain('    nombre: Alicia\n');
+    expect(preserved).toContain('      - title: Dev\n');
+
+    const german = createAliasRegistry([loadAliasPackFile('src/alias-packs/de.yaml')]);
+    expect(formatYCard('people:\n  - uid: a\n    surname: Weber\n', { registry: german, locale: 'de' }))
+      .toBe('people:\n  - uid: a\n    Nachname: Weber\n');
+  });
+
+  it('should not rename a key whose target is already present', () => {
+    const content = 'people:\n  - uid: a\n    manager: b\n    jefe: c\n';
+    expect(formatYCard(content)).toBe(content);
+  });
+
+  it('should be idempotent and keep the parsed data unchanged', () => {
+    const formatted = formatYCard(source);
+    expect(formatYCard(formatted)).toBe(formatted);
+
+    const parser = new YCardParser();
+    const before = parser.parse(source);
+    const after = parser.parse(formatted);
+    expect(before.success && after.success && after.data).toEqual(before.success && before.data);
+  });
+
+  it('should reject malformed YAML', () => {
+    expect(() => formatYCard('people:\n  - uid: [a\n')).toThrow(YCardFormatError);
+  });
+});
+
+describe('Document updates', () => {
+  const source = `# Directory
+people:
+  # Founders
+  - uid: alice
+    nombre: Alicia # first name
+    email: [alice@example.com]
+    address:
+      country: Germany
+  - uid: bob
+    name: 'Bob'
+`;
+
+  it('should keep comments, layout and alias keys of unchanged values when migrating', () => {
+    const result = defaultMigrations.migrate(yaml.load(source));
+
+    expect(updateYCard(source, result.document)).toBe(`# Directory
+ycard_version: 4
+people:
+  # Founders
+  - uid: alice
+    nombre: Alicia # first name
+    email: [{address: alice@example.com}]
+    address:
+      country: DE
+  - uid: bob
+    name: 'Bob'
+`);
+  });
+
+  it('should match canonical fields to alias keys and list entries by uid', () => {
+    const updated = updateYCard(source, {
+      people: [
+        { uid: 'carol', name: 'Carol' },
+        { uid: 'bob', name: 'Bob', title: 'CTO' },
+        { uid: 'alice', name: 'Alice', email: ['alice@example.com'] },
+      ],
+    });
+
+    expect(updated).toBe(`# Directory
+people:
+  # Founders
+  - uid: carol
+    name: Carol
+  - uid: bob
+    name: 'Bob'
+    title: CTO
+  - uid: alice
+    nombre: Alice # first name
+    email: [alice@example.com]
+`);
+  });
+});
@@ -0,0 +1,53 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { validateFte, fteReport } from '../src/fte';
+import { validateReferences } from '../src/integrity';
+
+describe('FTE accounting', () => {
+  it('should check total FTE and the primary job per person', () => {
+    const card = YCardSchema.parse({
+      people: [
+        { uid: 'ok', jobs: [{ role: 'A', fte: 0.7, primary: true }, { role: 'B', fte: 0.2 }, { role: 'C', fte: 0.1 }] },
+        { uid: 'single', jobs: [{ role: 'A' }] },
+        { uid: 'over', jobs: [{ role: 'A', primary: true }, { role: 'B', fte: 0.5 }] },
+        { uid: 'two', jobs: [{ role: 'A', fte: 0.5, primary: true }, { role: 'B', fte: 0.5, primary: true }] },
+        { uid: 'none', jobs: [{ role: 'A', fte: 0.5 }, { role: 'B', fte: 0.5 }] },
+      ],
+    });
+
+    expect(validateFte(card).map(issue => [issue.code, issue.path.join('.'), issue.severity])).toEqual([
+      ['fte-over-allocated', 'people.2.jobs', 'error'],
+      ['multiple-primary-jobs', 'people.3.jobs.1.primary', 'error'],
+      ['no-primary-job', 'people.4.jobs', 'warning'],
+    ]);
+    expect(validateFte(card)[0].message).toBe(`'over' is allocated 1.5 FTE across 2 jobs (at most 1.0)`);
+    expect(validateReferences(card).map(issue => issue.code)).toContain('fte-over-allocated');
+  });
+
+  it('should total headcount and FTE per unit, org and manager', () => {
+    const report = fteReport(YCardSchema.parse({
+      orgs: [{ id: 'acme', name: 'Acme Corp' }],
+      units: [{ id: 'eng', name: 'Engineering' }, { id: 'sales', name: 'Sales' }],
+      people: [
+        { uid: 'boss', name: 'Grace', surname: 'Hopper', org: 'acme' },
+        { uid: 'ann', org: 'acme', manager: 'boss', jobs: [
+          { role: 'Dev', fte: 0.6, org_unit: 'eng', primary: true },
+          { role: 'Pre-sales', fte: 0.3, org_unit: 'Sales', manager: 'carl' },
+        ] },
+        { uid: 'carl', org: 'acme', org_unit: 'sales', manager: 'boss' },
+      ],
+    }));
+
+    expect(report.total).toEqual({ headcount: 3, fte: 2.9 });
+    expect(report.byUnit).toEqual([
+      { key: 'eng', name: 'Engineering', headcount: 1, fte: 0.6 },
+      { key: 'sales', name: 'Sales', headcount: 2, fte: 1.3 },
+      { name: '(unassigned)', headcount: 1, fte: 1 },
+    ]);
+    expect(report.byOrg).toEqual([{ key: 'acme', name: 'Acme Corp', headcount: 3, fte: 2.9 }]);
+    expect(report.byManager).toEqual([
+      { key: 'carl', name: 'carl', headcount: 1, fte: 0.3 },
+      { key: 'boss', name: 'Grace Hopper', headcount: 2, fte: 1.6 },
+      { name: '(unassigned)', headcount: 1, fte: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { validateReferences } from '../src/integrity';
+
+describe('Referential integrity', () => {
+  const check = (people: unknown[]) => validateReferences(YCardSchema.parse({ people }));
+
+  it('should accept a valid hierarchy resolved through aliases', () => {
+    const issues = check([
+      { uid: 'alice', manager: null },
+      { uid: 'bob', jefe: 'alice' },
+      { uid: 'carol', 上司: 'bob', jobs: [{ role: 'Dev', manager: 'bob', dotted: ['alice'] }] },
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  it('should report unknown manager, job manager and dotted-line UIDs with paths', () => {
+    const issues = check([
+      { uid: 'alice' },
+      { uid: 'bob', boss: 'ghost' },
+      { uid: 'carol', manager: 'alice', jobs: [{ role: 'Dev', jefe: 'nobody', dotted: ['phantom'] }] },
+    ]);
+
+    expect(issues.map(issue => [issue.code, issue.path.join('.')])).toEqual([
+      ['unknown-manager', 'people.1.manager'],
+      ['unknown-manager', 'people.2.jobs.0.manager'],
+      ['unknown-dotted-manager', 'people.2.jobs.0.dotted.0'],
+    ]);
+  });
+
+  it('should report self-management', () => {
+    const issues = check([{ uid: 'alice', manager: 'alice' }]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'self-management', path: ['people', 0, 'manager'], severity: 'error' });
+  });
+
+  it('should report cycles and people cut off from a root', () => {
+    const issues = check([
+      { uid: 'root' },
+      { uid: 'a', manager: 'b' },
+      { uid: 'b', manager: 'c' },
+      { uid: 'c', manager: 'a' },
+      { uid: 'd', manager: 'a' },
+    ]);
+
+    const cycle = issues.filter(issue => issue.code === 'management-cycle');
+    expect(cycle.map(issue => issue.path)).toEqual([['people', 1], ['people', 2], ['people', 3]]);
+    expect(cycle[0].message).toBe('Management cycle: a → b → c → a');
+
+    const orphans = issues.filter(issue => issue.code === 'no-root-path');
+    expect(orphans).toEqual([expect.objectContaining({ path: ['people', 4], severity: 'warning' })]);
+  });
+
+  it('should report duplicate UIDs', () => {
+    const issues = check([{ uid: 'alice' }, { uid: 'alice' }]);
+    expect(issues).toEqual([expect.objectContaining({ code: 'duplicate-uid', path: ['people', 1, 'uid'] })]);
+  });
+});
@@ -0,0 +1,83 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { YCardSchema, type YCard } from '../src/ycard-schema';
+import { parseYCard, stringifyYCard } from '../src/npm/index';
+import { yCardToVCard, vCardToYCard } from '../src/npm/converters';
+import { parseVCard } from '../src/npm/parsers/vcard';
+import { parseJCard, stringifyJCard, JCardParseError } from '../src/npm/parsers/jcard';
+import { parseXCard, stringifyXCard } from '../src/npm/parsers/xcard';
+
+const corpus = (file: string) => readFileSync(join(__dirname, 'fixtures', 'vcard', file), 'utf8');
+
+// jCard and xCard write property names in lowercase; vCard names are case-insensitive
+const normalized = (card: YCard) => parseYCard(stringifyYCard(card).replace(/name: (X-[\w-]+)/g, (_, name: string) => `name: ${name.toUpperCase()}`));
+
+const formats = [
+  ['jCard', stringifyJCard, parseJCard],
+  ['xCard', stringifyXCard, parseXCard],
+] as const;
+
+describe('jCard and xCard', () => {
+  it.each(formats.flatMap(([format, stringify, parse]) => ['apple.vcf', 'google.vcf', 'outlook.vcf', 'escapes.vcf'].map(file => [format, file, stringify, parse] as const)))(
+    'should round trip %s for %s like vCard text', (_, file, stringify, parse) => {
+      const imported = normalized(vCardToYCard(parseVCard(corpus(file))));
+      expect(normalized(vCardToYCard(parse(stringify(yCardToVCard(imported)))))).toEqual(imported);
+    });
+
+  it.each(formats)('should keep separators and backslashes in %s', (_, stringify, parse) => {
+    const org = YCardSchema.parse({
+      people: [{ uid: 'ann', name: 'Ann', surname: 'Lee; Jr, III', title: 'C\\n level', org: 'Acme; Co', org_unit: 'R\\D' }],
+    });
+    expect(vCardToYCard(parse(stringify(yCardToVCard(org)))).people).toEqual(org.people);
+  });
+
+  it.each(formats)('should keep multi-hat jobs in %s', (_, stringify, parse) => {
+    const org = YCardSchema.parse({
+      people: [{
+        uid: 'alice', name: 'Alice', title: 'CTO', org: 'Acme',
+        jobs: [{ role: 'CTO', fte: 0.5, primary: true }, { role: 'Coach', fte: 0.5, org_unit: 'Academy', manager: 'bob' }],
+      }],
+    });
+    for (const jobs of ['cards', 'altid'] as const) {
+      const imported = vCardToYCard(parse(stringify(yCardToVCard(org, { jobs }))));
+      expect(imported.people).toHaveLength(1);
+      expect(imported.people[0].jobs).toEqual(org.people[0].jobs);
+    }
+  });
+
+  it('should write typed, structured and multi-valued jCard values', () => {
+    const [person] = vCardToYCard(parseVCard(corpus('apple.vcf'))).people;
+    const jCard = stringifyJCard(yCardToVCard({ people: [person] }));
+
+    expect(JSON.parse(jCard)).toHaveLength(1);
+    expect(jCard).toContain('["n",{},"text",["Appleseed","John","Q.","Dr.","Jr."]]');
+    expect(jCard).toContain('["org",{},"text",["Apple Inc.","Engineering"]]');
+    expect(jCard).toContain('["email",{"group":"item1","type":["internet","work"],"pref":"1"},"text","john@apple.example"]');
+    expect(jCard).toContain('["tel",{"type":["cell","voice"],"pref":"1"},"uri","tel:+14085550100"]');
+    expect(jCard).toContain('"label":"1 Infinite Loop\\nCupertino, CA 95014\\nUnited States"');
+    expect(jCard).toContain('["note",{},"text","Met at WWDC, 2019.\\nLikes coffee."]');
+    expect(jCard).toContain('["categories",{},"text","Work","VIP"]');
+    expect(jCard).toContain('["x-ablabel",{"group":"item2"},"unknown","Assistant"]');
+    expect(jCard).toContain('["bday",{},"date","1985-04-12"]');
+  });
+
+  it('should read a single jCard and reject malformed input', () => {
+    const [card] = parseJCard(JSON.stringify(['vcard', [
+      ['version', {}, 'text', '4.0'],
+      ['fn', {}, 'text', 'Simon Perreault'],
+      ['n', {}, 'text', ['Perreault', 'Simon', '', '', ['ing. jr', 'M.Sc.']]],
+      ['tel', { type: ['work', 'voice'], pref: '1' }, 'uri', 'tel:+1-418-656-9254;ext=102'],
+      ['x-karma', {}, 'integer', 42],
+    ]]));
+
+    expect(card).toMatchObject({
+      fn: 'Simon Perreault',
+      n: ['Perreault', 'Simon', '', '', 'ing. jr,M.Sc.'],
+      tel: [{ value: 'tel:+1-418-656-9254;ext=102', type: 'work,voice', valueType: 'uri', pref: 1 }],
+      extensions: [{ name: 'X-KARMA', value: '42', parameters: { VALUE: ['integer'] } }],
+    });
+    expect(() => parseJCard('{"vcard": []}')).toThrow(JCardParseError);
+    expect(() => parseJCard('[["vcard", [["fn", {}, "text"]]]]')).toThrow('jCard 1, property 1: expected [name, parameters, type, value]');
+    expect(() => parseJCard('[["vcard"')).toThrow(/^Invalid jCard JSON/);
+  });
+});
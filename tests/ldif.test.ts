@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseYCard, stringifyYCard } from '../src/npm/index';
+import { YCardSchema } from '../src/ycard-schema';
+import { parseLDIF, parseDn, formatLdifLine, LdifParseError } from '../src/npm/parsers/ldif';
+import { ldifToYCard, yCardToLDIF } from '../src/npm/utils';
+
+const dump = readFileSync(join(__dirname, 'fixtures', 'ldif', 'ldapsearch.ldif'), 'utf8');
+
+describe('LDIF import', () => {
+  it('should read continuation lines, base64 values and multi-valued attributes', () => {
+    const entries = parseLDIF(dump);
+
+    expect(entries.map(entry => entry.dn)).toEqual([
+      'dc=example,dc=com',
+      'ou=Engineering,dc=example,dc=com',
+      'uid=boss,ou=People,dc=example,dc=com',
+      'uid=hanako,ou=People,dc=example,dc=com',
+      'CN=Lee\\, Ann,OU=Users,DC=corp,DC=example,DC=com',
+    ]);
+    expect(entries[3].attributes).toMatchObject({
+      'cn;lang-ja': ['山田 花子'],
+      title: ['Director of Platform Engineering, Developer Experience and Internal Tools'],
+      mail: ['hanako@example.com', 'h.yamada@example.jp'],
+    });
+    expect(parseDn('CN=Lee\\, Ann+uid=x, OU=Users,DC=corp')).toEqual([['cn', 'Lee, Ann'], ['ou', 'Users'], ['dc', 'corp']]);
+    expect(parseDn('cn=\\E5\\B1\\B1\\E7\\94\\B0,dc=jp')).toEqual([['cn', '山田'], ['dc', 'jp']]);
+  });
+
+  it('should map inetOrgPerson entries onto people', () => {
+    const card = parseYCard(stringifyYCard(ldifToYCard(parseLDIF(dump))));
+
+    expect(card.people.map(person => [person.uid, person.manager])).toEqual([
+      ['boss', undefined],
+      ['hanako', 'boss'],
+      ['alee', 'hanako'],
+    ]);
+    expect(card.people[1]).toMatchObject({
+      name: 'Hanako',
+      surname: 'Yamada',
+      org: 'Example Corp',
+      org_unit: 'Engineering',
+      email: [{ address: 'hanako@example.com', pref: true }, { address: 'h.yamada@example.jp', pref: false }],
+      phone: [{ type: 'mobile', number: '+819012345678' }],
+      address: [{ type: 'work', street: '1-1 Marunouchi', city: 'Chiyoda-ku', state: 'Tokyo', postal_code: '100-0005', country: 'JP' }],
+      i18n: { displayName: { ja: '山田 花子' }, title: { ja: '技術部長' } },
+    });
+    expect(card.people[2]).toMatchObject({
+      name: 'Ann',
+      surname: 'Lee',
+      phone: [{ type: 'fax', number: '+12015550199' }],
+      address: [{ type: 'work', street: '500 Oracle Parkway\nRedwood Shores, CA 94065', country: 'US' }],
+    });
+  });
+
+  it('should take the given name from cn when an entry has only sn', () => {
+    const card = ldifToYCard(parseLDIF([
+      'dn: uid=bob,dc=example,dc=com', 'objectClass: person', 'uid: bob', 'cn: Bob Jones', 'sn: Jones', '',
+      'dn: uid=ops,dc=example,dc=com', 'objectClass: person', 'uid: ops', 'cn: Operations Desk', 'sn: Ops', '',
+    ].join('\n')));
+
+    expect(card.people[0]).toEqual({ uid: 'bob', name: 'Bob', surname: 'Jones' });
+    expect(card.people[1]).toEqual({ uid: 'ops', surname: 'Ops', i18n: { displayName: { und: 'Operations Desk' } } });
+    expect(parseLDIF(yCardToLDIF(card, 'dc=example,dc=com'))[1].attributes).toMatchObject({ cn: ['Operations Desk'], sn: ['Ops'] });
+  });
+
+  it('should reject URL values, change records and malformed lines', () => {
+    const url = 'dn: uid=a,dc=example,dc=com\nuid: a\njpegPhoto:< file:///etc/passwd\n';
+    expect(() => parseLDIF(url)).toThrow(LdifParseError);
+    expect(() => parseLDIF(url)).toThrow('jpegPhoto refers to file:///etc/passwd; URL values are not read (line 3)');
+    expect(() => parseLDIF('dn: uid=a,dc=example,dc=com\nchangetype: delete\n'))
+      .toThrow('changetype: delete is not supported (only content records and changetype: add) (line 2)');
+    expect(() => parseLDIF('uid: a\n')).toThrow('Expected a dn: line to start the record, found uid (line 1)');
+    expect(() => parseLDIF('dn: uid=a\ncn:: not base64!\n')).toThrow('cn has an invalid base64 value (line 2)');
+  });
+});
+
+describe('LDIF export', () => {
+  const card = YCardSchema.parse({
+    units: [{ id: 'eng', name: 'Engineering' }, { id: 'platform', name: 'Platform', parent: 'eng' }],
+    people: [
+      { uid: 'boss', name: 'Grace', surname: 'Hopper', title: 'CEO', org: 'Example Corp' },
+      {
+        uid: 'hanako', name: 'Hanako', surname: 'Yamada', title: 'Director', org: 'Example Corp', org_unit: 'platform', manager: 'boss',
+        jobs: [{ role: 'Director', fte: 0.5, primary: true }, { role: 'Mentor', fte: 0.5, org_unit: 'eng' }],
+        address: [{ street: '1-1 Marunouchi', city: 'Chiyoda-ku', state: 'Tokyo', postal_code: '100-0005', country: 'JP' }],
+        i18n: { displayName: { ja: '山田 花子' }, title: { ja: '部長' } },
+      },
+    ],
+  });
+
+  it('should write manager DNs, job titles and units, address attributes and language variants', () => {
+    const ldif = yCardToLDIF(card, 'dc=example,dc=com');
+
+    expect(ldif).toContain([
+      'dn: uid=hanako,dc=example,dc=com',
+      'objectClass: inetOrgPerson',
+      'objectClass: organizationalPerson',
+      'objectClass: person',
+      'objectClass: top',
+      'uid: hanako',
+      'givenName: Hanako',
+      'sn: Yamada',
+      'cn: Hanako Yamada',
+      'title: Director',
+      'title: Mentor',
+      'o: Example Corp',
+      'ou: Platform',
+      'ou: Engineering',
+      'manager: uid=boss,dc=example,dc=com',
+    ].join('\n'));
+    expect(ldif).toContain('street: 1-1 Marunouchi\nl: Chiyoda-ku\nst: Tokyo\npostalCode: 100-0005\nc: JP\n');
+    expect(ldif).toContain(`cn;lang-ja:: ${Buffer.from('山田 花子').toString('base64')}`);
+
+    // Importing the export gives the same people back
+    const imported = ldifToYCard(parseLDIF(ldif));
+    expect(imported.people.map(person => [person.uid, person.manager])).toEqual([['boss', undefined], ['hanako', 'boss']]);
+    expect(imported.people[1]).toMatchObject({
+      title: 'Director',
+      org_unit: 'Platform',
+      address: [{ type: 'work', street: '1-1 Marunouchi', city: 'Chiyoda-ku', state: 'Tokyo', postal_code: '100-0005', country: 'JP' }],
+      i18n: { displayName: { ja: '山田 花子' }, title: { ja: '部長' } },
+    });
+  });
+
+  it('should place people under their units and apply object classes and attribute mapping', () => {
+    const ldif = yCardToLDIF(card, 'dc=corp,dc=example', {
+      dnByUnit: true,
+      objectClasses: ['top', 'person', 'organizationalPerson', 'user'],
+      attributes: { uid: 'sAMAccountName', c: '', givenName: 'givenName' },
+    });
+
+    expect(ldif).toContain('dn: sAMAccountName=hanako,ou=Platform,ou=Engineering,dc=corp,dc=example\nobjectClass: top\nobjectClass: person');
+    expect(ldif).toContain('sAMAccountName: hanako\ngivenName: Hanako');
+    expect(ldif).toContain('manager: sAMAccountName=boss,dc=corp,dc=example');
+    expect(ldif).not.toContain('c: JP');
+    expect(ldif).toContain(`title;lang-ja:: ${Buffer.from('部長').toString('base64')}`);
+  });
+
+  it('should always write cn and sn', () => {
+    const people = YCardSchema.parse({
+      people: [
+        { uid: 'cher', name: 'Cher' },
+        { uid: 'jones', surname: 'Jones' },
+        { uid: 'ops', i18n: { displayName: { en: 'Operations Desk' } } },
+        { uid: 'svc' },
+      ],
+    });
+    const entries = parseLDIF(yCardToLDIF(people, 'dc=example,dc=com'));
+
+    expect(entries.map(entry => [entry.attributes.cn, entry.attributes.sn])).toEqual([
+      [['Cher'], ['Cher']],
+      [['Jones'], ['Jones']],
+      [['Operations Desk'], ['Operations Desk']],
+      [['svc'], ['svc']],
+    ]);
+    expect(ldifToYCard(entries).people.slice(0, 2)).toEqual([{ uid: 'cher', name: 'Cher' }, { uid: 'jones', surname: 'Jones' }]);
+  });
+
+  it('should base64 encode unsafe values and fold long lines', () => {
+    expect(formatLdifLine('cn', 'Ann Lee')).toBe('cn: Ann Lee');
+    expect(formatLdifLine('description', ':colon')).toBe('description:: OmNvbG9u');
+    expect(formatLdifLine('description', 'trailing ')).toBe('description:: dHJhaWxpbmcg');
+    expect(formatLdifLine('description', 'two\nlines')).toBe('description:: dHdvCmxpbmVz');
+
+    const folded = formatLdifLine('description', 'x'.repeat(200));
+    expect(folded.split('\n').map(line => line.length)).toEqual([76, 76, 63]);
+    expect(parseLDIF(`dn: cn=a\n${folded}\n`)[0].attributes.description).toEqual(['x'.repeat(200)]);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseYCard } from '../src/npm/index';
+import { lintYCard, defineRule, loadLintConfig, findLintConfig, LintConfigError } from '../src/lint';
+
+const text = `people:
+  - uid: boss
+    name: Grace
+    title: CEO
+    email: [grace@example.com]
+  - uid: ann
+    name: Ann
+    title: Ninja
+    manager: boss
+  # ycard-disable-next-line require-email
+  - uid: carl
+    name: Carl
+    title: Wizard # ycard-disable-line approved-titles
+    manager: boss
+`;
+const card = parseYCard(text);
+
+describe('Lint rules', () => {
+  it('should run enabled rules with their severity and options', () => {
+    const issues = lintYCard(card, {
+      rules: {
+        'require-email': 'error',
+        'approved-titles': ['warning', { titles: ['CEO', 'Engineer'] }],
+        'max-direct-reports': ['error', { max: 1 }],
+        'max-display-name-length': 'off',
+      },
+    });
+
+    expect(issues.map(issue => [issue.code, issue.severity, issue.path.join('.')])).toEqual([
+      ['require-email', 'error', 'people.1.email'],
+      ['require-email', 'error', 'people.2.email'],
+      ['approved-titles', 'warning', 'people.1.title'],
+      ['approved-titles', 'warning', 'people.2.title'],
+      ['max-direct-reports', 'error', 'people.0'],
+    ]);
+    expect(issues[4].message).toBe("'boss' has 2 direct reports (at most 1)");
+    expect(lintYCard(card)).toEqual([]);
+  });
+
+  it('should honor disable comments when given the source text', () => {
+    const issues = lintYCard(card, {
+      rules: { 'require-email': 'warning', 'approved-titles': ['warning', { titles: ['CEO'] }] },
+    }, text);
+
+    expect(issues.map(issue => [issue.code, issue.path.join('.')])).toEqual([
+      ['require-email', 'people.1.email'],
+      ['approved-titles', 'people.1.title'],
+    ]);
+  });
+
+  it('should honor disable comments above fields written with alias keys', () => {
+    const aliased = `people:
+  - uid: maria
+    nombre: María
+    # ycard-disable-next-line approved-titles
+    puesto: Jefa
+  - uid: luis
+    nombre: Luis
+    puesto: Jefe
+`;
+    const issues = lintYCard(parseYCard(aliased), { rules: { 'approved-titles': ['warning', { titles: ['CEO'] }] } }, aliased);
+
+    expect(issues.map(issue => [issue.code, issue.path.join('.')])).toEqual([['approved-titles', 'people.1.title']]);
+  });
+
+  it('should run plugin rules and reject bad configuration', () => {
+    const requireManager = defineRule({
+      id: 'acme/require-manager',
+      description: 'Everyone but the CEO has a manager',
+      severity: 'error',
+      check: card => card.people.flatMap((person, index) => person.manager || person.title === 'CEO'
+        ? []
+        : [{ message: `'${person.uid}' has no manager`, path: ['people', index, 'manager'] }]),
+    });
+    const orphan = parseYCard('people:\n  - uid: zed\n    title: Engineer\n');
+
+    expect(lintYCard(orphan, { plugins: [requireManager] }).map(issue => issue.code)).toEqual(['acme/require-manager']);
+    expect(() => lintYCard(card, { rules: { 'no-such-rule': 'error' } })).toThrow("Unknown lint rule 'no-such-rule'");
+    expect(() => lintYCard(card, { rules: { 'approved-titles': 'error' } })).toThrow(LintConfigError);
+    expect(() => lintYCard(card, { rules: { 'max-direct-reports': ['error', { max: 'ten' }] } }))
+      .toThrow("Invalid options for lint rule 'max-direct-reports'");
+  });
+
+  it('should load .ycardlint files with plugins from the nearest directory', () => {
+    const root = mkdtempSync(join(tmpdir(), 'ycardlint-'));
+    mkdirSync(join(root, 'org', 'people'), { recursive: true });
+    writeFileSync(join(root, 'rules.js'), `module.exports = { rules: [{
+      id: 'acme/no-wizards', description: 'No wizards', severity: 'warning',
+      check: card => card.people.flatMap((p, i) => p.title === 'Wizard' ? [{ message: 'wizard', path: ['people', i, 'title'] }] : []),
+    }] };`);
+    writeFileSync(join(root, '.ycardlint'), 'plugins: [./rules.js]\nrules:\n  require-email: error\n  acme/no-wizards: error\n');
+
+    const configFile = findLintConfig(join(root, 'org', 'people'));
+    expect(configFile).toBe(join(root, '.ycardlint'));
+    const issues = lintYCard(card, loadLintConfig(configFile!));
+    expect(issues.map(issue => [issue.code, issue.severity])).toEqual([
+      ['require-email', 'error'],
+      ['require-email', 'error'],
+      ['acme/no-wizards', 'error'],
+    ]);
+
+    writeFileSync(join(root, '.ycardlint'), 'rules:\n  require-email: loud\n');
+    expect(() => loadLintConfig(join(root, '.ycardlint'))).toThrow(/Invalid lint config .*rules\.require-email/);
+    rmSync(root, { recursive: true, force: true });
+  });
+});
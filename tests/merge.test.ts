@@ -0,0 +1,149 @@
+import { parseYCard } from '../src/npm/index';
+import { mergeYCard, stringifyMergeResult } from '../src/merge';
+
+const base = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+  - uid: ann
+    name: Ann
+    title: Engineer
+    manager: boss
+  - uid: carl
+    name: Carl
+`);
+
+describe('yCard merge', () => {
+  it('should merge changes to different fields and people, treating aliases as one field', () => {
+    const ours = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+  - uid: ann
+    nombre: Ann
+    puesto: Senior Engineer
+    jefe: boss
+    i18n:
+      title:
+        es: Ingeniera sénior
+  - uid: carl
+    name: Carl
+  - uid: dana
+    name: Dana
+`);
+    const theirs = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+  - uid: erin
+    name: Erin
+  - uid: ann
+    name: Ann
+    title: Engineer
+    manager: erin
+    i18n:
+      title:
+        ja: シニアエンジニア
+`);
+
+    const { card, conflicts } = mergeYCard(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(card.people.map(person => person.uid)).toEqual(['boss', 'erin', 'ann', 'dana']);
+    expect(card.people[2]).toMatchObject({
+      title: 'Senior Engineer',
+      manager: 'erin',
+      i18n: { title: { es: 'Ingeniera sénior', ja: 'シニアエンジニア' } },
+    });
+    expect(parseYCard(stringifyMergeResult({ card, conflicts }))).toEqual(card);
+  });
+
+  it('should write a clean merge onto our text, keeping comments and alias keys', () => {
+    const oursText = `# Team
+people:
+  - uid: boss
+    name: Grace # founder
+  - uid: ann
+    nombre: Ann
+    puesto: Senior Engineer # since March
+    jefe: boss
+  - uid: carl
+    name: Carl
+`;
+    const ours = parseYCard(oursText);
+    const theirs = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+  - uid: ann
+    name: Ann
+    title: Engineer
+    manager: carl
+  - uid: carl
+    name: Carl
+    jobs:
+      - role: Lead
+        fte: 1
+`);
+
+    const result = mergeYCard(base, ours, theirs);
+    const output = stringifyMergeResult(result, {}, { text: oursText, card: ours });
+    expect(output).toBe(`# Team
+people:
+  - uid: boss
+    name: Grace # founder
+  - uid: ann
+    nombre: Ann
+    puesto: Senior Engineer # since March
+    jefe: carl
+  - uid: carl
+    name: Carl
+    jobs:
+      - role: Lead
+        fte: 1
+`);
+    expect(parseYCard(output)).toEqual(result.card);
+  });
+
+  it('should write conflict markers for people changed on both sides', () => {
+    const ours = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+  - uid: ann
+    name: Ann
+    title: Senior Engineer
+    manager: boss
+  - uid: carl
+    name: Carl
+    title: Sales
+`);
+    const theirs = parseYCard(`
+people:
+  - uid: boss
+    name: Grace
+  - uid: ann
+    name: Ann
+    title: Staff Engineer
+    manager: boss
+`);
+
+    const result = mergeYCard(base, ours, theirs);
+    expect(result.conflicts.map(conflict => [conflict.id, conflict.fields, conflict.position])).toEqual([
+      ['ann', ['title'], 1],
+      ['carl', [], 2],
+    ]);
+    expect(result.card.people.map(person => person.uid)).toEqual(['boss', 'ann', 'carl']);
+
+    const text = stringifyMergeResult(result);
+    expect(text).toContain([
+      '<<<<<<< ours (title)',
+      '  - uid: ann',
+      '    name: Ann',
+      '    title: Senior Engineer',
+      '    manager: boss',
+      '||||||| base',
+    ].join('\n'));
+    expect(text).toContain('<<<<<<< ours (deleted in theirs)');
+    expect(text.match(/^>>>>>>> theirs$/gm)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,130 @@
+import { MigrationRegistry, MigrationError, documentVersion, defaultMigrations, CURRENT_YCARD_VERSION } from '../src/migrations';
+import type { MigrationStep } from '../src/migrations';
+import { YCardParser } from '../src/parser';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { stringifyYCard, parseVCard, vCardToYCard, parseLDIF, ldifToYCard } from '../src/npm/index';
+
+describe('Migrations', () => {
+  // v1 → v2: `department` becomes `org_unit`; v2 → v3: string phones become objects
+  const renameDepartment: MigrationStep = {
+    from: 1,
+    description: 'Rename department to org_unit',
+    migrate: document => {
+      const changes: { path: (string | number)[]; message: string }[] = [];
+      const people = (document.people as Record<string, unknown>[]).map((person, index) => {
+        if (!('department' in person)) return person;
+        const { department, ...rest } = person;
+        changes.push({ path: ['people', index, 'department'], message: 'renamed to org_unit' });
+        return { ...rest, org_unit: department };
+      });
+      return { document: { ...document, people }, changes };
+    },
+  };
+  const phoneObjects: MigrationStep = {
+    from: 2,
+    description: 'Convert string phones to objects',
+    migrate: document => ({ document, changes: [] }),
+  };
+  const registry = () => new MigrationRegistry(3).register(renameDepartment).register(phoneObjects);
+
+  it('should treat documents without ycard_version as version 1', () => {
+    expect(documentVersion({ people: [] })).toBe(1);
+    expect(documentVersion({ ycard_version: 2, people: [] })).toBe(2);
+    expect(() => documentVersion({ ycard_version: '2' })).toThrow(MigrationError);
+  });
+
+  it('should apply steps in order with a change report, without mutating the input', () => {
+    const input = { people: [{ uid: 'a', department: 'Eng' }, { uid: 'b' }] };
+    const snapshot = JSON.parse(JSON.stringify(input));
+
+    const result = registry().migrate(input);
+    expect(result.document).toEqual({ ycard_version: 3, people: [{ uid: 'a', org_unit: 'Eng' }, { uid: 'b' }] });
+    expect(result.steps).toEqual([
+      { from: 1, to: 2, description: 'Rename department to org_unit', changes: [{ path: ['people', 0, 'department'], message: 'renamed to org_unit' }] },
+      { from: 2, to: 3, description: 'Convert string phones to objects', changes: [] },
+    ]);
+    expect(input).toEqual(snapshot);
+
+    expect(registry().migrate(input, 2).document.ycard_version).toBe(2);
+  });
+
+  it('should leave current documents unchanged and reject newer or unreachable versions', () => {
+    const current = { ycard_version: 3, people: [] };
+    expect(registry().migrate(current)).toMatchObject({ document: current, steps: [] });
+    expect(() => registry().migrate({ ycard_version: 4, people: [] })).toThrow('supports up to version 3');
+    expect(() => new MigrationRegistry(3).register(phoneObjects).migrate({ people: [] })).toThrow('No migration registered from version 1');
+    expect(() => registry().register(renameDepartment)).toThrow(MigrationError);
+  });
+
+  it('should replace unknown phone types when migrating to version 2', () => {
+    expect(defaultMigrations.currentVersion).toBe(CURRENT_YCARD_VERSION);
+
+    const result = defaultMigrations.migrate({
+      people: [{ uid: 'a', phone: ['+12015550100', { type: 'assistant', number: '+12015550101' }], tel: [{ type: 'cell', number: '+12015550102' }] }],
+    }, 2);
+    expect(result.document.people).toEqual([{
+      uid: 'a',
+      phone: ['+12015550100', { type: 'work', number: '+12015550101' }],
+      tel: [{ type: 'cell', number: '+12015550102' }],
+    }]);
+    expect(result.steps[0].changes).toEqual([
+      { path: ['people', 0, 'phone', 1, 'type'], message: `unknown phone type 'assistant' replaced by work` },
+    ]);
+  });
+
+  it('should write email addresses as objects when migrating to version 4', () => {
+    const result = defaultMigrations.migrate({
+      ycard_version: 3,
+      people: [
+        { uid: 'a', email: 'a@example.com' },
+        { uid: 'b', correo: ['b@example.com', { address: 'b@home.example', type: 'home' }] },
+        { uid: 'c', email: [{ address: 'c@example.com', pref: true }] },
+      ],
+    });
+    expect(result.document).toEqual({
+      ycard_version: 4,
+      people: [
+        { uid: 'a', email: [{ address: 'a@example.com' }] },
+        { uid: 'b', correo: [{ address: 'b@example.com' }, { address: 'b@home.example', type: 'home' }] },
+        { uid: 'c', email: [{ address: 'c@example.com', pref: true }] },
+      ],
+    });
+    expect(result.steps[0].changes.map(change => change.path)).toEqual([['people', 0, 'email'], ['people', 1, 'correo']]);
+  });
+
+  it('should migrate older documents in the parser with a warning', () => {
+    const parser = new YCardParser({ migrations: registry() });
+
+    const result = parser.parse('people:\n  - uid: a\n    department: Eng\n');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ ycard_version: 3, people: [{ uid: 'a', org_unit: 'Eng' }] });
+      expect(result.warnings).toEqual([expect.objectContaining({ code: 'outdated-version', severity: 'warning' })]);
+    }
+
+    const newer = parser.parseWithSourceMap('ycard_version: 9\npeople: []\n');
+    expect(newer.success).toBe(false);
+    if (!newer.success) {
+      expect(parser.getLocatedErrors(newer.errors, newer.sourceMap)).toEqual([
+        expect.objectContaining({ code: 'unsupported-version', path: ['ycard_version'] }),
+      ]);
+    }
+  });
+
+  it.each([
+    ['vcard/apple.vcf', (content: string) => vCardToYCard(parseVCard(content))],
+    ['vcard/google.vcf', (content: string) => vCardToYCard(parseVCard(content))],
+    ['vcard/outlook.vcf', (content: string) => vCardToYCard(parseVCard(content))],
+    ['ldif/ldapsearch.ldif', (content: string) => ldifToYCard(parseLDIF(content))],
+  ])('should write the current version on imported %s', (file, importer) => {
+    const yaml = stringifyYCard(importer(readFileSync(join(__dirname, 'fixtures', file), 'utf8')));
+    expect(yaml.startsWith(`ycard_version: ${CURRENT_YCARD_VERSION}\n`)).toBe(true);
+
+    const result = new YCardParser().parse(yaml);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.warnings.filter(warning => warning.code === 'outdated-version')).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { buildOrgChart, orgChartToDot, orgChartToMermaid, orgChartToSvg, OrgChartError } from '../src/org-chart';
+
+const card = YCardSchema.parse({
+  units: [{ id: 'eng', name: 'Engineering', i18n: { name: { ja: '技術部' } } }],
+  people: [
+    { uid: 'ceo', name: 'Ada', surname: 'King', title: 'CEO', i18n: { displayName: { ja: 'エイダ' } } },
+    { uid: 'cto', name: 'Bo', title: 'CTO', manager: 'ceo', org_unit: 'eng' },
+    { uid: 'cfo', name: 'Cy "The Counter"', title: 'CFO', manager: 'ceo' },
+    { uid: 'dev', name: 'Di', org_unit: 'eng', jobs: [
+      { role: 'Developer', manager: 'cto', fte: 0.8, primary: true, dotted: ['cfo'] },
+      { role: 'Analyst', manager: 'cfo', fte: 0.2 },
+    ] },
+  ],
+});
+
+describe('Org charts', () => {
+  it('should select people by root and depth', () => {
+    expect(buildOrgChart(card).nodes.map(node => [node.uid, node.level, node.parent])).toEqual([
+      ['ceo', 0, undefined], ['cto', 1, 'ceo'], ['cfo', 1, 'ceo'], ['dev', 2, 'cto'],
+    ]);
+    expect(buildOrgChart(card, { depth: 1 }).nodes.map(node => node.uid)).toEqual(['ceo', 'cto', 'cfo']);
+
+    const chart = buildOrgChart(card, { root: 'cto' });
+    expect(chart.nodes.map(node => node.uid)).toEqual(['cto', 'dev']);
+    expect(chart.edges).toEqual([{ manager: 'cto', report: 'dev', kind: 'solid' }]);
+    expect(() => buildOrgChart(card, { root: 'ghost' })).toThrow(OrgChartError);
+  });
+
+  it('should keep every job manager and dotted line as separate edges', () => {
+    expect(buildOrgChart(card).edges.filter(edge => edge.report === 'dev')).toEqual([
+      { manager: 'cto', report: 'dev', kind: 'solid' },
+      { manager: 'cfo', report: 'dev', kind: 'dotted' },
+      { manager: 'cfo', report: 'dev', kind: 'solid' },
+    ]);
+  });
+
+  it('should render Graphviz DOT with unit clusters and localized labels', () => {
+    const dot = orgChartToDot(card, { groupBy: 'org_unit', language: 'ja' });
+    expect(dot).toContain('"ceo" [label="エイダ\\nCEO"];');
+    expect(dot).toContain('"cfo" [label="Cy \\"The Counter\\"\\nCFO"];');
+    expect(dot).toContain('  subgraph cluster_0 {\n    label="技術部";\n    style=rounded;\n    "cto" [label="Bo\\nCTO"];\n    "dev" [label="Di\\nDeveloper\\nAnalyst"];\n  }');
+    expect(dot).toContain('"cfo" -> "dev" [style=dashed, constraint=false];');
+    expect(dot).toContain('"cto" -> "dev";');
+  });
+
+  it('should render a Mermaid flowchart', () => {
+    expect(orgChartToMermaid(card, { root: 'ceo', depth: 1, groupBy: 'org_unit' })).toBe([
+      'flowchart TD',
+      '  p0["Ada King<br/>CEO"]',
+      '  p2["Cy #quot;The Counter#quot;<br/>CFO"]',
+      '  subgraph unit0["Engineering"]',
+      '    p1["Bo<br/>CTO"]',
+      '  end',
+      '  p0 --> p1',
+      '  p0 --> p2',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render a standalone SVG with a tree layout', () => {
+    const svg = orgChartToSvg(card, { groupBy: 'org_unit' });
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+    expect(svg.match(/<rect width=/g)).toHaveLength(4);
+    expect(svg).toContain('Cy &quot;The Counter&quot;');
+    expect(svg).toContain('stroke-dasharray="5,4"');
+    expect(svg).toContain('>Engineering</text>');
+
+    // ceo is centered over cto and cfo; dev sits under cto
+    const x = (uid: string) => Number(new RegExp(`translate\\((\\d+(?:\\.\\d+)?),\\d+\\)"><title>${uid}<`).exec(svg)?.[1]);
+    expect(x('ceo')).toBe((x('cto') + x('cfo')) / 2);
+    expect(x('dev')).toBe(x('cto'));
+  });
+});
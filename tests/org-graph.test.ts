@@ -0,0 +1,66 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { OrgGraph } from '../src/org-graph';
+
+//        ceo
+//       /    \
+//    cto      cfo ┄┄ (dotted) dana
+//   /   \       \
+// ann   bob    carl
+//        |
+//      dana (jobs: bob solid, cto solid)
+const graph = new OrgGraph(YCardSchema.parse({
+  people: [
+    { uid: 'ceo' },
+    { uid: 'cto', manager: 'ceo' },
+    { uid: 'cfo', manager: 'ceo' },
+    { uid: 'ann', manager: 'cto' },
+    { uid: 'bob', jobs: [{ role: 'Lead', manager: 'cto', primary: true }] },
+    { uid: 'carl', manager: 'cfo' },
+    { uid: 'dana', jobs: [{ role: 'Dev', manager: 'bob', primary: true, dotted: ['cfo'] }, { role: 'Architect', manager: 'cto' }] },
+    { uid: 'eve', manager: 'ghost' },
+    { uid: 'finn' },
+  ],
+}));
+
+describe('OrgGraph', () => {
+  it('should walk chains to the top through primary managers', () => {
+    expect(graph.chain('dana')).toEqual(['bob', 'cto', 'ceo']);
+    expect(graph.skipLevelManager('dana')).toBe('cto');
+    expect(graph.depth('dana')).toBe(3);
+    expect(graph.depth('ceo')).toBe(0);
+    expect(graph.chain('eve')).toEqual([]);
+  });
+
+  it('should list direct and indirect reports by edge kind', () => {
+    expect(graph.directReports('cto')).toEqual(['ann', 'bob', 'dana']);
+    expect(graph.directReports('cfo', 'dotted')).toEqual(['dana']);
+    expect(graph.allReports('ceo')).toEqual(['cto', 'cfo', 'ann', 'bob', 'dana', 'carl']);
+    expect(graph.indirectReports('cto')).toEqual([]);
+    expect(graph.indirectReports('ceo')).toEqual(['ann', 'bob', 'dana', 'carl']);
+    expect(graph.spanOfControl('cto')).toBe(3);
+    expect(graph.managers('dana')).toEqual(['bob', 'cto']);
+  });
+
+  it('should keep solid and dotted edges apart', () => {
+    expect(graph.edges('dotted')).toEqual([{ report: 'dana', manager: 'cfo', kind: 'dotted', job: 0 }]);
+    expect(graph.edges('solid')).toContainEqual({ report: 'eve', manager: 'ghost', kind: 'solid' });
+  });
+
+  it('should find the lowest common manager', () => {
+    expect(graph.lowestCommonManager('ann', 'dana')).toBe('cto');
+    expect(graph.lowestCommonManager('dana', 'carl')).toBe('ceo');
+    expect(graph.lowestCommonManager('bob', 'dana')).toBe('bob');
+    expect(graph.lowestCommonManager('ann', 'finn')).toBeUndefined();
+  });
+
+  it('should report roots and orphans', () => {
+    expect(graph.roots()).toEqual(['ceo', 'finn']);
+    expect(graph.orphans()).toEqual(['eve']);
+  });
+
+  it('should stop at management cycles', () => {
+    const cyclic = new OrgGraph(YCardSchema.parse({ people: [{ uid: 'a', manager: 'b' }, { uid: 'b', manager: 'a' }] }));
+    expect(cyclic.chain('a')).toEqual(['b']);
+    expect(cyclic.allReports('a')).toEqual(['b']);
+  });
+});
@@ -0,0 +1,98 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { validateReferences } from '../src/integrity';
+import { findUnit, unitChain, localizedName, unitHeadcounts } from '../src/org-units';
+import { yCardToVCard } from '../src/npm/converters';
+import { yCardToLDIF, getYCardSummary } from '../src/npm/utils';
+
+const card = YCardSchema.parse({
+  orgs: [{ id: 'acme', name: 'Acme Corp' }],
+  units: [
+    { id: 'eng', name: 'Engineering', org: 'acme', head: 'alice', cost_center: 'CC-100' },
+    { id: 'platform', name: 'Platform', parent: 'eng', i18n: { name: { ja: 'プラットフォーム' } } },
+    { id: 'sales', name: 'Sales, EMEA', org: 'acme' },
+  ],
+  people: [
+    { uid: 'alice', name: 'Alice', org_unit: 'eng' },
+    { uid: 'bob', name: 'Bob', manager: 'alice', org: 'Acme Corp', org_unit: 'Platform' },
+    { uid: 'carol', name: 'Carol', title: 'Engineer', manager: 'alice', org_unit: 'platform', jobs: [{ role: 'Seller', org_unit: 'sales' }] },
+  ],
+});
+
+describe('Organizations and units', () => {
+  it('should look up units by id or name and walk to the top unit', () => {
+    const platform = findUnit(card, 'Platform')!;
+    expect(unitChain(card, platform).map(unit => unit.id)).toEqual(['platform', 'eng']);
+    expect(localizedName(platform, 'ja-JP')).toBe('プラットフォーム');
+    expect(localizedName(platform, 'de')).toBe('Platform');
+  });
+
+  it('should count people per unit and below', () => {
+    expect(unitHeadcounts(card)).toEqual([
+      { id: 'eng', name: 'Engineering', headcount: 1, total: 3 },
+      { id: 'platform', name: 'Platform', parent: 'eng', headcount: 2, total: 2 },
+      { id: 'sales', name: 'Sales, EMEA', headcount: 1, total: 1 },
+    ]);
+    expect(getYCardSummary(card)).toMatchObject({ organizations: ['Acme Corp'], units: unitHeadcounts(card) });
+  });
+
+  it('should accept valid references', () => {
+    expect(validateReferences(card)).toEqual([]);
+  });
+
+  it('should report unknown, duplicate and cyclic references with paths', () => {
+    const issues = validateReferences(YCardSchema.parse({
+      orgs: [{ id: 'acme' }],
+      units: [
+        { id: 'a', parent: 'b', org: 'globex' },
+        { id: 'b', parent: 'a', head: 'ghost' },
+        { id: 'c', parent: 'nowhere' },
+        { id: 'c' },
+      ],
+      people: [{ uid: 'x', org: 'acme', org_unit: 'd', jobs: [{ role: 'Dev', org: 'initech', org_unit: 'c' }] }],
+    }));
+
+    expect(issues.map(issue => [issue.code, issue.path.join('.')])).toEqual([
+      ['duplicate-unit', 'units.3.id'],
+      ['unknown-org', 'units.0.org'],
+      ['unit-cycle', 'units.0.parent'],
+      ['unknown-unit-head', 'units.1.head'],
+      ['unknown-parent-unit', 'units.2.parent'],
+      ['unknown-org-unit', 'people.0.org_unit'],
+      ['unknown-org', 'people.0.jobs.0.org'],
+    ]);
+    expect(issues.find(issue => issue.code === 'unit-cycle')?.message).toBe('Unit cycle: a → b → a');
+  });
+
+  it('should leave free-text org values unchecked without orgs and units sections', () => {
+    expect(validateReferences(YCardSchema.parse({ people: [{ uid: 'x', org: 'Anything', org_unit: 'Whatever' }] }))).toEqual([]);
+  });
+
+  it('should use display names in vCard ORG', () => {
+    const cards = yCardToVCard(card);
+    expect(cards.map(vcard => vcard.org)).toEqual([
+      ['Acme Corp', 'Engineering'],
+      ['Acme Corp', 'Platform'],
+      ['Acme Corp', 'Platform'],
+      ['Acme Corp', 'Sales, EMEA'],
+    ]);
+  });
+
+  it('should write organizationalUnit entries in a DN tree', () => {
+    const ldif = yCardToLDIF(card, 'dc=example,dc=com');
+    expect(ldif.startsWith([
+      'dn: ou=Engineering,dc=example,dc=com',
+      'objectClass: organizationalUnit',
+      'objectClass: top',
+      'ou: Engineering',
+      'businessCategory: CC-100',
+      '',
+      'dn: ou=Sales\\, EMEA,dc=example,dc=com',
+      'objectClass: organizationalUnit',
+      'objectClass: top',
+      'ou: Sales, EMEA',
+      '',
+      'dn: ou=Platform,ou=Engineering,dc=example,dc=com',
+    ].join('\n'))).toBe(true);
+    expect(ldif).toContain('uid: alice\ngivenName: Alice\nsn: Alice\ncn: Alice\nou: Engineering\ndepartmentNumber: CC-100');
+  });
+});
@@ -0,0 +1,104 @@
+import { normalizePhoneNumber, resolvePhoneType, phoneRegion, validatePhones } from '../src/phone';
+import { YCardSchema } from '../src/ycard-schema';
+import { yCardToLDIF, yCardToCSV, ldifToYCard } from '../src/npm/utils';
+import { parseVCard, vCardToYCard, parseLDIF } from '../src/npm/index';
+import { YCardParser } from '../src/parser';
+
+describe('Phone numbers', () => {
+  it('should resolve phone types and their aliases', () => {
+    expect(resolvePhoneType('Mobile')).toBe('mobile');
+    expect(resolvePhoneType('cell')).toBe('mobile');
+    expect(resolvePhoneType('móvil')).toBe('mobile');
+    expect(resolvePhoneType('office')).toBe('work');
+    expect(resolvePhoneType('assistant')).toBeUndefined();
+  });
+
+  it('should accept ISO 3166-1 alpha-2 regions only', () => {
+    expect(phoneRegion('us')).toBe('US');
+    expect(phoneRegion('USA')).toBeUndefined();
+    expect(phoneRegion('ZZ')).toBeUndefined();
+  });
+
+  it('should normalize to E.164 with a display format', () => {
+    expect(normalizePhoneNumber('(201) 555-0123', 'US')).toEqual({
+      valid: true, number: '+12015550123', display: '+1 201 555 0123', region: 'US',
+    });
+    expect(normalizePhoneNumber('+49 30 1234567 ext. 42')).toMatchObject({ valid: true, number: '+49301234567', ext: '42' });
+    expect(normalizePhoneNumber('555-1234', 'US')).toEqual({ valid: false, message: `Invalid phone number '555-1234' for region US` });
+    expect(normalizePhoneNumber('201 555 0123')).toMatchObject({ valid: false, message: expect.stringContaining('Cannot tell the country') });
+  });
+
+  it('should use the address country, then the document default region', () => {
+    const card = YCardSchema.parse({
+      default_region: 'DE',
+      people: [
+        { uid: 'anna', phone: ['030 1234567'] },
+        { uid: 'bob', address: { country: 'US' }, tel: [{ type: 'cell', number: '(201) 555-0123' }] },
+      ],
+    });
+
+    expect(card.people[0].phone).toEqual([{ type: 'work', number: '+49301234567', display: '+49 30 1234567' }]);
+    expect(card.people[1].phone).toEqual([{ type: 'mobile', number: '+12015550123', display: '+1 201 555 0123' }]);
+  });
+
+  it('should report unknown types and unknown regions with paths', () => {
+    const result = YCardSchema.safeParse({
+      default_region: 'XX',
+      people: [{ uid: 'a', phone: ['555-1234', { type: 'assistant', number: '+12015550123' }] }],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues.map(issue => issue.path.join('.'))).toEqual([
+        'default_region',
+        'people.0.phone.1.type',
+      ]);
+    }
+
+  });
+
+  it('should keep numbers that cannot be parsed as written and warn about them', () => {
+    const card = YCardSchema.parse({ default_region: 'US', people: [{ uid: 'a', phone: ['555-1234', '(201) 555-0123'] }] });
+
+    expect(card.people[0].phone).toEqual([
+      { type: 'work', number: '555-1234' },
+      { type: 'work', number: '+12015550123', display: '+1 201 555 0123' },
+    ]);
+    expect(validatePhones(card)).toEqual([
+      { code: 'invalid-phone', message: `Invalid phone number '555-1234' for region US`, path: ['people', 0, 'phone', 0], severity: 'warning' },
+    ]);
+
+    const result = new YCardParser().parseWithSourceMap('ycard_version: 4\npeople:\n  - uid: a\n    tel: ["201 555 0123"]\n');
+    expect(result.success && result.warnings.map(warning => [warning.code, warning.severity])).toEqual([['invalid-phone', 'warning']]);
+    expect(result.success && new YCardParser().getLocatedIssues(result.warnings, result.sourceMap)[0].range.start).toMatchObject({ line: 3, column: 10 });
+  });
+
+  it('should export E.164 to LDAP attributes by type and display format to CSV', () => {
+    const card = YCardSchema.parse({
+      people: [{ uid: 'a', phone: ['+12015550100', { type: 'mobile', number: '+12015550101' }, { type: 'fax', number: '+12015550102' }] }],
+    });
+
+    const ldif = yCardToLDIF(card, 'dc=example,dc=com');
+    expect(ldif).toContain('telephoneNumber: +12015550100\nmobile: +12015550101\nfacsimileTelephoneNumber: +12015550102');
+    expect(yCardToCSV(card)).toContain('"+1 201 555 0100;+1 201 555 0101;+1 201 555 0102"');
+  });
+
+  it('should import national numbers with the address country so that the result validates', () => {
+    const vcf = [
+      'BEGIN:VCARD', 'VERSION:3.0', 'UID:a', 'N:Doe;Jane;;;', 'FN:Jane Doe',
+      'TEL;TYPE=WORK:(201) 555-0123', 'ADR;TYPE=WORK:;;1 Main St;Hoboken;NJ;07030;USA', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:3.0', 'UID:b', 'N:Roe;Rick;;;', 'FN:Rick Roe', 'TEL;TYPE=WORK:(201) 555-0124', 'END:VCARD',
+    ].join('\r\n');
+
+    const imported = vCardToYCard(parseVCard(vcf));
+    expect(imported.people[0].phone).toEqual([{ type: 'work', number: '+12015550123', display: '+1 201 555 0123' }]);
+    // Without an address country the number is kept as written; default_region (ycard import
+    // --default-region) lets the schema normalize it
+    expect(imported.people[1].phone).toEqual([{ type: 'work', number: '(201) 555-0124' }]);
+    expect(validatePhones(YCardSchema.parse(imported)).map(issue => issue.code)).toEqual(['invalid-phone']);
+    expect(YCardSchema.parse({ ...imported, default_region: 'US' }).people[1].phone?.[0].number).toBe('+12015550124');
+
+    const ldif = 'dn: uid=a,dc=example,dc=com\nobjectClass: inetOrgPerson\nuid: a\ncn: A\nsn: A\ntelephoneNumber: 030 1234567\nc: DE\n';
+    expect(ldifToYCard(parseLDIF(ldif)).people[0].phone?.[0].number).toBe('+49301234567');
+  });
+});
@@ -0,0 +1,55 @@
+import { YCardSchema } from '../src/ycard-schema';
+import { parseQuery, queryYCard, QueryError } from '../src/query';
+
+const card = YCardSchema.parse({
+  people: [
+    { uid: 'alice', name: 'Alice', title: 'CEO', org_unit: 'Executive', email: ['alice@example.com'] },
+    { uid: 'bob', name: 'Bob', title: 'VP Engineering', org_unit: 'Engineering', manager: 'alice',
+      i18n: { title: { ja: 'エンジニアリング担当副社長' } } },
+    { uid: 'carol', name: 'Carol', title: 'Engineer', org_unit: 'Engineering', manager: 'bob',
+      email: ['carol@example.com', 'carol@personal.example'],
+      jobs: [{ role: 'Dev', fte: 0.7, primary: true }, { role: 'Support', fte: 0.2 }] },
+    { uid: 'dan', name: 'Dan', title: 'Engineer', org_unit: 'Engineering', manager: 'bob',
+      jobs: [{ role: 'Dev', fte: 0.5, primary: true }, { role: 'QA', fte: 0.5, dotted: ['alice'] }] },
+  ],
+});
+
+const uids = (query: string) => queryYCard(card, query).map(person => person.uid);
+
+describe('yCard query', () => {
+  it('should filter on fields, FTE and reporting lines', () => {
+    expect(uids('org_unit == "Engineering" and reportsTo("alice") and fte < 1')).toEqual(['carol']);
+    expect(uids('reportsTo("alice", 1)')).toEqual(['bob']);
+    expect(uids('not reportsTo("bob") and uid != "alice"')).toEqual(['bob']);
+    expect(uids('title in ["CEO", "VP Engineering"] or (jobs.role == "QA")')).toEqual(['alice', 'bob', 'dan']);
+    expect(uids('count(reports) >= 2')).toEqual(['bob']);
+    expect(uids('manager == null')).toEqual(['alice']);
+  });
+
+  it('should match lists, regular expressions, traversals and translations', () => {
+    expect(uids('"carol@personal.example" in email')).toEqual(['carol']);
+    expect(uids('email =~ /@example\\.com$/')).toEqual(['alice', 'carol']);
+    expect(uids('manager.title =~ /^vp/i')).toEqual(['carol', 'dan']);
+    expect(uids('manager.manager == "alice"')).toEqual(['carol', 'dan']);
+    expect(uids('jobs.dotted.title == "CEO"')).toEqual(['dan']);
+    expect(uids('title@ja =~ "副社長"')).toEqual(['bob']);
+    expect(uids('title@ja == "Engineer"')).toEqual(['carol', 'dan']);
+    expect(uids('i18n.title.ja != null')).toEqual(['bob']);
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseQuery('titel == "CEO"')).toThrow("Unknown field 'titel' at column 1");
+    expect(() => parseQuery('title == "CEO" and')).toThrow('Unexpected end of query at column 19');
+    expect(() => parseQuery('reportsTo()')).toThrow('reportsTo() takes 1 or 2 arguments');
+
+    const error = (() => {
+      try {
+        parseQuery('title =~ /(/');
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(QueryError);
+    expect((error as QueryError).position).toBe(9);
+  });
+});
@@ -0,0 +1,82 @@
+import { YCardParser } from '../src/parser';
+import { SourceMap } from '../src/source-map';
+
+describe('Source-position-aware parsing', () => {
+  const yamlContent = [
+    'people:',
+    '  - uid: alice',
+    '    name: Alice',
+    '    jobs:',
+    '      - role: CEO',
+    '        fte: 1.5',
+    '  - name: Bob',
+    '',
+  ].join('\n');
+
+  it('should resolve a path to the exact key/value range', () => {
+    const sourceMap = SourceMap.fromText(yamlContent);
+    const range = sourceMap.rangeFor(['people', 0, 'jobs', 0, 'fte']);
+
+    expect(range.start).toEqual({ offset: yamlContent.indexOf('fte'), line: 5, column: 8 });
+    expect(range.end.line).toBe(5);
+    expect(range.end.column).toBe('        fte: 1.5'.length);
+  });
+
+  it('should find fields written with an alias key', () => {
+    const text = [
+      'people:',
+      '  - uid: maria',
+      '    puesto: Jefa',
+      '    jefe: alice',
+      '    jobs:',
+      '      - role: Mentora',
+      '        jefe: bob',
+      '    i18n:',
+      '      puesto:',
+      '        en: Boss',
+      '',
+    ].join('\n');
+    const sourceMap = SourceMap.fromText(text);
+
+    expect(sourceMap.rangeFor(['people', 0, 'title']).start).toEqual({ offset: text.indexOf('puesto'), line: 2, column: 4 });
+    expect(sourceMap.rangeFor(['people', 0, 'manager']).start.line).toBe(3);
+    expect(sourceMap.rangeFor(['people', 0, 'jefe']).start.line).toBe(3);
+    expect(sourceMap.rangeFor(['people', 0, 'jobs', 0, 'manager']).start.line).toBe(6);
+    expect(sourceMap.rangeFor(['people', 0, 'i18n', 'title', 'en']).start.line).toBe(9);
+    // The canonical key wins over its aliases, as in the schema
+    expect(SourceMap.fromText('people:\n  - uid: a\n    puesto: X\n    title: Y\n').rangeFor(['people', 0, 'title']).start.line).toBe(3);
+  });
+
+  it('should fall back to the first line of the nearest ancestor for missing fields', () => {
+    const sourceMap = SourceMap.fromText(yamlContent);
+    const range = sourceMap.rangeFor(['people', 1, 'uid']);
+
+    expect(range.start.line).toBe(6);
+    expect(range.end.line).toBe(6);
+  });
+
+  it('should locate every Zod issue', () => {
+    const parser = new YCardParser();
+    const result = parser.parseWithSourceMap(yamlContent);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      const located = parser.getLocatedErrors(result.errors, result.sourceMap);
+      const fte = located.find(error => error.path.join('.') === 'people.0.jobs.0.fte');
+      const uid = located.find(error => error.path.join('.') === 'people.1.uid');
+
+      expect(fte?.range.start.line).toBe(5);
+      expect(uid?.range.start.line).toBe(6);
+    }
+  });
+
+  it('should carry the js-yaml mark for syntax errors', () => {
+    const parser = new YCardParser();
+    const result = parser.parseWithSourceMap('people:\n  - uid: alice\n   name: [broken\n');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      const [error] = parser.getLocatedErrors(result.errors, result.sourceMap);
+      expect(error.message).toMatch(/^YAML parsing error/);
+      expect(error.range.start.line).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,370 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { YCardSchema } from '../src/ycard-schema';
+import { parseYCard, stringifyYCard } from '../src/npm/index';
+import { yCardPersonToVCard, vCardToYCardPerson, yCardToVCard, vCardToYCard } from '../src/npm/converters';
+import { parseVCard, stringifyVCard, vCardProperties, VCARD_VERSIONS } from '../src/npm/parsers/vcard';
+import { countryCodeFor } from '../src/countries';
+import { normalizePhoneNumber } from '../src/phone';
+
+const [person] = YCardSchema.parse({
+  people: [{
+    uid: 'hanako',
+    name: '花子',
+    surname: '山田',
+    title: 'Director of Platform Engineering, Developer Experience and Internal Tools',
+    org: 'Acme',
+    email: ['hanako@example.com', { address: 'h.yamada@example.jp', type: 'work', pref: true }],
+    phone: [{ type: 'mobile', number: '+81 90 1234 5678' }, { type: 'work', number: '+1 201 555 0123', ext: '42' }],
+    address: [{ street: '丸の内2-7-2', city: '千代田区', state: '東京都', postal_code: '100-8994', country: 'JP' }],
+  }],
+}).people;
+
+describe('vCard versions', () => {
+  it('should read vCard 2.1 quoted-printable values, charsets, bare parameters and base64 photos', () => {
+    const [card] = parseVCard([
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:=E5=B1=B1=E7=94=B0;=E8=8A=B1=E5=AD=90;;;',
+      'FN;CHARSET=ISO-8859-1;ENCODING=QUOTED-PRINTABLE:Ren=E9e M=FCller',
+      'TEL;WORK;VOICE:+1 201 555 0123',
+      'EMAIL;PREF;INTERNET:renee@example.com',
+      'NOTE;ENCODING=QUOTED-PRINTABLE:First line=0D=0ASecond line with a soft line b=',
+      'reak',
+      'PHOTO;ENCODING=BASE64;JPEG:/9j/4AAQSkZJRg',
+      'ABAQEASABIAAD',
+      '',
+      'END:VCARD',
+    ].join('\r\n'));
+
+    expect(card).toMatchObject({
+      version: '2.1',
+      n: ['山田', '花子', '', '', ''],
+      fn: 'Renée Müller',
+      tel: [{ value: '+1 201 555 0123', type: 'WORK,VOICE' }],
+      email: [{ value: 'renee@example.com', pref: 1 }],
+      note: 'First line\nSecond line with a soft line break',
+      photo: { value: 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQEASABIAAD', mediaType: 'image/jpeg' },
+    });
+    expect(vCardToYCardPerson(card).phone).toEqual([{ type: 'work', number: '+12015550123', display: '+1 201 555 0123' }]);
+  });
+
+  it('should unfold vCard 3.0 lines and attach LABEL properties to addresses', () => {
+    const [card] = parseVCard([
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Jane',
+      '  Appleseed',
+      'TITLE:Head of\\NSales',
+      'ADR;TYPE=HOME:;;1 Infinite Loop;Cupertino;CA;95014;United States',
+      'LABEL;TYPE=HOME:1 Infinite Loop\\nCupertino\\, CA 95014',
+      'PHOTO;ENCODING=b;TYPE=PNG:iVBORw0K',
+      '\tGgo=',
+      'END:VCARD',
+    ].join('\n'));
+
+    expect(card).toMatchObject({
+      version: '3.0',
+      fn: 'Jane Appleseed',
+      title: 'Head of\nSales',
+      adr: [{ type: 'HOME', label: '1 Infinite Loop\nCupertino, CA 95014' }],
+      photo: { value: 'data:image/png;base64,iVBORw0KGgo=' },
+    });
+  });
+
+  it('should fold lines at 75 octets without splitting characters', () => {
+    const vcf = stringifyVCard([{ ...yCardPersonToVCard(person), note: 'メモ'.repeat(40) }]);
+    const lines = vcf.split('\r\n');
+
+    expect(lines.every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(lines.filter(line => line.startsWith(' ')).length).toBeGreaterThan(2);
+    expect(lines.join('\n')).not.toContain('�');
+    expect(parseVCard(vcf)[0].note).toBe('メモ'.repeat(40));
+  });
+
+  it('should write each version and read it back', () => {
+    const card = { ...yCardPersonToVCard(person), photo: { value: 'data:image/jpeg;base64,/9j/4AAQ', mediaType: 'image/jpeg' } };
+
+    const v3 = stringifyVCard([card], { version: '3.0' });
+    expect(v3).toContain('VERSION:3.0\r\nUID:hanako\r\nFN:花子 山田\r\nN:山田;花子;;;\r\n');
+    expect(v3).toContain('PHOTO;ENCODING=b;TYPE=JPEG:/9j/4AAQ\r\n');
+    expect(v3).toContain('EMAIL;TYPE=work,pref:h.yamada@example.jp');
+    expect(v3).toContain('TEL;TYPE=work:+12015550123 ext. 42');
+    expect(v3).toContain('LABEL;TYPE=work:〒100-8994\\n東京都千代田区\\n丸の内2-7-2\\nJapan');
+
+    const v21 = stringifyVCard([card], { version: '2.1' });
+    expect(v21).toContain('FN;ENCODING=QUOTED-PRINTABLE;CHARSET=UTF-8:=E8=8A=B1=E5=AD=90 =E5=B1=B1=E7=\r\n=94=B0\r\n');
+    expect(v21).toContain('TITLE;ENCODING=QUOTED-PRINTABLE:Director of Platform Engineering, Develope=\r\nr Experience and Internal Tools\r\n');
+    expect(v21).toContain('EMAIL;WORK;PREF:h.yamada@example.jp');
+    expect(v21).toContain('PHOTO;ENCODING=BASE64;TYPE=JPEG:/9j/4AAQ\r\n\r\n');
+
+    for (const version of VCARD_VERSIONS) {
+      const [parsed] = parseVCard(stringifyVCard([card], { version }));
+      expect(parsed.version).toBe(version);
+      expect(parsed.photo?.value).toBe(card.photo.value);
+      expect(parsed.adr?.[0].label).toBe(card.adr?.[0].label);
+      const imported = vCardToYCardPerson(parsed);
+      expect(imported).toEqual({ ...person, phone: expect.any(Array), extensions: { vcard: [{ name: 'PHOTO', value: card.photo.value }] } });
+      expect(imported.phone?.map(phone => [phone.type, phone.number, phone.ext])).toEqual([
+        ['mobile', '+819012345678', undefined],
+        ['work', '+12015550123', '42'],
+      ]);
+    }
+  });
+});
+
+describe('vCard escapes', () => {
+  it('should split structured values only on unescaped separators and decode escapes in one pass', () => {
+    const [card] = parseVCard([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Ann Lee\\; Jr\\, III',
+      'N:Lee\\; Jr\\, III;Ann;;;',
+      'TITLE:C\\\\n level\\nsecond line',
+      'ORG:Acme\\; Co;R\\\\D',
+      'ADR;TYPE=work:;;1 Main St\\; Suite 2\\\\;Hoboken;NJ;07030;US',
+      'CATEGORIES:a\\,b,c\\\\,d',
+      'END:VCARD',
+    ].join('\r\n'));
+
+    expect(card.fn).toBe('Ann Lee; Jr, III');
+    expect(card.n).toEqual(['Lee; Jr, III', 'Ann', '', '', '']);
+    expect(card.title).toBe('C\\n level\nsecond line');
+    expect(card.org).toEqual(['Acme; Co', 'R\\D']);
+    expect(card.adr?.[0].value).toEqual(['', '', '1 Main St; Suite 2\\', 'Hoboken', 'NJ', '07030', 'US']);
+    expect(card.categories).toEqual(['a,b', 'c\\', 'd']);
+  });
+
+  it('should round trip separators and backslashes in every version', () => {
+    const org = YCardSchema.parse({
+      people: [{ uid: 'ann', name: 'Ann', surname: 'Lee; Jr, III', title: 'C\\n level', org: 'Acme; Co', org_unit: 'R\\D' }],
+    });
+
+    for (const version of VCARD_VERSIONS) {
+      const imported = vCardToYCard(parseVCard(stringifyVCard(yCardToVCard(org), { version })));
+      expect(imported.people).toEqual(org.people);
+    }
+  });
+});
+
+describe('vCard parameters', () => {
+  const apple = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    'N:Appleseed;John;;;',
+    'item1.EMAIL;type=INTERNET;type=pref:john@work.example',
+    'item1.X-ABLabel:_$!<Work>!$_',
+    'EMAIL;type=INTERNET;type=HOME:john@home.example',
+    'TEL;type=CELL;type=VOICE:+1 201 555 0100',
+    'item2.TEL:+1 201 555 0101',
+    'item2.X-ABLabel:_$!<WorkFAX>!$_',
+    'TEL;TYPE="voice,home";PREF=1:tel:+1-201-555-0102',
+    `ADR;TYPE=work;LABEL="Suite 5; Building A: East^nCupertino, CA ^'HQ^'":;;1 Infinite Loop;Cupertino;CA;95014;US`,
+    'END:VCARD',
+  ].join('\r\n');
+
+  it('should collect multi-valued, repeated and quoted parameters, groups and PREF', () => {
+    const [card] = parseVCard(apple);
+
+    expect(card.email).toEqual([
+      { value: 'john@work.example', type: 'INTERNET,work', pref: 1, group: 'item1' },
+      { value: 'john@home.example', type: 'INTERNET,HOME' },
+    ]);
+    expect(card.tel?.map(tel => [tel.type, tel.pref, tel.group])).toEqual([
+      ['CELL,VOICE', undefined, undefined],
+      ['fax', undefined, 'item2'],
+      ['voice,home', 1, undefined],
+    ]);
+    expect(card.adr?.[0].label).toBe('Suite 5; Building A: East\nCupertino, CA "HQ"');
+  });
+
+  it('should map TYPE and PREF onto yCard fields and back', () => {
+    const person = vCardToYCardPerson(parseVCard(apple)[0]);
+
+    expect(person.email).toEqual([
+      { address: 'john@work.example', type: 'work', pref: true },
+      { address: 'john@home.example', type: 'home', pref: false },
+    ]);
+    expect(person.phone?.map(phone => [phone.type, phone.number, phone.pref])).toEqual([
+      ['mobile', '+12015550100', undefined],
+      ['fax', '+12015550101', undefined],
+      ['home', '+12015550102', true],
+    ]);
+
+    const vcf = stringifyVCard([yCardPersonToVCard(person)]);
+    expect(vcf).toContain('item1.EMAIL;TYPE=internet,work;PREF=1:john@work.example\r\n');
+    expect(vcf).toContain('TEL;VALUE=uri;TYPE=voice,home;PREF=1:tel:+12015550102\r\n');
+    expect(stringifyVCard(parseVCard(apple), { version: '3.0' })).toContain('item2.TEL;TYPE=fax:+1 201 555 0101\r\n');
+  });
+});
+
+describe('vCard round trips', () => {
+  const corpus = (file: string) => readFileSync(join(__dirname, 'fixtures', 'vcard', file), 'utf8');
+
+  // The properties of vCard text as sorted lines, with what yCard normalizes in normalized form:
+  // phone numbers in E.164, countries as ISO codes, TYPE in lower case (work where TEL and ADR have
+  // none) and PREF=1 on the first email when none has PREF. The formatted address in LABEL is left out.
+  const properties = (vcf: string): string[] => parseVCard(vcf).flatMap(card => {
+    const all = vCardProperties(card);
+    const impliedPref = !all.some(property => property.name === 'EMAIL' && property.parameters?.PREF);
+    return all.map(({ group, name, parameters = {}, value }) => {
+      const kept = { ...parameters };
+      delete kept.LABEL;
+      if (name === 'TEL') delete kept.VALUE;
+      if (kept.TYPE) kept.TYPE = kept.TYPE.map(type => type.toLowerCase()).sort();
+      if ((name === 'TEL' || name === 'ADR') && !kept.TYPE) kept.TYPE = ['work'];
+      if (name === 'EMAIL' && impliedPref && all.find(property => property.name === 'EMAIL')?.value === value) kept.PREF = ['1'];
+      if (name === 'TEL') {
+        const phone = normalizePhoneNumber(value.replace(/^tel:/i, ''));
+        value = phone.valid ? phone.number : value;
+      }
+      if (name === 'ADR') value = value.replace(/[^;]*$/, country => countryCodeFor(country) ?? country);
+      const list = Object.entries(kept).map(([parameter, values]) => `;${parameter}=${values.join(',')}`).sort().join('');
+      return `${group ? `${group}.` : ''}${name}${list}:${value}`;
+    });
+  }).sort();
+
+  it.each(['apple.vcf', 'google.vcf', 'outlook.vcf', 'escapes.vcf'])('should import and export %s without losing data', file => {
+    const original = properties(corpus(file));
+    const imported = parseYCard(stringifyYCard(vCardToYCard(parseVCard(corpus(file)))));
+
+    for (const version of VCARD_VERSIONS) {
+      const exported = stringifyVCard(yCardToVCard(imported), { version });
+      // Import makes up a UID for cards without one
+      const generated = original.some(line => line.startsWith('UID:')) ? [] : [`UID:${imported.people[0].uid}`];
+      expect(properties(exported)).toEqual([...original, ...generated].sort());
+      expect(parseYCard(stringifyYCard(vCardToYCard(parseVCard(exported))))).toEqual(imported);
+    }
+  });
+
+  it('should keep the parameters of outlook.vcf in a vCard 2.1 export', () => {
+    const exported = stringifyVCard(yCardToVCard(vCardToYCard(parseVCard(corpus('outlook.vcf')))), { version: '2.1' });
+
+    expect(exported).toContain('\r\nN;LANGUAGE=de;ENCODING=QUOTED-PRINTABLE;CHARSET=UTF-8:M=C3=BCller;J=C3=BCr=\r\n');
+    expect(exported).toContain('\r\nTEL;WORK;VOICE:+49301234567\r\n');
+    expect(exported).toContain('\r\nTEL;WORK;FAX:+49301234568\r\n');
+    expect(exported).toContain('\r\nADR;WORK;PREF;ENCODING=QUOTED-PRINTABLE:');
+    expect(exported).toContain('\r\nX-MS-OL-DESIGN;CHARSET=utf-8;ENCODING=QUOTED-PRINTABLE:');
+  });
+
+  it('should keep escaped separators and backslashes in fields and unmapped properties', () => {
+    const [person] = vCardToYCard(parseVCard(corpus('escapes.vcf'))).people;
+
+    expect(person).toMatchObject({
+      name: 'Ann', surname: 'Lee; Jr, III', title: 'Head of R&D, EMEA', org: 'Acme; Co', org_unit: 'R\\D',
+      address: [{ type: 'work', street: '1 Main St; Suite 2', city: 'Hoboken', country: 'US' }],
+    });
+    expect(person.extensions?.vcard).toEqual(expect.arrayContaining([
+      { name: 'FN', value: 'Dr. Ann M. Lee\\, PhD' },
+      { name: 'N', value: 'Lee\\; Jr\\, III;Ann;M.;Dr.;PhD\\, MBA' },
+      { name: 'NOTE', value: 'Share: C:\\\\temp\\\\new\\; literal \\\\n stays\\nnext line' },
+      { name: 'CATEGORIES', value: 'Research\\, Development,Ops\\\\' },
+      { group: 'item1', name: 'X-ABLabel', value: 'Work\\, EMEA' },
+      { name: 'X-ASSISTANT', value: 'Bob\\; ext\\, 12' },
+    ]));
+
+    const [card] = parseVCard(stringifyVCard(yCardToVCard({ people: [person] })));
+    expect(card.fn).toBe('Dr. Ann M. Lee, PhD');
+    expect(card.n).toEqual(['Lee; Jr, III', 'Ann', 'M.', 'Dr.', 'PhD, MBA']);
+    expect(card.note).toBe('Share: C:\\temp\\new; literal \\n stays\nnext line');
+    expect(card.categories).toEqual(['Research, Development', 'Ops\\']);
+  });
+
+  it('should keep unmapped properties with their parameters and groups', () => {
+    const [person] = vCardToYCard(parseVCard(corpus('apple.vcf'))).people;
+
+    expect(person).toMatchObject({ name: 'John', surname: 'Appleseed', org: 'Apple Inc.', org_unit: 'Engineering' });
+    expect(person.extensions?.vcard).toEqual(expect.arrayContaining([
+      { name: 'FN', value: 'Dr. John Q. Appleseed Jr.' },
+      { name: 'N', value: 'Appleseed;John;Q.;Dr.;Jr.' },
+      { name: 'NOTE', value: 'Met at WWDC\\, 2019.\\nLikes coffee.' },
+      { group: 'item1', name: 'EMAIL', value: 'john@apple.example', parameters: { TYPE: ['internet', 'work'] } },
+      { group: 'item3', name: 'ADR', value: ';;1 Infinite Loop;Cupertino;CA;95014;US', parameters: { PREF: ['1'] } },
+      { group: 'item1', name: 'X-ABLabel', value: '_$!<Work>!$_' },
+      { group: 'item4', name: 'URL', value: 'https://apple.example/john', parameters: { TYPE: ['pref'] } },
+      { name: 'IMPP', value: 'skype:john.appleseed', parameters: { 'X-SERVICE-TYPE': ['Skype'], TYPE: ['HOME', 'pref'] } },
+    ]));
+
+    const vcf = stringifyVCard(yCardToVCard({ people: [person] }), { version: '3.0' }).replace(/\r\n /g, '');
+    expect(vcf).toContain('FN:Dr. John Q. Appleseed Jr.\r\nN:Appleseed;John;Q.;Dr.;Jr.\r\n');
+    expect(vcf).toContain('item1.EMAIL;TYPE=internet,work,pref:john@apple.example\r\n');
+    expect(vcf).toContain('item2.TEL;TYPE=work:+14085550101\r\n');
+    expect(vcf).toContain('item2.X-ABLabel:Assistant\r\n');
+    expect(vcf).toContain('PHOTO;ENCODING=b;TYPE=JPEG:/9j/4AAQSkZJRgABAQAAAQABAAD/');
+    expect(vcf).toContain('X-SOCIALPROFILE;TYPE=twitter;X-USER=johnappleseed:https://twitter.com/johnappleseed\r\n');
+
+    const [outlook] = vCardToYCard(parseVCard(corpus('outlook.vcf'))).people;
+    expect(outlook.extensions?.vcard).toContainEqual({
+      name: 'NOTE', value: 'Bevorzugt Kontakt per E-Mail.\\nBitte nicht vor 9 Uhr anrufen\\, Grüße.',
+    });
+    expect(stringifyVCard(yCardToVCard({ people: [outlook] }), { version: '2.1' }))
+      .toContain('NOTE;ENCODING=QUOTED-PRINTABLE;CHARSET=UTF-8:Bevorzugt Kontakt per E-Mail.=\r\n=0D=0ABitte nicht vor 9 Uhr anrufen, Gr=C3=BC=C3=9Fe.\r\n');
+  });
+});
+
+describe('vCard multi-hat jobs', () => {
+  const org = YCardSchema.parse({
+    people: [
+      {
+        uid: 'alice', name: 'Alice', surname: 'Smith', title: 'CTO', org: 'Acme', org_unit: 'Office of the CTO',
+        jobs: [
+          { role: 'CTO', fte: 0.6, primary: true },
+          { role: 'Platform Lead', fte: 0.4, org_unit: 'Platform', manager: 'bob', dotted: ['carol'] },
+        ],
+      },
+      { uid: 'bob', name: 'Bob', title: 'CEO', org: 'Acme' },
+    ],
+  });
+
+  it.each(['cards', 'altid'] as const)('should rebuild jobs from a %s export', jobs => {
+    const vcf = stringifyVCard(yCardToVCard(org, { jobs }));
+    const imported = vCardToYCard(parseVCard(vcf));
+
+    expect(imported.people.map(p => p.uid)).toEqual(['alice', 'bob']);
+    expect(imported.people[0].jobs).toEqual(org.people[0].jobs);
+    expect(imported.people[0].extensions).toBeUndefined();
+  });
+
+  it.each(['cards', 'altid'] as const)('should keep zero-FTE jobs in a %s export', jobs => {
+    const advisor = YCardSchema.parse({
+      people: [{
+        uid: 'dave', name: 'Dave', title: 'Engineer', org: 'Acme',
+        jobs: [{ role: 'Engineer', fte: 1, primary: true }, { role: 'Advisory Board', fte: 0 }],
+      }],
+    });
+    const vcf = stringifyVCard(yCardToVCard(advisor, { jobs }));
+    expect(vcf).toContain('FTE=0');
+    expect(vCardToYCard(parseVCard(vcf)).people[0].jobs).toEqual(advisor.people[0].jobs);
+
+    // A marker without a usable FTE is a full-time job
+    const [person] = vCardToYCard(parseVCard(vcf.replace('FTE=0', 'FTE=half'))).people;
+    expect(person.jobs?.map(job => job.fte)).toEqual([1, 1]);
+  });
+
+  it('should write job cards and ALTID properties with a job marker', () => {
+    const cards = stringifyVCard(yCardToVCard(org));
+    expect(cards).toContain('UID:alice-job-1\r\nFN:Alice Smith\r\nN:Smith;Alice;;;\r\nTITLE:Platform Lead\r\nORG:Acme;Platform\r\n');
+    expect(cards).toContain('X-YCARD-JOB;INDEX=1;FTE=0.4;MANAGER=bob;DOTTED=carol:alice\r\n');
+
+    const altid = stringifyVCard(yCardToVCard(org, { jobs: 'altid' }));
+    expect(altid).not.toContain('alice-job-');
+    expect(altid).toContain('TITLE:CTO\r\nORG:Acme;Office of the CTO\r\nTITLE;ALTID=job-0:CTO\r\nORG;ALTID=job-0:Acme;Office of the CTO\r\n');
+    expect(altid).toContain('X-YCARD-JOB;ALTID=job-1;FTE=0.4;MANAGER=bob;DOTTED=carol:alice\r\n');
+  });
+
+  it('should recognize job cards by their UID suffix alone', () => {
+    const vcf = [
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:dan', 'FN:Dan', 'ORG:Acme;Sales', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:dan-job-1', 'FN:Dan', 'TITLE:Trainer', 'ORG:Acme;Academy', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:dan-job-0', 'FN:Dan', 'TITLE:Seller', 'ORG:Acme;Sales', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:eve-job-0', 'FN:Eve', 'END:VCARD',
+    ].join('\r\n');
+    const { people } = vCardToYCard(parseVCard(vcf));
+
+    expect(people.map(p => p.uid)).toEqual(['dan', 'eve-job-0']);
+    expect(people[0].jobs).toEqual([
+      { role: 'Seller', fte: 1, dotted: [], primary: false },
+      { role: 'Trainer', fte: 1, dotted: [], org_unit: 'Academy', primary: false },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { vCardToYCard } from '../src/npm/converters';
+import { stringifyVCard } from '../src/npm/parsers/vcard';
+import { parseXCard, stringifyXCard, XCardParseError } from '../src/npm/parsers/xcard';
+
+describe('xCard', () => {
+  it('should read RFC 6351 documents with groups, parameters and structured values', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- exported by a partner -->
+<vcards xmlns="urn:ietf:params:xml:ns:vcard-4.0">
+  <vcard>
+    <fn><text>Simon Perreault</text></fn>
+    <n>
+      <surname>Perreault</surname><given>Simon</given><additional/><prefix/>
+      <suffix>ing. jr</suffix><suffix>M.Sc.</suffix>
+    </n>
+    <org><text>Viagénie &amp; Co</text><text>R&#x26;D</text></org>
+    <group name="item1">
+      <email><parameters><type><text>work</text></type><pref><integer>1</integer></pref></parameters><text>simon@example.com</text></email>
+      <x-ablabel><unknown><![CDATA[<Work>]]></unknown></x-ablabel>
+    </group>
+    <adr>
+      <parameters><type><text>work</text></type></parameters>
+      <pobox/><ext/><street>2875 boul. Laurier, suite D2-630</street><locality>Quebec</locality>
+      <region>QC</region><code>G1V 2M2</code><country>Canada</country>
+    </adr>
+    <tel><parameters><type><text>work</text><text>voice</text></type></parameters><uri>tel:+1-418-656-9254;ext=102</uri></tel>
+  </vcard>
+</vcards>`;
+    const [card] = parseXCard(xml);
+
+    expect(card).toMatchObject({
+      fn: 'Simon Perreault',
+      n: ['Perreault', 'Simon', '', '', 'ing. jr,M.Sc.'],
+      org: ['Viagénie & Co', 'R&D'],
+      email: [{ value: 'simon@example.com', type: 'work', pref: 1, group: 'item1' }],
+      adr: [{ value: ['', '', '2875 boul. Laurier, suite D2-630', 'Quebec', 'QC', 'G1V 2M2', 'Canada'], type: 'work' }],
+      tel: [{ value: 'tel:+1-418-656-9254;ext=102', type: 'work,voice', valueType: 'uri' }],
+      extensions: [{ group: 'item1', name: 'X-ABLABEL', value: '<Work>' }],
+    });
+    expect(stringifyVCard([card])).toContain('N:Perreault;Simon;;;ing. jr\\,M.Sc.\r\n');
+
+    const [person] = vCardToYCard([card]).people;
+    expect(person).toMatchObject({ name: 'Simon', surname: 'Perreault', org: 'Viagénie & Co', org_unit: 'R&D' });
+    expect(person.address?.[0]).toMatchObject({ city: 'Quebec', country: 'CA' });
+  });
+
+  it('should write grouped properties inside group elements and escape text', () => {
+    const xml = stringifyXCard([{
+      version: '4.0',
+      fn: 'Ann <Ops> & Co',
+      n: ['Lee', 'Ann', '', '', ''],
+      email: [{ value: 'ann@example.com', type: 'work', pref: 1, group: 'item1' }],
+      note: 'On call',
+      extensions: [{ group: 'item1', name: 'X-ABLabel', value: 'Office' }],
+    }]);
+
+    expect(xml).toContain('<vcards xmlns="urn:ietf:params:xml:ns:vcard-4.0">');
+    expect(xml).toContain('<fn><text>Ann &lt;Ops&gt; &amp; Co</text></fn>');
+    expect(xml).toContain('<n><surname>Lee</surname><given>Ann</given><additional/><prefix/><suffix/></n>');
+    expect(xml).toContain([
+      '    <group name="item1">',
+      '      <email><parameters><type><text>work</text></type><pref><integer>1</integer></pref></parameters><text>ann@example.com</text></email>',
+      '    </group>',
+      '    <note><text>On call</text></note>',
+      '    <group name="item1">',
+      '      <x-ablabel><unknown>Office</unknown></x-ablabel>',
+      '    </group>',
+    ].join('\n'));
+    expect(parseXCard(xml)[0]).toMatchObject({
+      fn: 'Ann <Ops> & Co',
+      email: [{ value: 'ann@example.com', type: 'work', pref: 1, group: 'item1' }],
+      extensions: [{ group: 'item1', name: 'X-ABLABEL', value: 'Office' }],
+    });
+  });
+
+  it('should reject malformed XML and entity declarations', () => {
+    expect(() => parseXCard('<vcards><vcard><fn><text>A</fn></vcard></vcards>')).toThrow('Invalid xCard XML (line 1): unexpected </fn>');
+    expect(() => parseXCard('<!DOCTYPE vcards [<!ENTITY x "y">]><vcards/>')).toThrow(XCardParseError);
+    expect(() => parseXCard('<vcards><vcard><fn><text>&x;</text></fn></vcard></vcards>')).toThrow('unknown entity &x;');
+    expect(() => parseXCard('<contacts/>')).toThrow(new XCardParseError('Expected an xCard <vcards> element, found <contacts>'));
+  });
+});
@@ -33,7 +33,9 @@ describe('Zod Schema Tests', () => {
         expect(result.data.name).toBe('Juan Pérez');
         expect(result.data.surname).toBe('Pérez');
         expect(result.data.title).toBe('Desarrollador');
-        expect(result.data.email).toBe('juan@example.com');
+        // yCard version 4: email is parsed to a list of { address, type, pref } objects
+        expect(result.data.email).toEqual([{ address: 'juan@example.com', pref: true }]);
+        expect(result.data.email?.map(email => email.address)).toEqual(['juan@example.com']);
         expect(result.data.manager).toBe('manager-uid');
       }
     });
@@ -66,7 +68,7 @@ describe('Zod Schema Tests', () => {
       if (result.success) {
         expect(result.data.surname).toBe('Doe');
         expect(result.data.org_unit).toBe('Engineering');
-        expect(result.data.email).toBe('john@example.com');
+        expect(result.data.email).toEqual([{ address: 'john@example.com', pref: true }]);
       }
     });
 
@@ -84,7 +86,7 @@ describe('Zod Schema Tests', () => {
       expect(result.success).toBe(true);
       if (result.success) {
         expect(result.data.name).toBe('John'); // canonical takes priority
-        expect(result.data.email).toBe('john@example.com'); // canonical takes priority
+        expect(result.data.email).toEqual([{ address: 'john@example.com', pref: true }]); // canonical takes priority
       }
     });
 